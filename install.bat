@@ -43,7 +43,7 @@ if not exist .env.local (
         echo NEXT_PUBLIC_APTOS_NODE_URL=https://fullnode.testnet.aptoslabs.com
         echo.
         echo # OpenRouter API Configuration
-        echo NEXT_PUBLIC_OPENROUTER_API_KEY=your_openrouter_api_key_here
+        echo OPENROUTER_API_KEY=your_openrouter_api_key_here
         echo OPENROUTER_BASE_URL=https://openrouter.ai/api/v1
         echo.
         echo # Smart Contract Addresses ^(Update with your deployed contracts^)
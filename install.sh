@@ -47,7 +47,7 @@ NEXT_PUBLIC_APTOS_NETWORK=testnet
 NEXT_PUBLIC_APTOS_NODE_URL=https://fullnode.testnet.aptoslabs.com
 
 # OpenRouter API Configuration
-NEXT_PUBLIC_OPENROUTER_API_KEY=your_openrouter_api_key_here
+OPENROUTER_API_KEY=your_openrouter_api_key_here
 OPENROUTER_BASE_URL=https://openrouter.ai/api/v1
 
 # Smart Contract Addresses (Update with your deployed contracts)
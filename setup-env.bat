@@ -35,7 +35,7 @@ REM Create .env.local file
     echo # ===========================================
     echo.
     echo # OpenRouter API Key - Get from https://openrouter.ai/
-    echo NEXT_PUBLIC_OPENROUTER_API_KEY=your_openrouter_api_key_here
+    echo OPENROUTER_API_KEY=your_openrouter_api_key_here
     echo.
     echo # OpenRouter base URL
     echo OPENROUTER_BASE_URL=https://openrouter.ai/api/v1
@@ -80,7 +80,7 @@ echo 1. 🔑 Get OpenRouter API Key:
 echo    - Visit: https://openrouter.ai/
 echo    - Sign up for free account
 echo    - Create API key in dashboard
-echo    - Update NEXT_PUBLIC_OPENROUTER_API_KEY in .env.local
+echo    - Update OPENROUTER_API_KEY in .env.local
 echo.
 echo 2. 🏗️ Deploy Smart Contracts:
 echo    - Navigate to: dexxy-contracts/
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { openRouterService } from '@/lib/openrouter';
+
+const CODE_TYPES = ['token', 'pool', 'vault'];
+
+export async function POST(request: NextRequest) {
+  try {
+    const { code, type } = await request.json();
+
+    if (!code || !type) {
+      return NextResponse.json(
+        { error: 'Code and type are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!CODE_TYPES.includes(type)) {
+      return NextResponse.json(
+        { error: `Unsupported code type: ${type}` },
+        { status: 400 }
+      );
+    }
+
+    const audit = await openRouterService.analyzeCode(code, type);
+
+    return NextResponse.json({
+      success: true,
+      audit,
+      timestamp: new Date().toISOString(),
+    });
+
+  } catch (error) {
+    console.error('Code analysis error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to analyze code',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
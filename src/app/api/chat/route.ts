@@ -1,9 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { openRouterService } from '@/lib/openrouter';
+import { ChatContext, openRouterService } from '@/lib/openrouter';
+import { formatIssues, parseUserProfile, walletContextSchema } from '@/lib/schemas';
+import { serverSentEvent } from '@/lib/sse';
+import { ChatHistoryMessage, ChatStreamEvent, WalletContext } from '@/types';
 
 export async function POST(request: NextRequest) {
   try {
-    const { message, conversationHistory } = await request.json();
+    const { message, conversationHistory, summary, walletContext, profile, stream } = await request.json();
 
     if (!message) {
       return NextResponse.json(
@@ -12,22 +15,39 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const context: ChatContext = {
+      summary,
+      wallet: parseWalletContext(walletContext),
+      profile: parseUserProfile(profile),
+    };
+
+    if (stream) {
+      return streamChat(request, message, conversationHistory || [], context);
+    }
+
     // Get AI response
     const response = await openRouterService.chatWithAssistant(
       message,
-      conversationHistory || []
+      conversationHistory || [],
+      context
     );
 
     return NextResponse.json({
       success: true,
-      response,
+      response: response.message,
+      action: response.action,
+      parameters: response.parameters,
+      confidence: response.confidence,
+      usage: response.usage,
+      summary: response.summary,
+      toolTrace: response.toolTrace,
       timestamp: new Date().toISOString(),
     });
 
   } catch (error) {
     console.error('Chat API error:', error);
     return NextResponse.json(
-      { 
+      {
         error: 'Failed to process chat message',
         details: error instanceof Error ? error.message : 'Unknown error'
       },
@@ -35,3 +55,70 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+// A malformed context is dropped rather than failing the turn; the assistant is then told no wallet is connected
+function parseWalletContext(walletContext: unknown): WalletContext | undefined {
+  if (!walletContext) return undefined;
+
+  const parsed = walletContextSchema.safeParse(walletContext);
+  if (!parsed.success) {
+    console.warn('Ignoring invalid wallet context:', formatIssues(parsed.error));
+    return undefined;
+  }
+  return parsed.data;
+}
+
+// Relay the completion as server-sent ChatStreamEvents: tokens as they arrive, then the
+// parsed response. Closing the connection aborts the upstream request.
+function streamChat(
+  request: NextRequest,
+  message: string,
+  conversationHistory: ChatHistoryMessage[],
+  context: ChatContext
+) {
+  const upstream = new AbortController();
+  request.signal.addEventListener('abort', () => upstream.abort());
+  // Set when the client cancels the stream, which closes it
+  let cancelled = false;
+
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ChatStreamEvent) => controller.enqueue(encoder.encode(serverSentEvent(event)));
+
+      try {
+        const response = await openRouterService.streamChatWithAssistant(
+          message,
+          conversationHistory,
+          (token) => send({ type: 'token', content: token }),
+          upstream.signal,
+          context
+        );
+        send({ type: 'done', response });
+      } catch (error) {
+        if (!upstream.signal.aborted) {
+          console.error('Chat stream error:', error);
+          send({
+            type: 'error',
+            error: 'Failed to process chat message',
+            details: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      } finally {
+        if (!cancelled) controller.close();
+      }
+    },
+    cancel() {
+      cancelled = true;
+      upstream.abort();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+    },
+  });
+}
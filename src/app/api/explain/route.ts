@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { openRouterService } from '@/lib/openrouter';
+import { parseUserProfile } from '@/lib/schemas';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { concept, profile } = await request.json();
+
+    if (!concept) {
+      return NextResponse.json(
+        { error: 'Concept is required' },
+        { status: 400 }
+      );
+    }
+
+    const explanation = await openRouterService.explainConcept(concept, parseUserProfile(profile));
+
+    return NextResponse.json({
+      success: true,
+      explanation,
+      timestamp: new Date().toISOString(),
+    });
+
+  } catch (error) {
+    console.error('Concept explanation error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to explain concept',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
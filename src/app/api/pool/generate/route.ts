@@ -1,35 +1,34 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { openRouterService } from '@/lib/openrouter';
+import { renderTemplate } from '@/lib/move-templates';
+import { validateProductParameters } from '@/lib/schemas';
 
 export async function POST(request: NextRequest) {
   try {
-    const { parameters } = await request.json();
+    const { parameters, requirements } = await request.json();
 
-    if (!parameters) {
+    // Same schema and messages as the sandbox and chat review dialog
+    const validation = validateProductParameters('pool', parameters);
+    if (!validation.success) {
       return NextResponse.json(
-        { error: 'Pool parameters are required' },
+        {
+          error: 'Invalid pool parameters',
+          details: validation.errors.join('; '),
+          errors: validation.errors,
+        },
         { status: 400 }
       );
     }
 
-    // Validate required parameters
-    const requiredFields = ['name', 'tokenA', 'tokenB', 'fee', 'initialLiquidityA', 'initialLiquidityB'];
-    for (const field of requiredFields) {
-      if (!parameters[field]) {
-        return NextResponse.json(
-          { error: `Missing required field: ${field}` },
-          { status: 400 }
-        );
-      }
-    }
-
-    // Generate Move code
-    const code = await openRouterService.generatePoolCode(parameters);
+    // Standard parameters render the vetted template; only custom requirements go to the model
+    const generated = requirements?.trim()
+      ? await openRouterService.generatePoolCode(validation.data, requirements)
+      : renderTemplate('pool', validation.data);
 
     return NextResponse.json({
       success: true,
-      code,
-      parameters,
+      ...generated,
+      parameters: validation.data,
       timestamp: new Date().toISOString(),
     });
 
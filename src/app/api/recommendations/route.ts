@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { openRouterService } from '@/lib/openrouter';
+import { parseUserProfile } from '@/lib/schemas';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { userContext, profile } = await request.json();
+
+    if (!userContext) {
+      return NextResponse.json(
+        { error: 'User context is required' },
+        { status: 400 }
+      );
+    }
+
+    const recommendations = await openRouterService.getRecommendations(userContext, parseUserProfile(profile));
+
+    return NextResponse.json({
+      success: true,
+      recommendations,
+      timestamp: new Date().toISOString(),
+    });
+
+  } catch (error) {
+    console.error('Recommendations error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to get recommendations',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
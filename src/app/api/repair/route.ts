@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { openRouterService } from '@/lib/openrouter';
+
+const CODE_TYPES = ['token', 'pool', 'vault'];
+
+export async function POST(request: NextRequest) {
+  try {
+    const { code, type, diagnostics, tests } = await request.json();
+
+    if (!code || !type) {
+      return NextResponse.json(
+        { error: 'Code and type are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!CODE_TYPES.includes(type)) {
+      return NextResponse.json(
+        { error: `Unsupported code type: ${type}` },
+        { status: 400 }
+      );
+    }
+
+    const repaired = await openRouterService.repairCode(
+      code,
+      type,
+      Array.isArray(diagnostics) ? diagnostics : [],
+      Array.isArray(tests) ? tests : []
+    );
+
+    return NextResponse.json({
+      success: true,
+      ...repaired,
+      timestamp: new Date().toISOString(),
+    });
+
+  } catch (error) {
+    console.error('Code repair error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to repair code',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
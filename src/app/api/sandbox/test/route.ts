@@ -1,12 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { sandboxService } from '@/lib/sandbox';
+import { serverSandboxService } from '@/lib/sandbox-server';
+import { DEFAULT_AUTOFIX_ATTEMPTS, DEFAULT_SIMULATION_PARAMETERS } from '@/lib/sandbox';
+import { validateProductParameters } from '@/lib/schemas';
+
+// Each attempt is a model call plus a compile and test run
+const MAX_AUTOFIX_ATTEMPTS = 5;
 
 // Adjust types depending on what your sandboxService expects
 type SimulationType = 'token' | 'pool' | 'vault';
 
 export async function POST(request: NextRequest) {
   try {
-    const { code, type } = await request.json();
+    const { code, type, parameters, mode = 'compile', testModules, scenario, maxAttempts, revisions } = await request.json();
 
     if (!code || !type) {
       return NextResponse.json(
@@ -15,45 +20,59 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Prepare default params based on type
-    let params: any = {};
-    switch (type as SimulationType) {
-      case 'token':
-        params = {
-          name: 'Test Token',
-          symbol: 'TST',
-          decimals: 6,
-          supply: 1_000_000,
-        };
-        break;
-
-      case 'pool':
-        params = {
-          assetA: 'APT',
-          assetB: 'USDC',
-          fee: 0.003,
-        };
-        break;
+    if (type !== 'token' && type !== 'pool' && type !== 'vault') {
+      return NextResponse.json(
+        { error: `Unsupported simulation type: ${type}` },
+        { status: 400 }
+      );
+    }
 
-      case 'vault':
-        params = {
-          strategy: 'default',
-          depositAsset: 'APT',
-        };
-        break;
+    // The gas estimate prices these, so they must be the simulation's own parameters
+    const validation = parameters === undefined
+      ? { success: true as const, data: DEFAULT_SIMULATION_PARAMETERS[type as SimulationType] }
+      : validateProductParameters(type as SimulationType, parameters);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: `Invalid ${type} parameters`,
+          details: validation.errors.join('; '),
+          errors: validation.errors,
+        },
+        { status: 400 }
+      );
+    }
 
-      default:
-        return NextResponse.json(
-          { error: `Unsupported simulation type: ${type}` },
-          { status: 400 }
-        );
+    if (mode !== 'compile' && mode !== 'unit' && mode !== 'scenario' && mode !== 'autofix') {
+      return NextResponse.json(
+        { error: `Unsupported test mode: ${mode}` },
+        { status: 400 }
+      );
     }
 
     // Create a temporary simulation for testing
-    const simulation = await sandboxService.createSimulation(type as SimulationType, params);
+    const simulation = await serverSandboxService.createSimulation(type as SimulationType, validation.data, code);
 
-    // Test the code
-    const result = await sandboxService.testCode(simulation.id);
+    // Compile and analyze the code, run its Move unit tests, run a scenario on a localnet,
+    // or repair it until it builds and its tests pass
+    let result;
+    switch (mode) {
+      case 'autofix':
+        result = await serverSandboxService.autoFix(simulation.id, {
+          maxAttempts: Math.min(Math.max(Number(maxAttempts) || DEFAULT_AUTOFIX_ATTEMPTS, 1), MAX_AUTOFIX_ATTEMPTS),
+          testModules: Array.isArray(testModules) ? testModules : undefined,
+          revisions: Array.isArray(revisions) ? revisions : undefined,
+        });
+        break;
+      case 'unit':
+        result = await serverSandboxService.runUnitTests(simulation.id, Array.isArray(testModules) ? testModules : []);
+        break;
+      case 'scenario':
+        result = await serverSandboxService.runScenario(simulation.id, scenario || undefined);
+        break;
+      default:
+        result = await serverSandboxService.testCode(simulation.id);
+    }
+    serverSandboxService.deleteSimulation(simulation.id);
 
     return NextResponse.json({
       success: true,
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { openRouterService } from '@/lib/openrouter';
+import { renderTemplate } from '@/lib/move-templates';
+import { validateProductParameters } from '@/lib/schemas';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { parameters, requirements } = await request.json();
+
+    // Same schema and messages as the sandbox and chat review dialog
+    const validation = validateProductParameters('vault', parameters);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid vault parameters',
+          details: validation.errors.join('; '),
+          errors: validation.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Standard parameters render the vetted template; only custom requirements go to the model
+    const generated = requirements?.trim()
+      ? await openRouterService.generateVaultCode(validation.data, requirements)
+      : renderTemplate('vault', validation.data);
+
+    return NextResponse.json({
+      success: true,
+      ...generated,
+      parameters: validation.data,
+      timestamp: new Date().toISOString(),
+    });
+
+  } catch (error) {
+    console.error('Vault generation error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to generate vault code',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
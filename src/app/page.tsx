@@ -10,10 +10,12 @@ import { SandboxView } from '@/components/sandbox/SandboxView';
 import { PoolsView } from '@/components/pools/PoolsView';
 import { TokensView } from '@/components/tokens/TokensView';
 import { WelcomeScreen } from '@/components/welcome/WelcomeScreen';
+import { useTransactionTracker } from '@/hooks/useTransactionTracker';
 
 export default function HomePage() {
   const { appState, wallet } = useAppStore();
   const [showWelcome, setShowWelcome] = useState(true);
+  useTransactionTracker();
 
   const renderCurrentView = () => {
     if (showWelcome && !wallet.connected) {
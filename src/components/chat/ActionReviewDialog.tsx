@@ -0,0 +1,308 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, CheckCircle, Pencil, PenLine, TestTube, XCircle } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { useToast } from '@/components/ui/toaster';
+import { useAppStore } from '@/store/useAppStore';
+import { useContractActions } from '@/hooks/useContractActions';
+import { ActionPayload, ProductAction, SUBMITTED_PARAMETERS, actionPayloads, describeArgument } from '@/lib/actions';
+import { contractService, gasService } from '@/lib/aptos';
+import { RenderedTemplate, renderTemplate } from '@/lib/move-templates';
+import { sandboxService } from '@/lib/sandbox';
+import { GasEstimate, PoolParameters, TokenParameters, VaultParameters } from '@/types';
+
+type ProductParameters = TokenParameters | PoolParameters | VaultParameters;
+
+const SIMULATION_TYPES: Record<ProductAction, 'token' | 'pool' | 'vault'> = {
+  create_token: 'token',
+  create_pool: 'pool',
+  create_vault: 'vault',
+};
+
+const ACTION_TITLES: Record<ProductAction, string> = {
+  create_token: 'Create Token',
+  create_pool: 'Create Pool',
+  create_vault: 'Create Vault',
+};
+
+interface ActionReviewDialogProps {
+  // Chat message the action came from; pinned with the reviewed parameters once the user acts on them
+  messageId?: string;
+  action: ProductAction;
+  parameters: ProductParameters;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Review a chat action before it goes on chain: parameters, exact payloads, simulated gas
+// and validation, with edit, send-to-sandbox and sign options
+export function ActionReviewDialog({ messageId, action, parameters, open, onOpenChange }: ActionReviewDialogProps) {
+  const { addMessage, updateMessage, addSimulation, setAppState } = useAppStore();
+  const contractActions = useContractActions(messageId);
+  const { success, error: showError } = useToast();
+
+  const [params, setParams] = useState<ProductParameters>(parameters);
+  const [isEditing, setIsEditing] = useState(false);
+  const [gasEstimate, setGasEstimate] = useState<GasEstimate | null>(null);
+  const [gasError, setGasError] = useState<string | null>(null);
+  const [isEstimating, setIsEstimating] = useState(false);
+  const [isSigning, setIsSigning] = useState(false);
+
+  const type = SIMULATION_TYPES[action];
+  const validation = sandboxService.validateParameters(type, params);
+  const submitted = SUBMITTED_PARAMETERS[action];
+  const offChain = Object.keys(params).filter(key => submitted.indexOf(key) === -1);
+
+  // Rebuilt only when the reviewed parameters change, so the estimate below runs once per edit
+  const { payloads, payloadError } = useMemo((): { payloads: ActionPayload[]; payloadError: string | null } => {
+    try {
+      return { payloads: actionPayloads(action, params), payloadError: null };
+    } catch (error) {
+      return { payloads: [], payloadError: error instanceof Error ? error.message : 'Could not build the transaction payload' };
+    }
+  }, [action, params]);
+
+  // Later payloads depend on earlier ones being committed, so only the first can be simulated up front
+  const firstPayload = payloads[0]?.data;
+  const address = contractActions.address;
+  useEffect(() => {
+    if (!open || isEditing || !firstPayload || !address) return;
+
+    let cancelled = false;
+    setIsEstimating(true);
+    setGasError(null);
+
+    gasService.estimate(address, firstPayload)
+      .then(estimate => !cancelled && setGasEstimate(estimate))
+      .catch(error => !cancelled && setGasError(error instanceof Error ? error.message : 'Gas estimation failed'))
+      .finally(() => !cancelled && setIsEstimating(false));
+
+    return () => { cancelled = true; };
+  }, [open, isEditing, firstPayload, address]);
+
+  const updateParam = (key: string, value: string) => {
+    const current = (params as unknown as Record<string, unknown>)[key];
+    setParams({ ...params, [key]: typeof current === 'number' ? Number(value) : value } as ProductParameters);
+    setGasEstimate(null);
+  };
+
+  // Keep the agreed parameters in the assistant's context however long the chat gets
+  const pinAgreedParameters = () => {
+    if (messageId) {
+      updateMessage(messageId, { pinned: true, metadata: { parameters: params } });
+    }
+  };
+
+  const handleSendToSandbox = async () => {
+    pinAgreedParameters();
+    // Start from the vetted template; parameters it cannot render start with empty code
+    let rendered: RenderedTemplate | undefined;
+    try {
+      rendered = validation.valid ? renderTemplate(type, params) : undefined;
+    } catch {
+      rendered = undefined;
+    }
+
+    const simulation = await sandboxService.createSimulation(type, params, rendered?.code);
+    addSimulation(rendered ? {
+      ...simulation,
+      explanation: rendered.explanation,
+      deploymentSteps: rendered.deploymentSteps,
+      securityNotes: rendered.securityNotes,
+      testModules: [rendered.testModule],
+    } : simulation);
+    setAppState({ currentView: 'sandbox' });
+    onOpenChange(false);
+  };
+
+  const handleSign = async () => {
+    pinAgreedParameters();
+    setIsSigning(true);
+    try {
+      for (let i = 0; i < payloads.length; i++) {
+        const payload = payloads[i];
+        const { hash } = await contractActions.submitPayload(payload.type, payload.data);
+
+        addMessage({
+          id: `msg_${Date.now()}_${i}`,
+          role: 'assistant',
+          content: `Submitted "${payload.label}" (step ${i + 1} of ${payloads.length}).`,
+          timestamp: new Date(),
+          metadata: { transactionHash: hash },
+        });
+
+        if (i < payloads.length - 1) {
+          const committed = await contractService.waitForTransaction(hash);
+          if (!committed.success) {
+            throw new Error(`"${payload.label}" failed: ${committed.vm_status}`);
+          }
+        }
+      }
+
+      success('Transaction Submitted', `${ACTION_TITLES[action]} sent to the network`);
+      onOpenChange(false);
+    } catch (error) {
+      showError('Signing Failed', error instanceof Error ? error.message : 'Transaction was not submitted');
+    } finally {
+      setIsSigning(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Review: {ACTION_TITLES[action]}</DialogTitle>
+          <DialogDescription>
+            Check the parameters and the exact transaction{payloads.length > 1 ? 's' : ''} before signing.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5 text-sm">
+          {/* Parameters */}
+          <section>
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="font-medium text-gray-900">Parameters</h4>
+              <button
+                onClick={() => setIsEditing(!isEditing)}
+                className="flex items-center text-xs text-gray-600 hover:text-gray-800"
+              >
+                <Pencil className="w-3 h-3 mr-1" />
+                {isEditing ? 'Done' : 'Edit'}
+              </button>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {Object.entries(params).filter(([key]) => submitted.indexOf(key) !== -1).map(([key, value]) => (
+                <label key={key} className="flex flex-col p-2 bg-gray-50 rounded">
+                  <span className="text-xs text-gray-500">{key}</span>
+                  {isEditing ? (
+                    <input
+                      value={String(value ?? '')}
+                      type={typeof value === 'number' ? 'number' : 'text'}
+                      onChange={(e) => updateParam(key, e.target.value)}
+                      className="mt-1 px-2 py-1 border border-gray-200 rounded text-gray-900"
+                    />
+                  ) : (
+                    <span className="text-gray-900 break-all">{String(value ?? '')}</span>
+                  )}
+                </label>
+              ))}
+            </div>
+            {offChain.length > 0 && (
+              <p className="mt-2 text-xs text-gray-500">
+                {offChain.join(', ')} {offChain.length > 1 ? 'are' : 'is'} not part of the on-chain call; send to the sandbox to build a contract that uses {offChain.length > 1 ? 'them' : 'it'}.
+              </p>
+            )}
+          </section>
+
+          {/* Validation */}
+          <section>
+            <h4 className="font-medium text-gray-900 mb-2">Validation</h4>
+            {validation.valid ? (
+              <div className="flex items-center text-green-600">
+                <CheckCircle className="w-4 h-4 mr-2" />
+                Parameters look valid
+              </div>
+            ) : (
+              <ul className="space-y-1">
+                {validation.errors.map((message) => (
+                  <li key={message} className="flex items-start text-red-600">
+                    <XCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+                    {message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          {/* Payloads */}
+          <section>
+            <h4 className="font-medium text-gray-900 mb-2">Transaction Payload</h4>
+            {payloadError ? (
+              <div className="flex items-start text-red-600">
+                <XCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+                {payloadError}
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {payloads.map((payload, index) => (
+                  <div key={index} className="p-3 bg-gray-50 rounded font-mono text-xs text-gray-800 overflow-x-auto">
+                    <div className="text-gray-500 mb-1">{index + 1}. {payload.label}</div>
+                    <div>{payload.data.function}</div>
+                    <ol className="ml-4 list-decimal">
+                      {payload.data.functionArguments.map((argument, argIndex) => (
+                        <li key={argIndex}>{describeArgument(argument)}</li>
+                      ))}
+                    </ol>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+
+          {/* Gas */}
+          <section>
+            <h4 className="font-medium text-gray-900 mb-2">Simulated Gas</h4>
+            {!contractActions.address ? (
+              <p className="text-gray-500">Connect a wallet to simulate and sign.</p>
+            ) : isEditing ? (
+              <p className="text-gray-500">Finish editing to re-estimate.</p>
+            ) : isEstimating ? (
+              <div className="flex items-center text-gray-600">
+                <LoadingSpinner size="sm" />
+                <span className="ml-2">Simulating...</span>
+              </div>
+            ) : gasError ? (
+              <div className="flex items-start text-yellow-600">
+                <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+                {gasError}
+              </div>
+            ) : gasEstimate && (
+              <div className="space-y-1">
+                <div className={gasEstimate.success ? 'text-gray-900' : 'text-red-600'}>
+                  {gasEstimate.success
+                    ? `${gasEstimate.gasUsed.toLocaleString()} gas units at ${gasEstimate.gasUnitPrice} octas (${gasEstimate.aptCost.toFixed(6)} APT)`
+                    : `Simulation failed: ${gasEstimate.vmStatus}`}
+                </div>
+                {payloads.length > 1 && (
+                  <p className="text-xs text-gray-500">
+                    Estimate for step 1; later steps are simulated when they are signed.
+                  </p>
+                )}
+              </div>
+            )}
+          </section>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" size="sm" onClick={handleSendToSandbox}>
+            <TestTube className="w-4 h-4 mr-2" />
+            Send to Sandbox
+          </Button>
+          <Button
+            variant="gradient"
+            size="sm"
+            onClick={handleSign}
+            disabled={
+              isSigning || isEstimating || isEditing || !contractActions.connected || !validation.valid ||
+              !!payloadError || !!gasError || gasEstimate?.success === false
+            }
+          >
+            {isSigning ? <LoadingSpinner size="sm" /> : <PenLine className="w-4 h-4 mr-2" />}
+            Sign with Wallet
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
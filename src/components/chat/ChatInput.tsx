@@ -2,13 +2,16 @@
 
 import { useState, KeyboardEvent } from 'react';
 import { Button } from '@/components/ui/button';
-import { Send, Mic, MicOff } from 'lucide-react';
+import { Send, Mic, MicOff, Square } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 interface ChatInputProps {
   value: string;
   onChange: (value: string) => void;
   onSend: (message: string) => void;
+  // While a reply is being generated the send button becomes a stop button
+  onStop?: () => void;
+  isStreaming?: boolean;
   disabled?: boolean;
   placeholder?: string;
 }
@@ -17,6 +20,8 @@ export function ChatInput({
   value, 
   onChange, 
   onSend, 
+  onStop,
+  isStreaming = false,
   disabled = false, 
   placeholder = "Type your message..." 
 }: ChatInputProps) {
@@ -93,14 +98,25 @@ export function ChatInput({
         )}
       </Button>
 
-      {/* Send button */}
-      <Button
-        onClick={handleSend}
-        disabled={disabled || !value.trim()}
-        className="btn-animate"
-      >
-        <Send className="w-4 h-4" />
-      </Button>
+      {/* Send / stop button */}
+      {isStreaming && onStop ? (
+        <Button
+          onClick={onStop}
+          variant="outline"
+          className="btn-animate"
+          title="Stop generating"
+        >
+          <Square className="w-4 h-4" />
+        </Button>
+      ) : (
+        <Button
+          onClick={handleSend}
+          disabled={disabled || !value.trim()}
+          className="btn-animate"
+        >
+          <Send className="w-4 h-4" />
+        </Button>
+      )}
     </div>
   );
 }
@@ -1,25 +1,47 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
-import { useAppStore } from '@/store/useAppStore';
-import { openRouterService } from '@/lib/openrouter';
+import { selectCurrentSession, selectUserSessions, useAppStore } from '@/store/useAppStore';
+import { assistantClient } from '@/lib/assistant-client';
+import { walletContextService } from '@/lib/wallet-context';
+import { inferProfile } from '@/lib/user-profile';
 import { ChatMessageList } from './ChatMessageList';
 import { ChatInput } from './ChatInput';
 import { ChatHeader } from './ChatHeader';
 import { useToast } from '@/components/ui/toaster';
+import { ChatHistoryMessage, ChatMessage, UserProfile } from '@/types';
+
+// Replies carry their action outside the text, so it is put back for the model to see
+// what was proposed (and, once pinned, agreed)
+function historyMessage(message: ChatMessage): ChatHistoryMessage {
+  const { action, parameters } = message.metadata || {};
+  return {
+    id: message.id,
+    role: message.role,
+    content: action && parameters
+      ? `${message.content}\n<action>${JSON.stringify({ action, parameters })}</action>`
+      : message.content,
+    pinned: message.pinned,
+  };
+}
 
 export function ChatInterface() {
+  const currentSession = useAppStore(selectCurrentSession);
   const { 
-    currentSession, 
     addMessage, 
+    updateMessage,
     wallet,
+    setSessionSummary,
+    setUserProfile,
     setLoading,
     setError 
   } = useAppStore();
   
   const [isTyping, setIsTyping] = useState(false);
+  const [streamingId, setStreamingId] = useState<string | null>(null);
   const [inputValue, setInputValue] = useState('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
   const { success, error: showError } = useToast();
 
   const scrollToBottom = () => {
@@ -30,7 +52,24 @@ export function ChatInterface() {
     scrollToBottom();
   }, [currentSession?.messages]);
 
-  const handleSendMessage = async (message: string) => {
+  // An inferred profile keeps following what the user writes across their sessions; one set
+  // in settings is left alone
+  const resolveProfile = (): UserProfile | undefined => {
+    const state = useAppStore.getState();
+    const profile = state.user?.profile;
+    if (profile?.source === 'user') return profile;
+
+    const userMessages = selectUserSessions(state).reverse().reduce<string[]>((all, session) =>
+      all.concat(session.messages.filter(item => item.role === 'user').map(item => item.content)), []);
+    const inferred = inferProfile(userMessages);
+    if (inferred && (inferred.expertise !== profile?.expertise || inferred.riskTolerance !== profile?.riskTolerance)) {
+      setUserProfile(inferred);
+    }
+    return inferred || profile;
+  };
+
+  // refreshWallet re-reads balances instead of using the last few seconds' cached reads
+  const handleSendMessage = async (message: string, refreshWallet = false) => {
     if (!message.trim() || isTyping) return;
 
     const userMessage = {
@@ -40,47 +79,99 @@ export function ChatInterface() {
       timestamp: new Date(),
     };
 
-    addMessage(userMessage);
+    // Replies go to this session even if the user switches to another one meanwhile
+    const sessionId = addMessage(userMessage);
     setInputValue('');
     setIsTyping(true);
     setLoading(true);
 
+    // The assistant message is added on the first token and filled in as the reply streams
+    const assistantId = `msg_${Date.now() + 1}`;
+    let partial = '';
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     try {
-      const conversationHistory = currentSession?.messages.map(msg => ({
-        role: msg.role,
-        content: msg.content,
-      })) || [];
-
-      const aiResponse = await openRouterService.chatWithAssistant(message, conversationHistory);
-
-      const assistantMessage = {
-        id: `msg_${Date.now() + 1}`,
-        role: 'assistant' as const,
-        content: aiResponse,
-        timestamp: new Date(),
+      const conversationHistory = currentSession?.messages.map(historyMessage) || [];
+      const walletContext = await walletContextService.build(useAppStore.getState(), refreshWallet);
+      const profile = resolveProfile();
+
+      const aiResponse = await assistantClient.streamChat({
+        message,
+        conversationHistory,
+        summary: currentSession?.summary,
+        walletContext,
+        profile,
+        signal: controller.signal,
+        onText: (text) => {
+          if (!partial) {
+            addMessage({ id: assistantId, role: 'assistant', content: text, timestamp: new Date() }, sessionId);
+            setStreamingId(assistantId);
+          } else {
+            updateMessage(assistantId, { content: text });
+          }
+          partial = text || ' ';
+        },
+      });
+
+      const metadata = {
+        ...(aiResponse.action ? { action: aiResponse.action, parameters: aiResponse.parameters } : {}),
+        usage: aiResponse.usage,
+        toolTrace: aiResponse.toolTrace,
       };
+      if (aiResponse.summary) {
+        setSessionSummary(sessionId, aiResponse.summary);
+      }
 
-      addMessage(assistantMessage);
+      if (partial) {
+        updateMessage(assistantId, { content: aiResponse.message, metadata });
+      } else {
+        addMessage({
+          id: assistantId,
+          role: 'assistant',
+          content: aiResponse.message,
+          timestamp: new Date(),
+          metadata,
+        }, sessionId);
+      }
       success('AI Response', 'Assistant replied successfully');
 
     } catch (error) {
+      if (controller.signal.aborted) {
+        // Keep whatever arrived before the user stopped the reply
+        if (partial) {
+          updateMessage(assistantId, { content: `${partial.trimEnd()}\n\n(stopped)` });
+        }
+        return;
+      }
+
       console.error('Error getting AI response:', error);
-      const errorMessage = {
-        id: `msg_${Date.now() + 1}`,
-        role: 'assistant' as const,
-        content: 'Sorry, I encountered an error while processing your request. Please try again.',
-        timestamp: new Date(),
-      };
+      const errorMessage = 'Sorry, I encountered an error while processing your request. Please try again.';
 
-      addMessage(errorMessage);
+      if (partial) {
+        updateMessage(assistantId, { content: `${partial.trimEnd()}\n\n${errorMessage}` });
+      } else {
+        addMessage({
+          id: assistantId,
+          role: 'assistant',
+          content: errorMessage,
+          timestamp: new Date(),
+        }, sessionId);
+      }
       showError('AI Error', 'Failed to get response from AI assistant');
       setError(error instanceof Error ? error.message : 'Unknown error occurred');
     } finally {
+      abortRef.current = null;
+      setStreamingId(null);
       setIsTyping(false);
       setLoading(false);
     }
   };
 
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
   const handleQuickAction = (action: string) => {
     const quickMessages = {
       'create_token': 'I want to create a new token',
@@ -91,7 +182,7 @@ export function ChatInterface() {
     };
 
     const message = quickMessages[action as keyof typeof quickMessages] || action;
-    handleSendMessage(message);
+    handleSendMessage(message, action === 'portfolio');
   };
 
   return (
@@ -104,7 +195,7 @@ export function ChatInterface() {
 
       {/* Messages Area */}
       <div className="flex-1 overflow-y-auto pb-28"> 
-        {currentSession?.messages.length === 0 ? (
+        {!currentSession || currentSession.messages.length === 0 ? (
           <div className="h-full flex items-center justify-center">
             {/* Welcome screen */}
             <div className="text-center max-w-md mx-auto px-6">
@@ -115,7 +206,7 @@ export function ChatInterface() {
                 Welcome to Aptos Assistant
               </h2>
               <p className="text-gray-600 mb-6">
-                I'm your AI-powered DeFi assistant. I can help you create tokens, 
+                I&apos;m your AI-powered DeFi assistant. I can help you create tokens, 
                 liquidity pools, and yield vaults on the Aptos blockchain.
               </p>
               
@@ -157,7 +248,8 @@ export function ChatInterface() {
         ) : (
           <ChatMessageList 
             messages={currentSession?.messages || []}
-            isTyping={isTyping}
+            isTyping={isTyping && !streamingId}
+            streamingId={streamingId}
           />
         )}
 
@@ -171,6 +263,8 @@ export function ChatInterface() {
           value={inputValue}
           onChange={setInputValue}
           onSend={handleSendMessage}
+          onStop={handleStop}
+          isStreaming={isTyping}
           disabled={isTyping || !wallet.connected}
           placeholder={wallet.connected ? "Ask me anything about DeFi..." : "Connect your wallet to start chatting"}
         />
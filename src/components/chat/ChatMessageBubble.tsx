@@ -1,17 +1,43 @@
 'use client';
 
-import { ChatMessage } from '@/types';
+import { useState } from 'react';
+import { ChatMessage, PoolParameters, TokenParameters, VaultParameters } from '@/types';
 import { cn } from '@/lib/utils';
+import { useAppStore } from '@/store/useAppStore';
 import { formatDistanceToNow } from 'date-fns';
-import { User, Bot } from 'lucide-react';
+import { User, Bot, CheckCircle, XCircle, Clock, Pin } from 'lucide-react';
+import { ActionReviewDialog } from './ActionReviewDialog';
+import { MarkdownMessage } from './MarkdownMessage';
+import { ToolTraceView } from './ToolTraceView';
+
+const ACTION_LABELS: Record<'create_token' | 'create_pool' | 'create_vault', {
+  label: string;
+  className: string;
+}> = {
+  create_token: { label: 'Create Token', className: 'bg-blue-50 text-blue-600 hover:bg-blue-100' },
+  create_pool: { label: 'Create Pool', className: 'bg-green-50 text-green-600 hover:bg-green-100' },
+  create_vault: { label: 'Create Vault', className: 'bg-purple-50 text-purple-600 hover:bg-purple-100' },
+};
+
+function isProductAction(action: string | undefined): action is keyof typeof ACTION_LABELS {
+  return !!action && action in ACTION_LABELS;
+}
 
 interface ChatMessageBubbleProps {
   message: ChatMessage;
+  streaming?: boolean;
 }
 
-export function ChatMessageBubble({ message }: ChatMessageBubbleProps) {
+export function ChatMessageBubble({ message, streaming = false }: ChatMessageBubbleProps) {
   const isUser = message.role === 'user';
   const isAssistant = message.role === 'assistant';
+  const action = message.metadata?.action;
+  const [reviewOpen, setReviewOpen] = useState(false);
+  const transaction = useAppStore(state =>
+    state.transactions.find(tx => tx.hash === message.metadata?.transactionHash)
+  );
+  const updateMessage = useAppStore(state => state.updateMessage);
+  const usage = message.metadata?.usage;
 
   return (
     <div className={cn(
@@ -43,43 +69,83 @@ export function ChatMessageBubble({ message }: ChatMessageBubbleProps) {
             ? "bg-blue-500 text-white" 
             : "bg-gray-100 text-gray-900"
         )}>
-          <div className="text-sm whitespace-pre-wrap break-words">
-            {message.content}
-          </div>
+          {isAssistant ? (
+            <MarkdownMessage content={message.content} streaming={streaming} />
+          ) : (
+            <div className="text-sm whitespace-pre-wrap break-words">
+              {message.content}
+            </div>
+          )}
         </div>
         
-        {/* Timestamp */}
+        {/* On-chain lookups behind the reply */}
+        {isAssistant && message.metadata?.toolTrace && message.metadata.toolTrace.length > 0 && (
+          <ToolTraceView trace={message.metadata.toolTrace} />
+        )}
+
+        {/* Timestamp, token usage and pin */}
         <div className={cn(
-          "text-xs text-gray-500 mt-1",
-          isUser && "text-right"
+          "flex items-center space-x-2 text-xs text-gray-500 mt-1",
+          isUser && "flex-row-reverse space-x-reverse"
         )}>
-          {formatDistanceToNow(message.timestamp, { addSuffix: true })}
+          <span>{formatDistanceToNow(message.timestamp, { addSuffix: true })}</span>
+          {usage && (
+            <span title={`${usage.promptTokens.toLocaleString()} prompt + ${usage.completionTokens.toLocaleString()} reply`}>
+              · {usage.totalTokens.toLocaleString()} tokens
+            </span>
+          )}
+          <button
+            onClick={() => updateMessage(message.id, { pinned: !message.pinned })}
+            className={cn(
+              "p-0.5 rounded hover:text-gray-700",
+              message.pinned ? "text-blue-600" : "text-gray-400"
+            )}
+            title={message.pinned ? 'Unpin: may be summarized once the chat grows long' : 'Pin: always keep in the assistant\'s context'}
+          >
+            <Pin className="w-3 h-3" />
+          </button>
         </div>
 
-        {/* Action Buttons for Assistant Messages */}
-        {isAssistant && message.metadata?.action && (
-          <div className="mt-2 flex space-x-2">
-            {message.metadata.action === 'create_token' && (
-              <button className="text-xs bg-blue-50 text-blue-600 px-2 py-1 rounded hover:bg-blue-100 transition-colors">
-                Create Token
-              </button>
+        {/* Prefilled Action Card for Assistant Messages */}
+        {isAssistant && isProductAction(action) && (
+          <div className="mt-2 w-full border border-gray-200 rounded-lg bg-white">
+            {message.metadata?.parameters && (
+              <dl className="px-3 py-2 grid grid-cols-2 gap-x-3 gap-y-1 text-xs">
+                {Object.entries(message.metadata.parameters).map(([key, value]) => (
+                  <div key={key} className="contents">
+                    <dt className="text-gray-500">{key}</dt>
+                    <dd className="text-gray-900 truncate">{String(value)}</dd>
+                  </div>
+                ))}
+              </dl>
             )}
-            {message.metadata.action === 'create_pool' && (
-              <button className="text-xs bg-green-50 text-green-600 px-2 py-1 rounded hover:bg-green-100 transition-colors">
-                Create Pool
-              </button>
-            )}
-            {message.metadata.action === 'create_vault' && (
-              <button className="text-xs bg-purple-50 text-purple-600 px-2 py-1 rounded hover:bg-purple-100 transition-colors">
-                Create Vault
+            <div className="px-3 py-2 border-t border-gray-100">
+              <button
+                onClick={() => setReviewOpen(true)}
+                disabled={!message.metadata?.parameters}
+                className={cn('text-xs px-2 py-1 rounded transition-colors', ACTION_LABELS[action].className)}
+              >
+                {ACTION_LABELS[action].label}
               </button>
+            </div>
+            {message.metadata?.parameters && (
+              <ActionReviewDialog
+                messageId={message.id}
+                action={action}
+                parameters={message.metadata.parameters as TokenParameters | PoolParameters | VaultParameters}
+                open={reviewOpen}
+                onOpenChange={setReviewOpen}
+              />
             )}
           </div>
         )}
 
         {/* Transaction Hash */}
         {message.metadata?.transactionHash && (
-          <div className="mt-2">
+          <div className="mt-2 flex items-center space-x-2">
+            {transaction?.status === 'success' && <CheckCircle className="w-3 h-3 text-green-500" />}
+            {transaction?.status === 'failed' && <XCircle className="w-3 h-3 text-red-500" />}
+            {transaction?.status === 'pending' && <Clock className="w-3 h-3 text-yellow-500" />}
             <a
               href={`https://explorer.aptoslabs.com/txn/${message.metadata.transactionHash}`}
               target="_blank"
@@ -88,6 +154,9 @@ export function ChatMessageBubble({ message }: ChatMessageBubbleProps) {
             >
               View Transaction
             </a>
+            {transaction?.status === 'failed' && transaction.vmStatus && (
+              <span className="text-xs text-red-600">{transaction.vmStatus}</span>
+            )}
           </div>
         )}
       </div>
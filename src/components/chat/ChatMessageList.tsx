@@ -7,13 +7,15 @@ import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
 interface ChatMessageListProps {
   messages: ChatMessage[];
   isTyping: boolean;
+  // Assistant message currently receiving tokens
+  streamingId?: string | null;
 }
 
-export function ChatMessageList({ messages, isTyping }: ChatMessageListProps) {
+export function ChatMessageList({ messages, isTyping, streamingId }: ChatMessageListProps) {
   return (
     <div className="flex-1 overflow-y-auto p-4 space-y-4">
       {messages.map((message) => (
-        <ChatMessageBubble key={message.id} message={message} />
+        <ChatMessageBubble key={message.id} message={message} streaming={message.id === streamingId} />
       ))}
       
       {isTyping && (
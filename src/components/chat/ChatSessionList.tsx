@@ -0,0 +1,152 @@
+'use client';
+
+import { useState } from 'react';
+import { useShallow } from 'zustand/react/shallow';
+import { Check, MessageSquarePlus, Pencil, Search, Trash2, X } from 'lucide-react';
+import { selectUserSessions, useAppStore } from '@/store/useAppStore';
+import { Button } from '@/components/ui/button';
+import { ChatSession } from '@/types';
+import { cn } from '@/lib/utils';
+
+function matchesQuery(session: ChatSession, query: string) {
+  const needle = query.trim().toLowerCase();
+  return !needle
+    || session.title.toLowerCase().includes(needle)
+    || session.messages.some(message => message.content.toLowerCase().includes(needle));
+}
+
+export function ChatSessionList() {
+  const sessions = useAppStore(useShallow(selectUserSessions));
+  const {
+    currentSessionId,
+    appState,
+    selectSession,
+    renameSession,
+    deleteSession,
+    clearSession,
+    setAppState,
+  } = useAppStore();
+
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const visibleSessions = sessions.filter(session => matchesQuery(session, query));
+
+  const handleNewChat = () => {
+    clearSession();
+    setAppState({ currentView: 'chat' });
+  };
+
+  const handleResume = (id: string) => {
+    selectSession(id);
+    setAppState({ currentView: 'chat' });
+  };
+
+  const startRename = (session: ChatSession) => {
+    setEditingId(session.id);
+    setDraftTitle(session.title);
+  };
+
+  const commitRename = () => {
+    if (editingId) {
+      renameSession(editingId, draftTitle);
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (session: ChatSession) => {
+    if (window.confirm(`Delete "${session.title}"? This cannot be undone.`)) {
+      deleteSession(session.id);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Button
+        variant="outline"
+        size="sm"
+        className="w-full justify-start"
+        onClick={handleNewChat}
+      >
+        <MessageSquarePlus className="h-4 w-4 mr-2" />
+        New chat
+      </Button>
+
+      {sessions.length > 0 && (
+        <div className="relative">
+          <Search className="h-4 w-4 text-gray-400 absolute left-2 top-1/2 -translate-y-1/2" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search conversations"
+            className="w-full pl-8 pr-2 py-1.5 text-sm border border-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+      )}
+
+      <div className="space-y-1">
+        {visibleSessions.map(session => {
+          const isActive = appState.currentView === 'chat' && session.id === currentSessionId;
+
+          if (session.id === editingId) {
+            return (
+              <div key={session.id} className="flex items-center space-x-1 p-1">
+                <input
+                  autoFocus
+                  value={draftTitle}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="min-w-0 flex-1 px-2 py-1 text-sm border border-gray-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <button onClick={commitRename} className="p-1 text-gray-500 hover:text-green-600" title="Save">
+                  <Check className="h-4 w-4" />
+                </button>
+                <button onClick={() => setEditingId(null)} className="p-1 text-gray-500 hover:text-gray-700" title="Cancel">
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+            );
+          }
+
+          return (
+            <div
+              key={session.id}
+              className={cn(
+                'group flex items-center rounded-md',
+                isActive ? 'bg-blue-50 text-blue-700' : 'hover:bg-gray-50'
+              )}
+            >
+              <button
+                onClick={() => handleResume(session.id)}
+                className="min-w-0 flex-1 px-2 py-1.5 text-left"
+              >
+                <div className={cn('text-sm truncate', isActive ? 'font-medium' : 'text-gray-900')}>
+                  {session.title}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {session.messages.length} messages · {new Date(session.updatedAt).toLocaleDateString()}
+                </div>
+              </button>
+              <div className="hidden group-hover:flex items-center pr-1">
+                <button onClick={() => startRename(session)} className="p-1 text-gray-400 hover:text-gray-700" title="Rename">
+                  <Pencil className="h-3.5 w-3.5" />
+                </button>
+                <button onClick={() => handleDelete(session)} className="p-1 text-gray-400 hover:text-red-600" title="Delete">
+                  <Trash2 className="h-3.5 w-3.5" />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+
+        {sessions.length > 0 && visibleSessions.length === 0 && (
+          <p className="text-xs text-gray-500 px-2">No conversations match &quot;{query}&quot;.</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+'use client';
+
+import { useState } from 'react';
+import SyntaxHighlighter from 'react-syntax-highlighter/dist/esm/prism-light';
+import bash from 'react-syntax-highlighter/dist/esm/languages/prism/bash';
+import json from 'react-syntax-highlighter/dist/esm/languages/prism/json';
+import rust from 'react-syntax-highlighter/dist/esm/languages/prism/rust';
+import toml from 'react-syntax-highlighter/dist/esm/languages/prism/toml';
+import typescript from 'react-syntax-highlighter/dist/esm/languages/prism/typescript';
+import { oneLight } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import { Check, Copy, TestTube } from 'lucide-react';
+import { useAppStore } from '@/store/useAppStore';
+import { DEFAULT_SIMULATION_PARAMETERS, inferSimulationType, sandboxService } from '@/lib/sandbox';
+import { move } from '@/lib/move-prism';
+import { useToast } from '@/components/ui/toaster';
+
+SyntaxHighlighter.registerLanguage('move', move);
+SyntaxHighlighter.registerLanguage('bash', bash);
+SyntaxHighlighter.registerLanguage('json', json);
+SyntaxHighlighter.registerLanguage('rust', rust);
+SyntaxHighlighter.registerLanguage('toml', toml);
+SyntaxHighlighter.registerLanguage('typescript', typescript);
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  sh: 'bash',
+  shell: 'bash',
+  ts: 'typescript',
+  rs: 'rust',
+};
+const REGISTERED = ['move', 'bash', 'json', 'rust', 'toml', 'typescript'];
+
+// Unlabelled fences holding a module are treated as Move
+function resolveLanguage(language: string, code: string) {
+  const name = LANGUAGE_ALIASES[language] || language;
+  if (!name && /^\s*(?:#\[[^\]]*\]\s*)*module\s+[\w@]+::\w+/m.test(code)) {
+    return 'move';
+  }
+  return REGISTERED.indexOf(name) !== -1 ? name : 'text';
+}
+
+interface CodeBlockProps {
+  language: string;
+  code: string;
+  // false while the fence is still streaming in; actions wait for the full block
+  complete?: boolean;
+}
+
+export function CodeBlock({ language, code, complete = true }: CodeBlockProps) {
+  const { addSimulation, setAppState } = useAppStore();
+  const { success, error: showError } = useToast();
+  const [copied, setCopied] = useState(false);
+  const [opening, setOpening] = useState(false);
+  const resolved = resolveLanguage(language, code);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      showError('Copy Failed', 'Could not access the clipboard');
+    }
+  };
+
+  // A sandbox simulation of this code, with default parameters for the product it looks like
+  const handleOpenInSandbox = async () => {
+    setOpening(true);
+    try {
+      const type = inferSimulationType(code);
+      const simulation = await sandboxService.createSimulation(type, DEFAULT_SIMULATION_PARAMETERS[type], code);
+      addSimulation(simulation);
+      setAppState({ currentView: 'sandbox' });
+      success('Opened in Sandbox', `Created a ${type} simulation from this code`);
+    } catch (err) {
+      showError('Sandbox Failed', err instanceof Error ? err.message : 'Could not create the simulation');
+    } finally {
+      setOpening(false);
+    }
+  };
+
+  return (
+    <div className="my-2 rounded-md border border-gray-200 bg-white overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-1 border-b border-gray-100 bg-gray-50 text-xs text-gray-500">
+        <span className="font-mono">{resolved === 'text' ? language || 'code' : resolved}</span>
+        <div className="flex items-center space-x-2">
+          {resolved === 'move' && (
+            <button
+              onClick={handleOpenInSandbox}
+              disabled={!complete || opening}
+              className="flex items-center space-x-1 hover:text-gray-800 disabled:opacity-50"
+              title="Create a sandbox simulation from this code"
+            >
+              <TestTube className="w-3 h-3" />
+              <span>Open in Sandbox</span>
+            </button>
+          )}
+          <button
+            onClick={handleCopy}
+            className="flex items-center space-x-1 hover:text-gray-800"
+            title="Copy code"
+          >
+            {copied ? <Check className="w-3 h-3 text-green-600" /> : <Copy className="w-3 h-3" />}
+            <span>{copied ? 'Copied' : 'Copy'}</span>
+          </button>
+        </div>
+      </div>
+      <SyntaxHighlighter
+        language={resolved}
+        style={oneLight}
+        customStyle={{ margin: 0, padding: '0.75rem', fontSize: '0.75rem', background: 'transparent' }}
+        codeTagProps={{ style: { background: 'transparent' } }}
+      >
+        {code}
+      </SyntaxHighlighter>
+    </div>
+  );
+}
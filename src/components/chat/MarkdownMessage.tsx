@@ -0,0 +1,86 @@
+'use client';
+
+import { useMemo } from 'react';
+import { parseInline, parseMarkdown } from '@/lib/markdown';
+import { CodeBlock } from './CodeBlock';
+
+const HEADING_CLASSES = {
+  1: 'text-base font-semibold',
+  2: 'text-sm font-semibold',
+  3: 'text-sm font-semibold',
+};
+
+function Inline({ text }: { text: string }) {
+  return (
+    <>
+      {parseInline(text).map((part, index) => {
+        switch (part.type) {
+          case 'code':
+            return <code key={index} className="px-1 py-0.5 rounded bg-gray-200 font-mono text-xs">{part.text}</code>;
+          case 'strong':
+            return <strong key={index} className="font-semibold">{part.text}</strong>;
+          case 'em':
+            return <em key={index}>{part.text}</em>;
+          case 'link':
+            return (
+              <a key={index} href={part.href} target="_blank" rel="noopener noreferrer" className="text-blue-600 underline break-all">
+                {part.text}
+              </a>
+            );
+          default:
+            return <span key={index}>{part.text}</span>;
+        }
+      })}
+    </>
+  );
+}
+
+interface MarkdownMessageProps {
+  content: string;
+  // The reply is still streaming, so the last code fence may be unfinished
+  streaming?: boolean;
+}
+
+// Assistant replies rendered from parsed markdown; React escapes every string, so model output
+// can't inject markup
+export function MarkdownMessage({ content, streaming = false }: MarkdownMessageProps) {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+
+  return (
+    <div className="text-sm break-words space-y-2">
+      {blocks.map((block, index) => {
+        switch (block.type) {
+          case 'heading':
+            return (
+              <div key={index} className={HEADING_CLASSES[block.level]}>
+                <Inline text={block.text} />
+              </div>
+            );
+          case 'code':
+            return (
+              <CodeBlock
+                key={index}
+                language={block.language}
+                code={block.code}
+                complete={block.closed || !streaming}
+              />
+            );
+          case 'list': {
+            const items = block.items.map((item, itemIndex) => (
+              <li key={itemIndex} className="whitespace-pre-wrap"><Inline text={item} /></li>
+            ));
+            return block.ordered
+              ? <ol key={index} start={block.start} className="list-decimal pl-5 space-y-1">{items}</ol>
+              : <ul key={index} className="list-disc pl-5 space-y-1">{items}</ul>;
+          }
+          default:
+            return (
+              <p key={index} className="whitespace-pre-wrap">
+                <Inline text={block.text} />
+              </p>
+            );
+        }
+      })}
+    </div>
+  );
+}
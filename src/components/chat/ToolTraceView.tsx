@@ -0,0 +1,61 @@
+'use client';
+
+import { useState } from 'react';
+import { CheckCircle, ChevronDown, ChevronRight, Search, XCircle } from 'lucide-react';
+import { ToolCallTrace } from '@/types';
+
+interface ToolTraceViewProps {
+  trace: ToolCallTrace[];
+}
+
+function formatArguments(args: Record<string, unknown>) {
+  return Object.entries(args).map(([key, value]) => `${key}: ${String(value)}`).join(', ');
+}
+
+// Collapsed summary of the on-chain lookups behind a reply; expands to each call and its result
+export function ToolTraceView({ trace }: ToolTraceViewProps) {
+  const [expanded, setExpanded] = useState(false);
+  const failed = trace.filter(call => call.error).length;
+
+  return (
+    <div className="mt-2 w-full border border-gray-200 rounded-lg bg-white text-xs">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center space-x-2 px-3 py-2 text-gray-600 hover:text-gray-800"
+      >
+        {expanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+        <Search className="w-3 h-3" />
+        <span>
+          Looked up on chain: {trace.length} {trace.length === 1 ? 'call' : 'calls'}
+          {failed > 0 && <span className="text-red-600"> ({failed} failed)</span>}
+        </span>
+      </button>
+
+      {expanded && (
+        <ol className="border-t border-gray-100 divide-y divide-gray-100">
+          {trace.map((call, index) => (
+            <li key={index} className="px-3 py-2 space-y-1">
+              <div className="flex items-center space-x-2">
+                {call.error
+                  ? <XCircle className="w-3 h-3 text-red-500 flex-shrink-0" />
+                  : <CheckCircle className="w-3 h-3 text-green-500 flex-shrink-0" />}
+                <span className="font-mono text-gray-900">{call.name}</span>
+                <span className="text-gray-400">{call.durationMs} ms</span>
+              </div>
+              {Object.keys(call.arguments).length > 0 && (
+                <div className="font-mono text-gray-600 break-all">{formatArguments(call.arguments)}</div>
+              )}
+              {call.error ? (
+                <div className="text-red-600">{call.error}</div>
+              ) : (
+                <pre className="bg-gray-50 rounded p-2 max-h-40 overflow-auto text-gray-700 whitespace-pre-wrap break-all">
+                  {JSON.stringify(call.result, null, 2)}
+                </pre>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
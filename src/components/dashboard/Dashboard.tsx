@@ -10,12 +10,20 @@ import {
   Wallet,
   Plus,
   ArrowUpRight,
-  ArrowDownRight
+  ArrowDownRight,
+  CheckCircle,
+  XCircle,
+  ExternalLink
 } from 'lucide-react';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { formatDistanceToNow } from 'date-fns';
 import { Button } from '@/components/ui/button';
 
 export function Dashboard() {
-  const { tokens, pools, wallet, appState, setAppState } = useAppStore();
+  const { tokens, pools, wallet, transactions, appState, setAppState } = useAppStore();
+
+  const monthAgo = Date.now() - 30 * 24 * 60 * 60 * 1000;
+  const transactionsThisMonth = transactions.filter(tx => new Date(tx.timestamp).getTime() > monthAgo).length;
 
   const stats = [
     {
@@ -41,8 +49,8 @@ export function Dashboard() {
     },
     {
       title: 'Total Transactions',
-      value: '24',
-      change: '+3',
+      value: transactions.length.toString(),
+      change: `+${transactionsThisMonth}`,
       changeType: 'positive' as const,
       icon: Wallet,
     },
@@ -50,6 +58,7 @@ export function Dashboard() {
 
   const recentTokens = tokens.slice(0, 3);
   const recentPools = pools.slice(0, 3);
+  const recentTransactions = transactions.slice(0, 5);
 
   return (
     <div className="h-full overflow-y-auto p-6">
@@ -223,6 +232,58 @@ export function Dashboard() {
         </div>
       </div>
 
+      {/* Recent Transactions */}
+      <div className="mt-8 bg-white rounded-xl shadow-sm border border-gray-200">
+        <div className="p-6 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Recent Transactions</h2>
+        </div>
+
+        <div className="p-6">
+          {recentTransactions.length === 0 ? (
+            <div className="text-center py-8">
+              <Wallet className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+              <p className="text-gray-500">No transactions yet</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {recentTransactions.map((tx) => (
+                <div key={tx.hash} className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
+                  <div className="flex items-center space-x-3 min-w-0">
+                    {tx.status === 'success' ? (
+                      <CheckCircle className="w-5 h-5 text-green-500 flex-shrink-0" />
+                    ) : tx.status === 'failed' ? (
+                      <XCircle className="w-5 h-5 text-red-500 flex-shrink-0" />
+                    ) : (
+                      <LoadingSpinner size="sm" />
+                    )}
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 capitalize">{tx.type.replace(/_/g, ' ')}</p>
+                      <p className="text-sm text-gray-500 truncate">
+                        {tx.status === 'failed' && tx.vmStatus ? tx.vmStatus : formatAddress(tx.hash)}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="text-right flex-shrink-0">
+                    <a
+                      href={`https://explorer.aptoslabs.com/txn/${tx.hash}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center text-sm text-blue-600 hover:text-blue-700"
+                    >
+                      {tx.gasUsed ? `${tx.gasUsed} gas` : tx.status}
+                      <ExternalLink className="w-3 h-3 ml-1" />
+                    </a>
+                    <p className="text-sm text-gray-500">
+                      {formatDistanceToNow(new Date(tx.timestamp), { addSuffix: true })}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
       {/* Quick Actions */}
       <div className="mt-8 bg-white rounded-xl shadow-sm border border-gray-200 p-6">
         <h2 className="text-lg font-semibold text-gray-900 mb-4">Quick Actions</h2>
@@ -1,16 +1,18 @@
 'use client';
 
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { useWallet } from '@aptos-labs/wallet-adapter-react';
 import { useAppStore } from '@/store/useAppStore';
 import { Button } from '@/components/ui/button';
 import { WalletSelector } from '@/components/wallet/WalletSelector';
+import { ProfileSettingsDialog } from '@/components/settings/ProfileSettingsDialog';
 import { Bell, Settings, User } from 'lucide-react';
 import { formatAddress, formatBalance } from '@/lib/aptos';
 
 export function Header() {
   const { connected, account, disconnect } = useWallet();
   const { wallet, setWallet, setLoading } = useAppStore();
+  const [settingsOpen, setSettingsOpen] = useState(false);
 
   useEffect(() => {
     if (connected && account) {
@@ -95,9 +97,10 @@ export function Header() {
           </Button>
 
           {/* Settings */}
-          <Button variant="ghost" size="sm">
+          <Button variant="ghost" size="sm" onClick={() => setSettingsOpen(true)} title="Assistant profile">
             <Settings className="h-5 w-5" />
           </Button>
+          <ProfileSettingsDialog open={settingsOpen} onOpenChange={setSettingsOpen} />
 
           {/* User Profile */}
           <Button variant="ghost" size="sm">
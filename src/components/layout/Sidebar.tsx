@@ -13,6 +13,7 @@ import {
   Trophy
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { ChatSessionList } from '@/components/chat/ChatSessionList';
 
 const navigationItems = [
   {
@@ -144,6 +145,14 @@ export function Sidebar() {
           </div>
         </div>
 
+        {/* Conversations */}
+        <div className="space-y-1 mt-8">
+          <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-3 px-1">
+            Conversations
+          </h3>
+          <ChatSessionList />
+        </div>
+
         {/* Future Features */}
         <div className="space-y-1 mt-8">
           <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-3 px-1">
@@ -0,0 +1,135 @@
+'use client';
+
+import { CheckCircle, XCircle } from 'lucide-react';
+import { AuditChecklist, AuditFinding, AuditReport, AuditSeverity } from '@/types';
+import { cn } from '@/lib/utils';
+
+interface AuditReportViewProps {
+  audit: AuditReport;
+}
+
+const SEVERITY_RANK: Record<AuditSeverity, number> = {
+  critical: 0,
+  high: 1,
+  medium: 2,
+  low: 3,
+  info: 4,
+};
+
+const SEVERITY_STYLES: Record<AuditSeverity, string> = {
+  critical: 'bg-red-100 text-red-800',
+  high: 'bg-orange-100 text-orange-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-blue-100 text-blue-800',
+  info: 'bg-gray-100 text-gray-700',
+};
+
+const RATINGS: Record<AuditReport['overallRating'], { label: string; className: string }> = {
+  secure: { label: 'Secure', className: 'text-green-600' },
+  needs_improvement: { label: 'Needs Improvement', className: 'text-yellow-600' },
+  critical_issues: { label: 'Critical Issues', className: 'text-red-600' },
+};
+
+const CHECKLIST_LABELS: Record<keyof AuditChecklist, string> = {
+  accessControl: 'Access controls implemented',
+  inputValidation: 'Input validation present',
+  errorHandling: 'Error handling comprehensive',
+  arithmeticSafety: 'Arithmetic cannot overflow',
+  gasOptimization: 'Gas optimization considered',
+  upgradeSafety: 'Upgrade patterns secure',
+};
+
+function lineRange(finding: AuditFinding) {
+  if (!finding.startLine) return '—';
+  return finding.endLine && finding.endLine !== finding.startLine
+    ? `${finding.startLine}–${finding.endLine}`
+    : String(finding.startLine);
+}
+
+export function AuditReportView({ audit }: AuditReportViewProps) {
+  const rating = RATINGS[audit.overallRating];
+  const findings = [...audit.findings].sort((a, b) =>
+    SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity] ||
+    (a.startLine ?? Infinity) - (b.startLine ?? Infinity)
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="bg-gray-50 p-3 rounded">
+          <div className="text-sm text-gray-600">Overall Rating</div>
+          <div className={cn('font-semibold', rating.className)}>{rating.label}</div>
+        </div>
+        <div className="bg-gray-50 p-3 rounded">
+          <div className="text-sm text-gray-600">Deployment Ready</div>
+          <div className={cn('font-semibold', audit.deploymentReady ? 'text-green-600' : 'text-red-600')}>
+            {audit.deploymentReady ? 'Yes' : 'No'}
+          </div>
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-700">{audit.summary}</p>
+
+      {findings.length > 0 ? (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead>
+              <tr className="border-b border-gray-200 text-gray-600">
+                <th className="py-2 pr-3 font-medium">Severity</th>
+                <th className="py-2 pr-3 font-medium">Finding</th>
+                <th className="py-2 pr-3 font-medium">Category</th>
+                <th className="py-2 pr-3 font-medium">Lines</th>
+                <th className="py-2 font-medium">Recommendation</th>
+              </tr>
+            </thead>
+            <tbody>
+              {findings.map((finding, index) => (
+                <tr key={index} className="border-b border-gray-100 align-top">
+                  <td className="py-2 pr-3">
+                    <span className={cn('px-2 py-0.5 rounded text-xs font-medium capitalize', SEVERITY_STYLES[finding.severity])}>
+                      {finding.severity}
+                    </span>
+                  </td>
+                  <td className="py-2 pr-3">
+                    <div className="font-medium text-gray-900">{finding.title}</div>
+                    <div className="text-gray-600">{finding.description}</div>
+                  </td>
+                  <td className="py-2 pr-3 text-gray-700 capitalize">{finding.category}</td>
+                  <td className="py-2 pr-3 font-mono text-gray-700 whitespace-nowrap">{lineRange(finding)}</td>
+                  <td className="py-2 text-gray-700 whitespace-pre-wrap">{finding.recommendation}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-sm text-green-600">No findings.</p>
+      )}
+
+      {audit.strengths.length > 0 && (
+        <div>
+          <h5 className="text-sm font-medium text-gray-900 mb-1">Strengths</h5>
+          <ul className="list-disc list-inside text-sm text-gray-700 space-y-1">
+            {audit.strengths.map((strength, index) => (
+              <li key={index}>{strength}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div>
+        <h5 className="text-sm font-medium text-gray-900 mb-1">Security Checklist</h5>
+        <ul className="grid grid-cols-2 gap-1 text-sm">
+          {(Object.keys(CHECKLIST_LABELS) as Array<keyof AuditChecklist>).map(item => (
+            <li key={item} className="flex items-center space-x-2 text-gray-700">
+              {audit.checklist[item]
+                ? <CheckCircle className="w-4 h-4 text-green-500" />
+                : <XCircle className="w-4 h-4 text-red-500" />}
+              <span>{CHECKLIST_LABELS[item]}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { AlertTriangle, Info, Wrench, XCircle } from 'lucide-react';
+import { SandboxDiagnostic } from '@/types';
+import { SANDBOX_SOURCE_FILE } from '@/lib/sandbox';
+import { cn } from '@/lib/utils';
+
+interface DiagnosticsCodeViewProps {
+  code: string;
+  diagnostics: SandboxDiagnostic[];
+}
+
+const SEVERITY_RANK: Record<SandboxDiagnostic['severity'], number> = {
+  error: 0,
+  warning: 1,
+  info: 2,
+};
+
+function SeverityIcon({ severity, className }: { severity: SandboxDiagnostic['severity']; className?: string }) {
+  switch (severity) {
+    case 'error':
+      return <XCircle className={cn('w-4 h-4 text-red-500', className)} />;
+    case 'warning':
+      return <AlertTriangle className={cn('w-4 h-4 text-yellow-500', className)} />;
+    default:
+      return <Info className={cn('w-4 h-4 text-blue-500', className)} />;
+  }
+}
+
+// Diagnostics that point into the simulation's own source (not dexxy-contracts files)
+function isInSource(diagnostic: SandboxDiagnostic) {
+  return diagnostic.span?.file === SANDBOX_SOURCE_FILE;
+}
+
+export function DiagnosticsCodeView({ code, diagnostics }: DiagnosticsCodeViewProps) {
+  const [activeLine, setActiveLine] = useState<number | null>(null);
+  const lineRefs = useRef<Record<number, HTMLDivElement | null>>({});
+
+  const lines = code.split('\n');
+  const sortedDiagnostics = [...diagnostics].sort((a, b) =>
+    SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity] ||
+    (a.span?.startLine ?? Infinity) - (b.span?.startLine ?? Infinity)
+  );
+
+  const diagnosticsByLine: Record<number, SandboxDiagnostic[]> = {};
+  for (const diagnostic of sortedDiagnostics.filter(isInSource)) {
+    const line = diagnostic.span!.startLine;
+    diagnosticsByLine[line] = [...(diagnosticsByLine[line] || []), diagnostic];
+  }
+
+  useEffect(() => {
+    if (activeLine !== null) {
+      lineRefs.current[activeLine]?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  }, [activeLine]);
+
+  return (
+    <div>
+      <div className="text-sm font-mono text-gray-800 overflow-x-auto bg-gray-50 py-2">
+        {lines.map((line, index) => {
+          const lineNumber = index + 1;
+          const lineDiagnostics = diagnosticsByLine[lineNumber];
+          const topSeverity = lineDiagnostics?.[0]?.severity;
+
+          return (
+            <div
+              key={lineNumber}
+              ref={(element) => { lineRefs.current[lineNumber] = element; }}
+              className={cn(
+                'flex min-w-max',
+                topSeverity === 'error' && 'bg-red-50',
+                topSeverity === 'warning' && 'bg-yellow-50',
+                activeLine === lineNumber && 'ring-1 ring-inset ring-blue-400'
+              )}
+            >
+              <span
+                className="w-6 flex-shrink-0 flex items-center justify-center"
+                title={lineDiagnostics?.map(d => d.message).join('\n')}
+              >
+                {topSeverity && (
+                  <button onClick={() => setActiveLine(lineNumber)}>
+                    <SeverityIcon severity={topSeverity} className="w-3 h-3" />
+                  </button>
+                )}
+              </span>
+              <span className="w-10 flex-shrink-0 pr-3 text-right text-gray-400 select-none">
+                {lineNumber}
+              </span>
+              <span className="whitespace-pre pr-4">{line || ' '}</span>
+            </div>
+          );
+        })}
+      </div>
+
+      {sortedDiagnostics.length > 0 && (
+        <div className="border-t border-gray-200">
+          <div className="px-3 py-2 text-sm font-medium text-gray-900">
+            Problems ({sortedDiagnostics.length})
+          </div>
+          <ul className="max-h-64 overflow-y-auto">
+            {sortedDiagnostics.map((diagnostic, index) => {
+              const clickable = isInSource(diagnostic);
+              return (
+                <li key={index}>
+                  <button
+                    onClick={() => clickable && setActiveLine(diagnostic.span!.startLine)}
+                    disabled={!clickable}
+                    className={cn(
+                      'w-full flex items-start space-x-2 px-3 py-2 text-left text-sm border-t border-gray-100',
+                      clickable ? 'hover:bg-gray-50' : 'cursor-default'
+                    )}
+                  >
+                    <SeverityIcon severity={diagnostic.severity} className="mt-0.5 flex-shrink-0" />
+                    <div className="min-w-0 flex-1">
+                      <div className="text-gray-900">
+                        {diagnostic.message}
+                        {diagnostic.span?.label && (
+                          <span className="text-gray-500">: {diagnostic.span.label}</span>
+                        )}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {diagnostic.code && <span className="mr-2">{diagnostic.code}</span>}
+                        {diagnostic.span && (
+                          <span>
+                            {diagnostic.span.file}:{diagnostic.span.startLine}:{diagnostic.span.startColumn}
+                          </span>
+                        )}
+                      </div>
+                      {diagnostic.suggestedFix && (
+                        <div className="mt-1 flex items-center text-xs text-blue-600">
+                          <Wrench className="w-3 h-3 mr-1 flex-shrink-0" />
+                          {diagnostic.suggestedFix.description}
+                          {diagnostic.suggestedFix.replacement && (
+                            <code className="ml-1 px-1 bg-blue-50 rounded">{diagnostic.suggestedFix.replacement}</code>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,8 @@
 
 import { useState } from 'react';
 import { useAppStore } from '@/store/useAppStore';
-import { sandboxService } from '@/lib/sandbox';
+import { DEFAULT_SIMULATION_PARAMETERS, defaultScenario, sandboxService } from '@/lib/sandbox';
+import { renderTemplate } from '@/lib/move-templates';
 import { Button } from '@/components/ui/button';
 import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
 import { useToast } from '@/components/ui/toaster';
@@ -19,151 +20,15 @@ import {
   Terminal,
   FileText,
   Settings,
-  Zap
+  Zap,
+  Workflow,
+  Wrench,
+  RotateCcw,
+  Download
 } from 'lucide-react';
 import { SandboxSimulation } from '@/types';
-
-// Enhanced Move code templates
-const MOVE_CODE_TEMPLATES = {
-  token: `module MyToken::Token {
-    use std::signer;
-    use aptos_framework::coin;
-    
-    struct Token {}
-    
-    public entry fun initialize(account: &signer, name: vector<u8>, symbol: vector<u8>, decimals: u8) {
-        let (burn_cap, freeze_cap, mint_cap) = coin::initialize<Token>(
-            account,
-            std::string::utf8(name),
-            std::string::utf8(symbol),
-            decimals,
-            false,
-        );
-        
-        // Store capabilities for later use
-        move_to(account, MintCapability { mint_cap });
-        coin::destroy_burn_cap(burn_cap);
-        coin::destroy_freeze_cap(freeze_cap);
-    }
-    
-    struct MintCapability has key {
-        mint_cap: coin::MintCapability<Token>,
-    }
-    
-    public entry fun mint(account: &signer, to: address, amount: u64) acquires MintCapability {
-        let mint_cap = &borrow_global<MintCapability>(signer::address_of(account)).mint_cap;
-        let coins = coin::mint<Token>(amount, mint_cap);
-        coin::deposit(to, coins);
-    }
-}`,
-  
-  pool: `module LiquidityPool::Pool {
-    use std::signer;
-    use aptos_framework::coin;
-    use aptos_framework::timestamp;
-    
-    struct Pool<phantom X, phantom Y> has key {
-        reserve_x: u64,
-        reserve_y: u64,
-        lp_tokens: u64,
-        fee_rate: u64, // basis points (e.g., 30 = 0.3%)
-        last_update: u64,
-    }
-    
-    public entry fun create_pool<X, Y>(
-        account: &signer,
-        initial_x: u64,
-        initial_y: u64,
-        fee_rate: u64
-    ) {
-        let pool = Pool<X, Y> {
-            reserve_x: initial_x,
-            reserve_y: initial_y,
-            lp_tokens: initial_x * initial_y, // Simple calculation
-            fee_rate,
-            last_update: timestamp::now_seconds(),
-        };
-        
-        move_to(account, pool);
-    }
-    
-    public fun swap_x_to_y<X, Y>(
-        pool: &mut Pool<X, Y>,
-        x_amount: u64
-    ): u64 {
-        let fee = x_amount * pool.fee_rate / 10000;
-        let x_after_fee = x_amount - fee;
-        let y_out = (pool.reserve_y * x_after_fee) / (pool.reserve_x + x_after_fee);
-        
-        pool.reserve_x = pool.reserve_x + x_amount;
-        pool.reserve_y = pool.reserve_y - y_out;
-        pool.last_update = timestamp::now_seconds();
-        
-        y_out
-    }
-}`,
-
-  vault: `module Vault::Strategy {
-    use std::signer;
-    use aptos_framework::coin;
-    use aptos_framework::timestamp;
-    
-    struct Vault<phantom T> has key {
-        total_assets: u64,
-        total_shares: u64,
-        strategy_type: u8, // 0 = simple, 1 = compound
-        fee_rate: u64,
-        last_harvest: u64,
-    }
-    
-    struct UserPosition has key {
-        shares: u64,
-        deposited_at: u64,
-    }
-    
-    public entry fun create_vault<T>(
-        account: &signer,
-        strategy_type: u8,
-        fee_rate: u64
-    ) {
-        let vault = Vault<T> {
-            total_assets: 0,
-            total_shares: 0,
-            strategy_type,
-            fee_rate,
-            last_harvest: timestamp::now_seconds(),
-        };
-        
-        move_to(account, vault);
-    }
-    
-    public entry fun deposit<T>(
-        account: &signer,
-        vault_owner: address,
-        amount: u64
-    ) acquires Vault, UserPosition {
-        let vault = borrow_global_mut<Vault<T>>(vault_owner);
-        let shares = if (vault.total_shares == 0) {
-            amount
-        } else {
-            amount * vault.total_shares / vault.total_assets
-        };
-        
-        vault.total_assets = vault.total_assets + amount;
-        vault.total_shares = vault.total_shares + shares;
-        
-        if (exists<UserPosition>(signer::address_of(account))) {
-            let position = borrow_global_mut<UserPosition>(signer::address_of(account));
-            position.shares = position.shares + shares;
-        } else {
-            move_to(account, UserPosition {
-                shares,
-                deposited_at: timestamp::now_seconds(),
-            });
-        };
-    }
-}`
-};
+import { AuditReportView } from './AuditReportView';
+import { DiagnosticsCodeView } from './DiagnosticsCodeView';
 
 export function SandboxView() {
   const { simulations, addSimulation, updateSimulation, removeSimulation } = useAppStore();
@@ -172,6 +37,9 @@ export function SandboxView() {
   const [activeTab, setActiveTab] = useState('code');
   const [executionLog, setExecutionLog] = useState<Array<{type: string, message: string, timestamp: string}>>([]);
   const [isExecuting, setIsExecuting] = useState(false);
+  const [isCompiling, setIsCompiling] = useState(false);
+  const [isRunningScenario, setIsRunningScenario] = useState(false);
+  const [isFixing, setIsFixing] = useState(false);
   const { success, error: showError } = useToast();
 
   const addLogEntry = (type: string, message: string) => {
@@ -179,42 +47,27 @@ export function SandboxView() {
     setExecutionLog(prev => [...prev, { type, message, timestamp }]);
   };
 
+  // Keep the store and the locally selected copy in sync
+  const applySimulationUpdate = (id: string, updates: Partial<SandboxSimulation>) => {
+    updateSimulation(id, updates);
+    setSelectedSimulation(prev => prev && prev.id === id ? { ...prev, ...updates } : prev);
+  };
+
   const handleCreateSimulation = async (type: 'token' | 'pool' | 'vault') => {
     setIsCreating(true);
     addLogEntry('info', `Creating new ${type} simulation...`);
     
     try {
-      // Enhanced mock parameters
-      const mockParameters = {
-        token: {
-          name: 'My Token',
-          symbol: 'MTK',
-          decimals: 8,
-          totalSupply: '1000000',
-          iconUri: '',
-          projectUri: '',
-        },
-        pool: {
-          name: 'My Pool',
-          tokenA: '0x1::aptos_coin::AptosCoin',
-          tokenB: '0x123::my_token::MyToken',
-          fee: 0.3,
-          initialLiquidityA: '1000',
-          initialLiquidityB: '1000',
-        },
-        vault: {
-          name: 'My Vault',
-          token: '0x1::aptos_coin::AptosCoin',
-          strategy: 'compound',
-          fee: 2.5,
-          minDeposit: '100',
-        },
-      };
+      const parameters = DEFAULT_SIMULATION_PARAMETERS[type];
 
-      // Create simulation with real code template
+      // Create simulation from the vetted template for these parameters
+      const template = renderTemplate(type, parameters);
       const simulation = {
-        ...await sandboxService.createSimulation(type, mockParameters[type]),
-        code: MOVE_CODE_TEMPLATES[type],
+        ...await sandboxService.createSimulation(type, parameters, template.code),
+        explanation: template.explanation,
+        deploymentSteps: template.deploymentSteps,
+        securityNotes: template.securityNotes,
+        testModules: [template.testModule],
         executionCount: 0,
         gasUsed: 0,
       };
@@ -233,102 +86,251 @@ export function SandboxView() {
 
   const handleGenerateCode = async (simulation: SandboxSimulation) => {
     try {
-      addLogEntry('info', 'Generating optimized code...');
-      updateSimulation(simulation.id, { status: 'compiling' });
-      
-      // Simulate code generation delay
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      // Enhanced code generation
-      const optimizedCode = simulation.code?.replace(
-        /\/\/ Simple calculation/g, 
-        '// Optimized calculation with overflow protection'
-      ) || MOVE_CODE_TEMPLATES[simulation.type as keyof typeof MOVE_CODE_TEMPLATES];
-
-      updateSimulation(simulation.id, { 
-        code: optimizedCode, 
-        status: 'success' 
+      addLogEntry('info', simulation.requirements?.trim()
+        ? 'Generating custom Move code with the assistant...'
+        : 'Rendering Move code from the template...');
+      applySimulationUpdate(simulation.id, { status: 'compiling' });
+
+      // Only the Move source goes in the editor; the prose is shown below it
+      const generated = await sandboxService.generate(simulation.type, simulation.parameters, simulation.requirements);
+
+      applySimulationUpdate(simulation.id, {
+        code: generated.code,
+        explanation: generated.explanation,
+        deploymentSteps: generated.deploymentSteps,
+        securityNotes: generated.securityNotes,
+        result: undefined,
+        status: 'pending',
       });
-      addLogEntry('success', 'Code generation completed');
+      addLogEntry('success', generated.source === 'template'
+        ? 'Code rendered from the vetted template'
+        : 'Code generation completed');
       success('Code Generated', 'Move code generated successfully');
     } catch (error) {
-      updateSimulation(simulation.id, { status: 'error' });
-      addLogEntry('error', 'Failed to generate code');
+      applySimulationUpdate(simulation.id, { status: 'error' });
+      addLogEntry('error', `Failed to generate code: ${error instanceof Error ? error.message : 'Unknown error'}`);
       showError('Generation Failed', 'Failed to generate code');
     }
   };
 
+
+  // Download the simulation with its code, tests and results (including the audit) as JSON
+  const handleExportSimulation = (simulation: SandboxSimulation) => {
+    const data = JSON.stringify({ exportedAt: new Date().toISOString(), simulation }, null, 2);
+    const url = URL.createObjectURL(new Blob([data], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${simulation.type}-simulation-${simulation.id}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+    addLogEntry('info', 'Simulation exported');
+  };
+
+  // Tests from the template for the simulation's parameters
+  const handleAddStarterTests = (simulation: SandboxSimulation) => {
+    try {
+      const { testModule } = renderTemplate(simulation.type, simulation.parameters);
+      applySimulationUpdate(simulation.id, { testModules: [testModule] });
+    } catch (error) {
+      showError('No Starter Tests', error instanceof Error ? error.message : 'Failed to render tests');
+    }
+  };
+
   const handleTestCode = async (simulation: SandboxSimulation) => {
     try {
       setIsExecuting(true);
-      addLogEntry('info', 'Starting simulation execution...');
-      updateSimulation(simulation.id, { status: 'compiling' });
+      addLogEntry('info', 'Running Move unit tests...');
+      applySimulationUpdate(simulation.id, { status: 'compiling' });
+
+      const response = await fetch('/api/sandbox/test', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          code: simulation.code,
+          type: simulation.type,
+          mode: 'unit',
+          testModules: simulation.testModules || [],
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Test request failed');
+      }
 
-      // Simulate compilation
-      await new Promise(resolve => setTimeout(resolve, 1500));
+      const tested: SandboxSimulation = data.result;
+      const tests = tested.result?.tests || [];
+      for (const test of tests) {
+        addLogEntry(
+          test.status === 'pass' ? 'success' : 'error',
+          `[${test.status.toUpperCase()}] ${test.name}${test.abortCode !== undefined ? ` (abort code ${test.abortCode})` : ''}`
+        );
+      }
+
+      applySimulationUpdate(simulation.id, {
+        status: tested.status,
+        result: tested.result,
+        executionCount: ((simulation as any).executionCount || 0) + 1,
+      } as Partial<SandboxSimulation>);
+
+      const passed = tests.filter(test => test.status === 'pass').length;
+      addLogEntry(tested.result?.success ? 'success' : 'error',
+        `Tests ${tested.result?.success ? 'passed' : 'failed'} - ${passed}/${tests.length} passed`
+      );
+      setActiveTab('results');
+      success('Test Completed', `${passed}/${tests.length} tests passed`);
+    } catch (error) {
+      applySimulationUpdate(simulation.id, { status: 'error' });
+      addLogEntry('error', 'Test execution failed');
+      showError('Test Failed', error instanceof Error ? error.message : 'Failed to test code');
+    } finally {
+      setIsExecuting(false);
+    }
+  };
+
+  const handleCompileCode = async (simulation: SandboxSimulation) => {
+    try {
+      setIsCompiling(true);
       addLogEntry('info', 'Compiling Move code...');
+      applySimulationUpdate(simulation.id, { status: 'compiling' });
 
-      // Simulate execution steps
-      const steps = [
-        'Initializing runtime environment',
-        'Loading dependencies',
-        'Executing module initialization',
-        'Running test transactions',
-        'Calculating gas usage',
-        'Generating execution report'
-      ];
-
-      for (const step of steps) {
-        await new Promise(resolve => setTimeout(resolve, 800));
-        addLogEntry('info', step);
+      const response = await fetch('/api/sandbox/test', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code: simulation.code, type: simulation.type, parameters: simulation.parameters }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Compilation request failed');
       }
 
-      // Generate enhanced results
-      const gasUsed = Math.floor(Math.random() * 50000) + 10000;
-      const success_rate = Math.random() > 0.2; // 80% success rate
-
-      const result = {
-        success: success_rate,
-        gasUsed,
-        executionTime: Math.floor(Math.random() * 2000) + 500,
-        errors: success_rate ? [] : ['Type mismatch in function parameter', 'Resource not found at address'],
-        warnings: ['Unused variable detected', 'Consider using more efficient algorithm'],
-        transactions: [
-          { type: 'Initialize', status: 'success', gas: Math.floor(gasUsed * 0.3) },
-          { type: 'Execute', status: success_rate ? 'success' : 'failed', gas: Math.floor(gasUsed * 0.7) }
-        ],
-        gasEstimate: gasUsed,
-        aiAnalysis: success_rate 
-          ? 'Code executed successfully with optimal gas usage. Consider implementing additional safety checks for production deployment.'
-          : 'Execution failed due to type safety issues. Review the highlighted errors and ensure all resource dependencies are properly initialized.'
-      };
+      const compiled: SandboxSimulation = data.result;
+      applySimulationUpdate(simulation.id, { status: compiled.status, result: compiled.result });
+
+      const errorCount = compiled.result?.diagnostics?.filter(d => d.severity === 'error').length || 0;
+      const warningCount = compiled.result?.diagnostics?.filter(d => d.severity === 'warning').length || 0;
+      addLogEntry(
+        compiled.result?.success ? 'success' : 'error',
+        `Compilation ${compiled.result?.success ? 'succeeded' : 'failed'} - ${errorCount} errors, ${warningCount} warnings`
+      );
+    } catch (error) {
+      applySimulationUpdate(simulation.id, { status: 'error' });
+      addLogEntry('error', 'Compilation failed');
+      showError('Compilation Failed', error instanceof Error ? error.message : 'Failed to compile code');
+    } finally {
+      setIsCompiling(false);
+    }
+  };
+
+  const handleAutoFix = async (simulation: SandboxSimulation) => {
+    try {
+      setIsFixing(true);
+      addLogEntry('info', 'Auto-fixing: compiling, testing and repairing until the tests pass...');
+      applySimulationUpdate(simulation.id, { status: 'compiling' });
+
+      const response = await fetch('/api/sandbox/test', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          code: simulation.code,
+          type: simulation.type,
+          mode: 'autofix',
+          testModules: simulation.testModules,
+          revisions: simulation.revisions,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Auto-fix request failed');
+      }
+
+      const fixed: SandboxSimulation = data.result;
+      const revisions = fixed.revisions || [];
+      revisions.slice(simulation.revisions?.length || 0).forEach(revision => {
+        const errors = revision.diagnostics.filter(d => d.severity === 'error').length;
+        addLogEntry(
+          revision.compiled && revision.testsPassed ? 'success' : 'error',
+          `v${revision.version} (${revision.origin}): ${revision.compiled ? 'compiled' : `${errors} errors`}, tests ${revision.testsPassed ? 'passed' : 'failing'}`
+        );
+      });
+
+      applySimulationUpdate(simulation.id, {
+        code: fixed.code,
+        revisions,
+        status: fixed.status,
+        result: fixed.result,
+      });
+
+      if (fixed.result?.success) {
+        success('Auto-fix Complete', `Code compiles and tests pass (v${revisions[revisions.length - 1]?.version})`);
+      } else {
+        showError('Auto-fix Incomplete', fixed.result?.errors?.[0] || 'Code still fails after the maximum attempts');
+      }
+      setActiveTab('results');
+    } catch (error) {
+      applySimulationUpdate(simulation.id, { status: 'error' });
+      addLogEntry('error', 'Auto-fix failed');
+      showError('Auto-fix Failed', error instanceof Error ? error.message : 'Failed to repair code');
+    } finally {
+      setIsFixing(false);
+    }
+  };
 
-      updateSimulation(simulation.id, { 
-        ...result, 
-        status: success_rate ? 'success' : 'error',
-        result,
-        gasUsed,
-        executionCount: (simulation as any).executionCount ? (simulation as any).executionCount + 1 : 1
+  const handleRunScenario = async (simulation: SandboxSimulation) => {
+    try {
+      setIsRunningScenario(true);
+      const scenario = defaultScenario(simulation);
+      addLogEntry('info', `Running scenario "${scenario.name}" on local testnet...`);
+      applySimulationUpdate(simulation.id, { status: 'compiling' });
+
+      const response = await fetch('/api/sandbox/test', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          code: simulation.code,
+          type: simulation.type,
+          mode: 'scenario',
+          scenario,
+        }),
       });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Scenario request failed');
+      }
 
-      setSelectedSimulation(prev => prev ? { 
-        ...prev, 
-        result, 
-        status: success_rate ? 'success' : 'error',
-        gasUsed,
-        executionCount: ((prev as any).executionCount || 0) + 1
-      } : null);
+      const ran: SandboxSimulation = data.result;
+      const steps = ran.result?.scenario?.steps || [];
+      steps.forEach((step, index) => {
+        addLogEntry(
+          step.success ? 'success' : 'error',
+          `[${index + 1}] ${step.label}: ${step.success ? 'executed' : step.error || step.vmStatus}${step.gasUsed ? ` (${step.gasUsed} gas)` : ''}`
+        );
+        addLogEntry('info', `    ${step.events.length} events, resources: ${
+          step.resources.map(resource => `${resource.owner} ${resource.type.split('::').slice(-1)[0]}`).join(', ') || 'none'
+        }`);
+        addLogEntry('info', `    balances: ${
+          Object.entries(step.balances)
+            .map(([alias, assets]) => `${alias} ${Object.entries(assets).map(([asset, amount]) => `${asset}=${amount}`).join(' ')}`)
+            .join('; ')
+        }`);
+      });
 
-      addLogEntry(success_rate ? 'success' : 'error', 
-        `Execution ${success_rate ? 'completed successfully' : 'failed'} - Gas used: ${gasUsed}`
+      applySimulationUpdate(simulation.id, {
+        status: ran.status,
+        result: ran.result,
+        executionCount: ((simulation as any).executionCount || 0) + 1,
+      } as Partial<SandboxSimulation>);
+
+      const passed = steps.filter(step => step.success).length;
+      addLogEntry(ran.result?.success ? 'success' : 'error',
+        `Scenario ${ran.result?.success ? 'completed' : 'failed'} - ${passed}/${scenario.steps.length} steps succeeded`
       );
-      success('Test Completed', 'Code testing completed');
+      setActiveTab('results');
     } catch (error) {
-      updateSimulation(simulation.id, { status: 'error' });
-      addLogEntry('error', 'Test execution failed');
-      showError('Test Failed', 'Failed to test code');
+      applySimulationUpdate(simulation.id, { status: 'error' });
+      addLogEntry('error', 'Scenario run failed');
+      showError('Scenario Failed', error instanceof Error ? error.message : 'Failed to run scenario');
     } finally {
-      setIsExecuting(false);
+      setIsRunningScenario(false);
     }
   };
 
@@ -525,7 +527,7 @@ export function SandboxView() {
                     variant="outline"
                   >
                     <Code className="w-4 h-4 mr-2" />
-                    Optimize
+                    Generate
                   </Button>
                   
                   {selectedSimulation.code && (
@@ -540,6 +542,29 @@ export function SandboxView() {
                       Execute
                     </Button>
                   )}
+
+                  {selectedSimulation.code && (
+                    <Button
+                      onClick={() => handleRunScenario(selectedSimulation)}
+                      disabled={isRunningScenario || selectedSimulation.status === 'compiling'}
+                      size="sm"
+                      className="btn-animate bg-blue-50 hover:bg-blue-100 text-blue-700 border-blue-200"
+                      variant="outline"
+                    >
+                      <Workflow className="w-4 h-4 mr-2" />
+                      Run Scenario
+                    </Button>
+                  )}
+
+                  <Button
+                    onClick={() => handleExportSimulation(selectedSimulation)}
+                    size="sm"
+                    variant="outline"
+                    title="Download code, tests and results, including the security audit, as JSON"
+                  >
+                    <Download className="w-4 h-4 mr-2" />
+                    Export
+                  </Button>
                 </div>
               </div>
             </div>
@@ -564,6 +589,7 @@ export function SandboxView() {
               <div className="flex space-x-8 px-4">
                 {[
                   { id: 'code', label: 'Code', icon: FileText },
+                  { id: 'tests', label: 'Tests', icon: TestTube },
                   { id: 'parameters', label: 'Parameters', icon: Settings },
                   { id: 'results', label: 'Results', icon: Zap }
                 ].map((tab) => {
@@ -592,17 +618,96 @@ export function SandboxView() {
                 <div className="bg-white border border-gray-200 rounded-lg">
                   <div className="flex items-center justify-between p-3 border-b border-gray-200">
                     <h4 className="font-medium text-gray-900">Move Code</h4>
-                    <button
-                      onClick={() => copyToClipboard(selectedSimulation.code || '')}
-                      className="flex items-center px-2 py-1 text-sm text-gray-600 hover:text-gray-800 transition-colors"
-                    >
-                      <Copy className="w-4 h-4 mr-1" />
-                      Copy
-                    </button>
+                    <div className="flex items-center space-x-2">
+                      <button
+                        onClick={() => handleCompileCode(selectedSimulation)}
+                        disabled={isCompiling || !selectedSimulation.code}
+                        className="flex items-center px-2 py-1 text-sm text-gray-600 hover:text-gray-800 transition-colors disabled:opacity-50"
+                      >
+                        {isCompiling ? <LoadingSpinner size="sm" /> : <Terminal className="w-4 h-4 mr-1" />}
+                        Compile
+                      </button>
+                      <button
+                        onClick={() => handleAutoFix(selectedSimulation)}
+                        disabled={isFixing || isCompiling || !selectedSimulation.code}
+                        title="Compile and test, sending failures back to the assistant until the tests pass"
+                        className="flex items-center px-2 py-1 text-sm text-gray-600 hover:text-gray-800 transition-colors disabled:opacity-50"
+                      >
+                        {isFixing ? <LoadingSpinner size="sm" /> : <Wrench className="w-4 h-4 mr-1" />}
+                        Auto-fix
+                      </button>
+                      <button
+                        onClick={() => copyToClipboard(selectedSimulation.code || '')}
+                        className="flex items-center px-2 py-1 text-sm text-gray-600 hover:text-gray-800 transition-colors"
+                      >
+                        <Copy className="w-4 h-4 mr-1" />
+                        Copy
+                      </button>
+                    </div>
+                  </div>
+                  <DiagnosticsCodeView
+                    code={selectedSimulation.code || ''}
+                    diagnostics={selectedSimulation.result?.diagnostics || []}
+                  />
+
+                  {/* Prose that came with generated code */}
+                  {(selectedSimulation.explanation || selectedSimulation.deploymentSteps || selectedSimulation.securityNotes) && (
+                    <div className="border-t border-gray-200 divide-y divide-gray-100 text-sm">
+                      {selectedSimulation.explanation && (
+                        <details className="p-3" open>
+                          <summary className="font-medium text-gray-900 cursor-pointer">Explanation</summary>
+                          <p className="mt-2 text-gray-700 whitespace-pre-wrap">{selectedSimulation.explanation}</p>
+                        </details>
+                      )}
+                      {selectedSimulation.deploymentSteps && (
+                        <details className="p-3">
+                          <summary className="font-medium text-gray-900 cursor-pointer">Deployment Steps</summary>
+                          <ol className="mt-2 ml-5 list-decimal space-y-1 text-gray-700">
+                            {selectedSimulation.deploymentSteps.map((step, index) => (
+                              <li key={index} className="whitespace-pre-wrap">{step}</li>
+                            ))}
+                          </ol>
+                        </details>
+                      )}
+                      {selectedSimulation.securityNotes && (
+                        <details className="p-3">
+                          <summary className="font-medium text-yellow-800 cursor-pointer">Security Notes</summary>
+                          <p className="mt-2 text-gray-700 whitespace-pre-wrap">{selectedSimulation.securityNotes}</p>
+                        </details>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {activeTab === 'tests' && (
+                <div className="bg-white border border-gray-200 rounded-lg">
+                  <div className="flex items-center justify-between p-3 border-b border-gray-200">
+                    <div>
+                      <h4 className="font-medium text-gray-900">Test Module</h4>
+                      <p className="text-xs text-gray-500">
+                        #[test_only] module run with `aptos move test` alongside the simulation code
+                      </p>
+                    </div>
+                    {!selectedSimulation.testModules?.[0] && (
+                      <button
+                        onClick={() => handleAddStarterTests(selectedSimulation)}
+                        className="flex items-center px-2 py-1 text-sm text-gray-600 hover:text-gray-800 transition-colors"
+                      >
+                        <Plus className="w-4 h-4 mr-1" />
+                        Add starter tests
+                      </button>
+                    )}
                   </div>
-                  <pre className="p-4 text-sm font-mono text-gray-800 overflow-x-auto bg-gray-50">
-                    {selectedSimulation.code}
-                  </pre>
+                  <textarea
+                    value={selectedSimulation.testModules?.[0] || ''}
+                    onChange={(e) => applySimulationUpdate(selectedSimulation.id, {
+                      testModules: e.target.value ? [e.target.value] : [],
+                    })}
+                    placeholder="#[test_only]&#10;module sandbox_tests::tests { ... }"
+                    spellCheck={false}
+                    className="w-full h-96 p-4 text-sm font-mono text-gray-800 bg-gray-50 focus:outline-none resize-y"
+                  />
                 </div>
               )}
 
@@ -617,6 +722,17 @@ export function SandboxView() {
                       </div>
                     ))}
                   </div>
+
+                  <h4 className="font-medium text-gray-900 mt-6 mb-1">Custom Requirements</h4>
+                  <p className="text-xs text-gray-500 mb-2">
+                    Leave empty to generate from the vetted template. Anything written here is sent to the assistant instead.
+                  </p>
+                  <textarea
+                    value={selectedSimulation.requirements || ''}
+                    onChange={(e) => applySimulationUpdate(selectedSimulation.id, { requirements: e.target.value })}
+                    placeholder="e.g. add a pausable transfer switch controlled by the creator"
+                    className="w-full h-24 p-3 text-sm text-gray-800 bg-gray-50 border border-gray-200 rounded focus:outline-none resize-y"
+                  />
                 </div>
               )}
 
@@ -635,42 +751,204 @@ export function SandboxView() {
                             </div>
                           </div>
                           <div className="bg-gray-50 p-3 rounded">
-                            <div className="text-sm text-gray-600">Gas Used</div>
+                            <div className="text-sm text-gray-600">Gas Estimate</div>
                             <div className="font-semibold text-gray-900">{selectedSimulation.result.gasEstimate?.toLocaleString() || 'N/A'}</div>
                           </div>
                           <div className="bg-gray-50 p-3 rounded">
                             <div className="text-sm text-gray-600">Execution Time</div>
-                            <div className="font-semibold text-gray-900">{(selectedSimulation.result as any).executionTime || 0}ms</div>
+                            <div className="font-semibold text-gray-900">{selectedSimulation.result.executionTime ?? 0}ms</div>
                           </div>
                           <div className="bg-gray-50 p-3 rounded">
-                            <div className="text-sm text-gray-600">Transactions</div>
-                            <div className="font-semibold text-gray-900">{(selectedSimulation.result as any).transactions?.length || 0}</div>
+                            <div className="text-sm text-gray-600">Tests Passed</div>
+                            <div className="font-semibold text-gray-900">
+                              {selectedSimulation.result.tests
+                                ? `${selectedSimulation.result.tests.filter(test => test.status === 'pass').length}/${selectedSimulation.result.tests.length}`
+                                : 'N/A'}
+                            </div>
                           </div>
                         </div>
                       </div>
 
-                      {/* Transaction Details */}
-                      {(selectedSimulation.result as any).transactions && (
+                      {/* Unit Test Results */}
+                      {selectedSimulation.result.tests && selectedSimulation.result.tests.length > 0 && (
                         <div className="bg-white border border-gray-200 rounded-lg p-4">
-                          <h4 className="font-medium text-gray-900 mb-3">Transaction Details</h4>
+                          <h4 className="font-medium text-gray-900 mb-3">Unit Tests</h4>
                           <div className="space-y-2">
-                            {(selectedSimulation.result as any).transactions.map((tx: any, index: number) => (
-                              <div key={index} className="flex items-center justify-between p-3 bg-gray-50 rounded">
+                            {selectedSimulation.result.tests.map((test) => (
+                              <div key={test.name} className="p-3 bg-gray-50 rounded">
+                                <div className="flex items-center justify-between">
+                                  <div className="flex items-center space-x-3 min-w-0">
+                                    {test.status === 'pass' ? (
+                                      <CheckCircle className="w-4 h-4 text-green-500 flex-shrink-0" />
+                                    ) : (
+                                      <XCircle className="w-4 h-4 text-red-500 flex-shrink-0" />
+                                    )}
+                                    <span className="font-mono text-sm truncate">{test.name}</span>
+                                  </div>
+                                  <span className={`text-xs font-medium uppercase ${test.status === 'pass' ? 'text-green-600' : 'text-red-600'}`}>
+                                    {test.status}
+                                  </span>
+                                </div>
+                                {test.status !== 'pass' && (test.message || test.abortCode !== undefined) && (
+                                  <div className="mt-2 ml-7 text-xs text-gray-600 space-y-1">
+                                    {test.abortCode !== undefined && (
+                                      <div>
+                                        Abort code <span className="font-mono">{test.abortCode}</span>
+                                        {test.abortModule && <> in <span className="font-mono">{test.abortModule}</span></>}
+                                      </div>
+                                    )}
+                                    {test.message && <div>{test.message}</div>}
+                                    {test.span && (
+                                      <div className="font-mono text-gray-500">
+                                        {test.span.file}:{test.span.startLine}:{test.span.startColumn}
+                                      </div>
+                                    )}
+                                  </div>
+                                )}
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+
+                      {/* Auto-fix Revisions */}
+                      {selectedSimulation.revisions && selectedSimulation.revisions.length > 0 && (
+                        <div className="bg-white border border-gray-200 rounded-lg p-4">
+                          <h4 className="font-medium text-gray-900 mb-3">Revisions</h4>
+                          <div className="space-y-2">
+                            {selectedSimulation.revisions.map((revision) => (
+                              <div key={revision.version} className="flex items-center justify-between p-3 bg-gray-50 rounded text-sm">
                                 <div className="flex items-center space-x-3">
-                                  {tx.status === 'success' ? (
+                                  {revision.compiled && revision.testsPassed ? (
                                     <CheckCircle className="w-4 h-4 text-green-500" />
                                   ) : (
                                     <XCircle className="w-4 h-4 text-red-500" />
                                   )}
-                                  <span className="font-medium">{tx.type}</span>
+                                  <span className="font-medium">v{revision.version}</span>
+                                  <span className="text-gray-500">{revision.origin === 'repair' ? 'repaired' : 'original'}</span>
+                                  <span className="text-gray-600">
+                                    {revision.compiled
+                                      ? 'compiles'
+                                      : `${revision.diagnostics.filter(d => d.severity === 'error').length} errors`}
+                                    {' · '}
+                                    {revision.tests.filter(test => test.status === 'pass').length}/{revision.tests.length} tests
+                                  </span>
                                 </div>
-                                <span className="text-sm text-gray-600">{tx.gas?.toLocaleString()} gas</span>
+                                {revision.code !== selectedSimulation.code && (
+                                  <button
+                                    onClick={() => applySimulationUpdate(selectedSimulation.id, { code: revision.code })}
+                                    className="flex items-center text-xs text-gray-600 hover:text-gray-800"
+                                  >
+                                    <RotateCcw className="w-3 h-3 mr-1" />
+                                    Restore
+                                  </button>
+                                )}
                               </div>
                             ))}
                           </div>
                         </div>
                       )}
 
+                      {/* Scenario Steps */}
+                      {selectedSimulation.result.scenario && (
+                        <div className="bg-white border border-gray-200 rounded-lg p-4">
+                          <h4 className="font-medium text-gray-900 mb-1">Scenario: {selectedSimulation.result.scenario.name}</h4>
+                          <div className="text-xs text-gray-500 mb-3 space-x-3">
+                            {Object.entries(selectedSimulation.result.scenario.accounts).map(([alias, address]) => (
+                              <span key={alias}>{alias} <span className="font-mono">{address.slice(0, 10)}...</span></span>
+                            ))}
+                          </div>
+                          <div className="space-y-2">
+                            {selectedSimulation.result.scenario.steps.map((step, index) => (
+                              <details key={index} className="p-3 bg-gray-50 rounded">
+                                <summary className="flex items-center justify-between cursor-pointer">
+                                  <div className="flex items-center space-x-3 min-w-0">
+                                    {step.success ? (
+                                      <CheckCircle className="w-4 h-4 text-green-500 flex-shrink-0" />
+                                    ) : (
+                                      <XCircle className="w-4 h-4 text-red-500 flex-shrink-0" />
+                                    )}
+                                    <span className="text-sm truncate">{index + 1}. {step.label}</span>
+                                  </div>
+                                  <span className="text-xs text-gray-500">{step.gasUsed !== undefined ? `${step.gasUsed} gas` : ''}</span>
+                                </summary>
+                                <div className="mt-2 ml-7 text-xs text-gray-600 space-y-2">
+                                  <div className="font-mono">{step.signer} → {step.function.split('::').slice(-2).join('::')}</div>
+                                  {!step.success && <div className="text-red-600">{step.error || step.vmStatus}</div>}
+                                  {step.events.length > 0 && (
+                                    <div>
+                                      <div className="font-medium text-gray-700">Events</div>
+                                      {step.events.map((event, eventIndex) => (
+                                        <div key={eventIndex} className="font-mono truncate">
+                                          {event.type.split('::').slice(-2).join('::')} {JSON.stringify(event.data)}
+                                        </div>
+                                      ))}
+                                    </div>
+                                  )}
+                                  {step.resources.length > 0 && (
+                                    <div>
+                                      <div className="font-medium text-gray-700">Resources</div>
+                                      {step.resources.map((resource, resourceIndex) => (
+                                        <div key={resourceIndex} className="font-mono truncate">
+                                          {resource.owner} {resource.type.split('::').slice(-2).join('::')} {JSON.stringify(resource.data)}
+                                        </div>
+                                      ))}
+                                    </div>
+                                  )}
+                                  <div>
+                                    <div className="font-medium text-gray-700">Balances</div>
+                                    {Object.entries(step.balances).map(([alias, assets]) => (
+                                      <div key={alias} className="font-mono">
+                                        {alias}: {Object.entries(assets).map(([asset, amount]) => `${asset}=${amount}`).join(', ')}
+                                      </div>
+                                    ))}
+                                  </div>
+                                </div>
+                              </details>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+
+                      {/* Gas Report */}
+                      {selectedSimulation.result.gasReport && selectedSimulation.result.gasReport.length > 0 && (
+                        <div className="bg-white border border-gray-200 rounded-lg p-4">
+                          <h4 className="font-medium text-gray-900 mb-3">Gas Report</h4>
+                          <table className="w-full text-sm">
+                            <thead>
+                              <tr className="text-left text-gray-500">
+                                <th className="pb-2 font-medium">Function</th>
+                                <th className="pb-2 font-medium text-right">Gas Used</th>
+                                <th className="pb-2 font-medium text-right">Unit Price</th>
+                                <th className="pb-2 font-medium text-right">Cost (APT)</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {selectedSimulation.result.gasReport.map((estimate) => (
+                                <tr key={estimate.function} className="border-t border-gray-100">
+                                  <td className="py-2">
+                                    <div className="flex items-center space-x-2">
+                                      {estimate.success ? (
+                                        <CheckCircle className="w-4 h-4 text-green-500 flex-shrink-0" />
+                                      ) : (
+                                        <XCircle className="w-4 h-4 text-red-500 flex-shrink-0" />
+                                      )}
+                                      <span className="font-mono">{estimate.function.split('::').slice(-2).join('::')}</span>
+                                    </div>
+                                    {!estimate.success && (
+                                      <div className="ml-6 text-xs text-red-600">{estimate.vmStatus}</div>
+                                    )}
+                                  </td>
+                                  <td className="py-2 text-right">{estimate.gasUsed.toLocaleString()}</td>
+                                  <td className="py-2 text-right">{estimate.gasUnitPrice}</td>
+                                  <td className="py-2 text-right">{estimate.aptCost.toFixed(6)}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </div>
+                      )}
+
                       {/* Errors and Warnings */}
                       {((selectedSimulation.result.errors && selectedSimulation.result.errors.length > 0) || 
                         (selectedSimulation.result.warnings && selectedSimulation.result.warnings.length > 0)) && (
@@ -707,13 +985,11 @@ export function SandboxView() {
                         </div>
                       )}
 
-                      {/* AI Analysis */}
-                      {selectedSimulation.result.aiAnalysis && (
+                      {/* AI Security Audit */}
+                      {selectedSimulation.result.audit && (
                         <div className="bg-white border border-gray-200 rounded-lg p-4">
-                          <h5 className="font-medium text-gray-900 mb-2">AI Analysis:</h5>
-                          <p className="text-sm text-gray-600">
-                            {selectedSimulation.result.aiAnalysis}
-                          </p>
+                          <h4 className="font-medium text-gray-900 mb-3">Security Audit</h4>
+                          <AuditReportView audit={selectedSimulation.result.audit} />
                         </div>
                       )}
                     </>
@@ -0,0 +1,115 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/toaster';
+import { useAppStore } from '@/store/useAppStore';
+import { EXPERTISE_LEVELS, RISK_TOLERANCES } from '@/lib/user-profile';
+import { ExpertiseLevel, RiskTolerance } from '@/types';
+import { cn } from '@/lib/utils';
+
+interface ProfileSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface OptionGroupProps<T extends string> {
+  title: string;
+  options: Array<{ value: T; label: string; description: string }>;
+  value: T;
+  onChange: (value: T) => void;
+}
+
+function OptionGroup<T extends string>({ title, options, value, onChange }: OptionGroupProps<T>) {
+  return (
+    <section>
+      <h4 className="font-medium text-gray-900 mb-2">{title}</h4>
+      <div className="space-y-2">
+        {options.map(option => (
+          <button
+            key={option.value}
+            onClick={() => onChange(option.value)}
+            className={cn(
+              'w-full text-left px-3 py-2 rounded-lg border transition-colors',
+              option.value === value ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+            )}
+          >
+            <div className="text-sm font-medium text-gray-900">{option.label}</div>
+            <div className="text-xs text-gray-500">{option.description}</div>
+          </button>
+        ))}
+      </div>
+    </section>
+  );
+}
+
+// Expertise and risk tolerance the assistant tailors answers to, in every session
+export function ProfileSettingsDialog({ open, onOpenChange }: ProfileSettingsDialogProps) {
+  const profile = useAppStore(state => state.user?.profile);
+  const setUserProfile = useAppStore(state => state.setUserProfile);
+  const { success } = useToast();
+
+  const [expertise, setExpertise] = useState<ExpertiseLevel>('beginner');
+  const [riskTolerance, setRiskTolerance] = useState<RiskTolerance>('moderate');
+
+  // Start from the stored profile each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setExpertise(profile?.expertise || 'beginner');
+      setRiskTolerance(profile?.riskTolerance || 'moderate');
+    }
+  }, [open, profile]);
+
+  const handleSave = () => {
+    setUserProfile({ expertise, riskTolerance, source: 'user' });
+    success('Profile Saved', 'The assistant will tailor answers to this profile');
+    onOpenChange(false);
+  };
+
+  // Hand the profile back to inference; it is updated from the next message
+  const handleInfer = () => {
+    setUserProfile({ expertise, riskTolerance, source: 'inferred' });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Assistant Profile</DialogTitle>
+          <DialogDescription>
+            {profile?.source === 'user'
+              ? 'You set this profile. The assistant uses it in every conversation.'
+              : profile
+                ? 'Inferred from your conversations so far. Save it to stop the assistant adjusting it.'
+                : 'Not set yet. The assistant will infer it from your messages, or you can choose now.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5 text-sm">
+          <OptionGroup title="Expertise" options={EXPERTISE_LEVELS} value={expertise} onChange={setExpertise} />
+          <OptionGroup title="Risk Tolerance" options={RISK_TOLERANCES} value={riskTolerance} onChange={setRiskTolerance} />
+        </div>
+
+        <DialogFooter>
+          {profile?.source === 'user' && (
+            <Button variant="outline" size="sm" onClick={handleInfer}>
+              Infer from conversations
+            </Button>
+          )}
+          <Button variant="gradient" size="sm" onClick={handleSave}>
+            Save Profile
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -73,7 +73,7 @@ export function WalletSelector() {
 
           <div className="border-t border-gray-200 p-3">
             <div className="text-xs text-gray-500 text-center">
-              <p>Don't have a wallet?</p>
+              <p>Don&apos;t have a wallet?</p>
               <a
                 href="https://petra.app"
                 target="_blank"
@@ -0,0 +1,91 @@
+'use client';
+
+import { useWallet } from '@aptos-labs/wallet-adapter-react';
+import { useAppStore } from '@/store/useAppStore';
+import { contractService } from '@/lib/aptos';
+import { TransactionSigner, WalletSigner } from '@/lib/signers';
+import { InputEntryFunctionData } from '@aptos-labs/ts-sdk';
+import { Transaction } from '@/types';
+
+type Submitted = Awaited<ReturnType<typeof contractService.createToken>>;
+
+// dexxy-contracts calls signed by the connected wallet. Each submitted hash is recorded
+// in the store as a pending Transaction and, with a messageId, on that chat message.
+export function useContractActions(messageId?: string) {
+  const { account, signAndSubmitTransaction } = useWallet();
+  const { addTransaction, updateMessage } = useAppStore();
+
+  const submit = async (
+    type: Transaction['type'],
+    details: Partial<Pick<Transaction, 'to' | 'amount' | 'token'>>,
+    call: (signer: TransactionSigner) => Promise<Submitted>
+  ) => {
+    if (!account?.address) {
+      throw new Error('Connect a wallet to sign transactions');
+    }
+
+    const signer = new WalletSigner(account.address.toString(), signAndSubmitTransaction);
+    const result = await call(signer);
+
+    addTransaction({
+      hash: result.hash,
+      type,
+      status: 'pending',
+      from: signer.address,
+      messageId,
+      timestamp: new Date(),
+      ...details,
+    });
+
+    if (messageId) {
+      updateMessage(messageId, { metadata: { transactionHash: result.hash } });
+    }
+
+    return result;
+  };
+
+  return {
+    connected: !!account?.address,
+    address: account?.address?.toString(),
+
+    submitPayload: (
+      type: Transaction['type'],
+      data: InputEntryFunctionData,
+      details: Partial<Pick<Transaction, 'to' | 'amount' | 'token'>> = {}
+    ) => submit(type, details, signer => contractService.submit(signer, data)),
+
+    createToken: (parameters: Parameters<typeof contractService.createToken>[1]) =>
+      submit('deploy', { token: parameters.symbol, amount: parameters.initialSupply },
+        signer => contractService.createToken(signer, parameters)),
+
+    mint: (to: string, amount: string) =>
+      submit('mint', { to, amount }, signer => contractService.mint(signer, to, amount)),
+
+    burn: (amount: string) =>
+      submit('burn', { amount }, signer => contractService.burn(signer, amount)),
+
+    createPool: (parameters: Parameters<typeof contractService.createPool>[1]) =>
+      submit('create_pool', {}, signer => contractService.createPool(signer, parameters)),
+
+    addLiquidity: (poolAddress: string, amountX: string, amountY: string) =>
+      submit('add_liquidity', { to: poolAddress, amount: amountX },
+        signer => contractService.addLiquidity(signer, poolAddress, amountX, amountY)),
+
+    swapXForY: (poolAddress: string, amountIn: string, minAmountOut: string) =>
+      submit('swap', { to: poolAddress, amount: amountIn },
+        signer => contractService.swapXForY(signer, poolAddress, amountIn, minAmountOut)),
+
+    createVault: (parameters: Parameters<typeof contractService.createVault>[1]) =>
+      submit('create_vault', { token: parameters.stakedToken },
+        signer => contractService.createVault(signer, parameters)),
+
+    stake: (vaultAddress: string, amount: string) =>
+      submit('deposit', { to: vaultAddress, amount }, signer => contractService.stake(signer, vaultAddress, amount)),
+
+    unstake: (vaultAddress: string, amount: string) =>
+      submit('withdraw', { to: vaultAddress, amount }, signer => contractService.unstake(signer, vaultAddress, amount)),
+
+    claimRewards: (vaultAddress: string) =>
+      submit('claim_rewards', { to: vaultAddress }, signer => contractService.claimRewards(signer, vaultAddress)),
+  };
+}
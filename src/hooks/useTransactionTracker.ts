@@ -0,0 +1,33 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { useAppStore } from '@/store/useAppStore';
+import { transactionTracker } from '@/lib/transaction-tracker';
+
+// Follows every pending transaction in the store until it commits. Mount once near the app root;
+// transactions still pending after a reload are picked up again.
+export function useTransactionTracker() {
+  const { transactions, updateTransaction } = useAppStore();
+  const tracking = useRef<Set<string>>(new Set());
+
+  useEffect(() => {
+    for (const transaction of transactions) {
+      if (transaction.status !== 'pending' || tracking.current.has(transaction.hash)) continue;
+
+      tracking.current.add(transaction.hash);
+      transactionTracker.track(transaction.hash)
+        .then(outcome => {
+          if (outcome.status !== 'pending') {
+            updateTransaction(transaction.hash, outcome);
+          } else {
+            // Not committed before the tracker gave up; follow it again on the next store change
+            tracking.current.delete(transaction.hash);
+          }
+        })
+        .catch(error => {
+          tracking.current.delete(transaction.hash);
+          console.error('Transaction tracking failed:', error);
+        });
+    }
+  }, [transactions, updateTransaction]);
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { actionPayloads, describeArgument } from '@/lib/actions';
+
+describe('actionPayloads', () => {
+  it('creates a token with its supply in base units', () => {
+    const [payload, ...rest] = actionPayloads('create_token', {
+      name: 'Foo',
+      symbol: 'FOO',
+      decimals: 6,
+      totalSupply: '1.5',
+    });
+
+    expect(rest).toEqual([]);
+    expect(payload.data.function).toMatch(/::token::create_token$/);
+    expect(payload.data.functionArguments.map(describeArgument)).toEqual(['b"Foo"', 'b"FOO"', '6', '1500000', 'b""', 'b""']);
+  });
+
+  it('creates a pool from the tokens\' metadata addresses, without adding liquidity', () => {
+    const payloads = actionPayloads('create_pool', {
+      name: 'FOO/APT',
+      tokenA: '0xf00',
+      tokenB: 'APT',
+      fee: 0.3,
+      initialLiquidityA: '100',
+      initialLiquidityB: '50',
+    });
+
+    expect(payloads).toHaveLength(1);
+    expect(payloads[0].data.function).toMatch(/::liquidity_pool::create_pool$/);
+    expect(payloads[0].data.functionArguments.map(describeArgument)).toEqual(['0xf00', '0xa']);
+  });
+
+  it('creates a vault staking and rewarding the same token', () => {
+    const [payload] = actionPayloads('create_vault', {
+      name: 'APT vault',
+      token: '0x1::aptos_coin::AptosCoin',
+      strategy: 'staking',
+      fee: 2,
+      minDeposit: '1',
+    });
+
+    expect(payload.data.function).toMatch(/::yield_vault::create_vault$/);
+    expect(payload.data.functionArguments.map(describeArgument)).toEqual(['0xa', '0xa', '0']);
+  });
+
+  it('rejects tokens given by name instead of metadata address', () => {
+    expect(() => actionPayloads('create_vault', {
+      name: 'USDC vault',
+      token: 'USDC',
+      strategy: 'staking',
+      fee: 2,
+      minDeposit: '1',
+    })).toThrow(/metadata address/);
+  });
+});
@@ -0,0 +1,136 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { POST } from '@/app/api/sandbox/test/route';
+import { MockLLMProvider } from '@/lib/llm';
+import { LLM_FIXTURES } from '@/lib/llm-fixtures';
+import { CompilerRunner, MoveCompiler } from '@/lib/move-compiler';
+import { OpenRouterService } from '@/lib/openrouter';
+import { DEFAULT_SIMULATION_PARAMETERS, SANDBOX_SOURCE_FILE, SandboxService } from '@/lib/sandbox';
+import { SandboxRevision } from '@/types';
+
+const serverSandbox = vi.hoisted(() => ({
+  createSimulation: vi.fn(async () => ({ id: 'sim_1' })),
+  autoFix: vi.fn(async () => ({ id: 'sim_1', status: 'success' })),
+  deleteSimulation: vi.fn(),
+}));
+vi.mock('@/lib/sandbox-server', () => ({ serverSandboxService: serverSandbox }));
+
+const BROKEN = `module MyToken::Token {
+    public entry fun mint(amount: u64) { undefined_call(); }
+}`;
+const FIXED = `module MyToken::Token {
+    public entry fun mint(_amount: u64) {}
+}`;
+
+// `aptos move test` that fails to compile any source still calling undefined_call
+function fakeMoveTest() {
+  const sources: string[] = [];
+  const runner: CompilerRunner = {
+    async run(_command, _args, { cwd }) {
+      const source = await fs.readFile(path.join(cwd, 'sources', SANDBOX_SOURCE_FILE), 'utf8');
+      sources.push(source);
+      if (source.indexOf('undefined_call') !== -1) {
+        return {
+          exitCode: 1,
+          stdout: '',
+          stderr: `error[E03005]: unbound function\n  ┌─ ${cwd}/sources/${SANDBOX_SOURCE_FILE}:2:43\n`,
+        };
+      }
+      return {
+        exitCode: 0,
+        stdout: '[ PASS    ] 0xcafe::token_tests::test_mint\nTest result: OK. Total tests: 1; passed: 1; failed: 0',
+        stderr: '',
+      };
+    },
+  };
+  return { runner, sources };
+}
+
+// The mock model's repair fixture echoes the source back; `repair` replaces that reply
+function sandboxWith(runner: CompilerRunner, repair?: (source: string) => string) {
+  const fixtures = repair
+    ? [{ match: /^Repair this Move code\./, response: (prompt: string) => `\`\`\`move\n${repair(prompt.split('```move\n')[1])}\n\`\`\`` }]
+    : LLM_FIXTURES;
+  return new SandboxService({
+    compiler: new MoveCompiler({ runner }),
+    assistant: new OpenRouterService(new MockLLMProvider(fixtures), null),
+  });
+}
+
+const versions = (revisions: SandboxRevision[] = []) =>
+  revisions.map(revision => [revision.version, revision.origin, revision.compiled, revision.testsPassed]);
+
+describe('SandboxService.autoFix', () => {
+  it('repairs the code until it compiles and its tests pass', async () => {
+    const { runner, sources } = fakeMoveTest();
+    const sandbox = sandboxWith(runner, () => FIXED);
+    const simulation = await sandbox.createSimulation('token', DEFAULT_SIMULATION_PARAMETERS.token, BROKEN);
+
+    const fixed = await sandbox.autoFix(simulation.id);
+
+    expect(versions(fixed.revisions)).toEqual([
+      [1, 'original', false, false],
+      [2, 'repair', true, true],
+    ]);
+    expect(sources).toEqual([BROKEN, FIXED]);
+    expect(fixed.code).toBe(FIXED);
+    expect(fixed).toMatchObject({ status: 'success', result: { success: true } });
+  });
+
+  it('numbers new revisions after the ones passed in', async () => {
+    const { runner } = fakeMoveTest();
+    const sandbox = sandboxWith(runner, () => FIXED);
+    const simulation = await sandbox.createSimulation('token', DEFAULT_SIMULATION_PARAMETERS.token, BROKEN);
+    const earlier = await sandbox.autoFix(simulation.id, { maxAttempts: 0 });
+
+    const fixed = await sandbox.autoFix(simulation.id, { revisions: [...earlier.revisions!, ...earlier.revisions!] });
+
+    expect(fixed.revisions!.map(revision => revision.version)).toEqual([1, 1, 3, 4]);
+  });
+
+  it('stops after maxAttempts repairs when the code never builds', async () => {
+    const { runner, sources } = fakeMoveTest();
+    const sandbox = sandboxWith(runner);
+    const simulation = await sandbox.createSimulation('token', DEFAULT_SIMULATION_PARAMETERS.token, BROKEN);
+
+    const result = await sandbox.autoFix(simulation.id, { maxAttempts: 2 });
+
+    expect(versions(result.revisions)).toEqual([
+      [1, 'original', false, false],
+      [2, 'repair', false, false],
+      [3, 'repair', false, false],
+    ]);
+    expect(sources).toHaveLength(3);
+    expect(result).toMatchObject({ status: 'error', code: BROKEN, result: { success: false } });
+    expect(result.result?.errors?.[0]).toMatch(/unbound function/);
+  });
+});
+
+describe('POST /api/sandbox/test in autofix mode', () => {
+  beforeEach(() => {
+    serverSandbox.autoFix.mockClear();
+  });
+
+  const requestedAttempts = async (maxAttempts: unknown) => {
+    const response = await POST(new NextRequest('http://localhost/api/sandbox/test', {
+      method: 'POST',
+      body: JSON.stringify({ code: BROKEN, type: 'token', mode: 'autofix', maxAttempts }),
+    }));
+    expect(response.status).toBe(200);
+    const calls = serverSandbox.autoFix.mock.calls as unknown as Array<[string, { maxAttempts: number }]>;
+    return calls[0][1].maxAttempts;
+  };
+
+  it.each([
+    [undefined, 3],
+    ['abc', 3],
+    [-2, 1],
+    [2, 2],
+    ['4', 4],
+    [99, 5],
+  ])('runs %s requested attempts as %i', async (maxAttempts, expected) => {
+    expect(await requestedAttempts(maxAttempts)).toBe(expected);
+  });
+});
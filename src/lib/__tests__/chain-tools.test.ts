@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { AptosContractService } from '@/lib/aptos';
+import { ChainTools } from '@/lib/chain-tools';
+import { CompletionOptions, OpenAICompatibleProvider } from '@/lib/llm';
+import { OpenRouterService } from '@/lib/openrouter';
+import { OpenRouterMessage, OpenRouterToolCall } from '@/types';
+
+const call = (name: string, args: string): OpenRouterToolCall => ({
+  id: 'call_1',
+  type: 'function',
+  function: { name, arguments: args },
+});
+
+// Only the reads the balance and reserves tools make, recording what was asked
+function fakeContracts() {
+  const reads: string[] = [];
+  const contracts = {
+    getAptBalance: async (address: string) => {
+      reads.push(address);
+      return '150000000';
+    },
+    getReserves: async (pool: string) => {
+      reads.push(pool);
+      throw new Error('Resource not found by Address(0x9)');
+    },
+  } as unknown as AptosContractService;
+  return { contracts, reads };
+}
+
+describe('ChainTools.run', () => {
+  it('runs the tool with its validated arguments', async () => {
+    const { contracts, reads } = fakeContracts();
+
+    const { trace, content } = await new ChainTools(contracts).run(call('get_account_balance', '{"address":"0xa11ce"}'));
+
+    expect(reads).toEqual(['0xa11ce']);
+    expect(trace).toMatchObject({ name: 'get_account_balance', arguments: { address: '0xa11ce' } });
+    expect(JSON.parse(content)).toEqual({ address: '0xa11ce', octas: '150000000', apt: '1.50' });
+  });
+
+  it.each([
+    ['an unknown tool', call('transfer', '{}'), 'Unknown tool transfer'],
+    ['a missing argument', call('get_reserves', '{}'), 'pool_address: pool_address is required'],
+    ['an argument the schema rejects', call('get_reserves', '{"pool_address":"pool"}'), 'pool_address: pool_address must be a 0x-prefixed hex address'],
+    ['arguments that are not JSON', call('get_reserves', '{"pool_address":'), /JSON/],
+  ])('reports %s as an error without reading the chain', async (_case, toolCall, message) => {
+    const { contracts, reads } = fakeContracts();
+
+    const { trace, content } = await new ChainTools(contracts).run(toolCall);
+
+    expect(reads).toEqual([]);
+    expect(trace.result).toBeUndefined();
+    expect(trace.error).toMatch(message);
+    expect(JSON.parse(content)).toEqual({ error: trace.error });
+  });
+
+  it('reports a failed read as an error', async () => {
+    const { contracts, reads } = fakeContracts();
+
+    const { trace, content } = await new ChainTools(contracts).run(call('get_reserves', '{"pool_address":"0x9"}'));
+
+    expect(reads).toEqual(['0x9']);
+    expect(JSON.parse(content)).toEqual({ error: 'Resource not found by Address(0x9)' });
+    expect(trace.error).toBe('Resource not found by Address(0x9)');
+  });
+});
+
+// A model that asks for the balance again every time it is offered tools
+class InsistentProvider extends OpenAICompatibleProvider {
+  offered: boolean[] = [];
+
+  constructor() {
+    super({ name: 'Insistent', baseUrl: 'http://llm.test/v1', model: 'insistent' });
+  }
+
+  async complete(_messages: OpenRouterMessage[], options: CompletionOptions = {}) {
+    this.offered.push(Boolean(options.tools));
+    return options.tools
+      ? { content: '', model: 'insistent', toolCalls: [call('get_account_balance', '{"address":"0xa11ce"}')] }
+      : { content: 'You hold 1.50 APT.', model: 'insistent' };
+  }
+}
+
+describe('OpenRouterService tool rounds', () => {
+  it('stops offering tools after four rounds so the model has to answer', async () => {
+    const provider = new InsistentProvider();
+    const { contracts, reads } = fakeContracts();
+
+    const response = await new OpenRouterService(provider, new ChainTools(contracts)).chatWithAssistant('How much APT do I have?');
+
+    expect(provider.offered).toEqual([true, true, true, true, false]);
+    expect(reads).toHaveLength(4);
+    expect(response.toolTrace).toHaveLength(4);
+    expect(response.message).toBe('You hold 1.50 APT.');
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { estimateTokens, splitAtSummary, trimHistory } from '@/lib/chat-context';
+import { ChatHistoryMessage } from '@/types';
+
+// 40 characters: 10 tokens of content plus 4 for the role
+const message = (id: string, pinned = false): ChatHistoryMessage => ({
+  id,
+  role: 'user',
+  content: id.padEnd(40, '.'),
+  pinned,
+});
+
+describe('estimateTokens', () => {
+  it('counts about four characters per token plus four per message', () => {
+    expect(estimateTokens([])).toBe(0);
+    expect(estimateTokens([message('a')])).toBe(14);
+    expect(estimateTokens([{ role: 'user', content: 'abcde' }])).toBe(6);
+  });
+});
+
+describe('trimHistory', () => {
+  it('keeps everything that fits', () => {
+    const history = [message('a'), message('b')];
+    expect(trimHistory(history, 28)).toEqual(history);
+  });
+
+  it('drops the oldest messages first', () => {
+    const history = [message('a'), message('b'), message('c')];
+    expect(trimHistory(history, 28).map(m => m.id)).toEqual(['b', 'c']);
+  });
+
+  it('keeps pinned messages and drops the next oldest instead', () => {
+    const history = [message('a', true), message('b'), message('c')];
+    expect(trimHistory(history, 28).map(m => m.id)).toEqual(['a', 'c']);
+  });
+
+  it('keeps pinned messages even when they alone exceed the budget', () => {
+    const history = [message('a', true), message('b', true), message('c')];
+    expect(trimHistory(history, 10).map(m => m.id)).toEqual(['a', 'b']);
+  });
+
+  it('does not modify the history it is given', () => {
+    const history = [message('a'), message('b')];
+    trimHistory(history, 0);
+    expect(history).toHaveLength(2);
+  });
+});
+
+describe('splitAtSummary', () => {
+  const history = [message('a', true), message('b'), message('c'), message('d')];
+
+  it('sends the full history without a summary', () => {
+    expect(splitAtSummary(history)).toEqual({ pinned: [], rest: history });
+  });
+
+  it('keeps pinned messages the summary covers and everything after it', () => {
+    const summary = { content: 'earlier', throughMessageId: 'b' };
+    const split = splitAtSummary(history, summary);
+
+    expect(split.summary).toBe(summary);
+    expect(split.pinned.map(m => m.id)).toEqual(['a']);
+    expect(split.rest.map(m => m.id)).toEqual(['c', 'd']);
+  });
+
+  it('drops a summary whose message is no longer in the history', () => {
+    const split = splitAtSummary(history, { content: 'earlier', throughMessageId: 'gone' });
+    expect(split).toEqual({ pinned: [], rest: history });
+  });
+});
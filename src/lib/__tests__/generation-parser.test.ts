@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { parseGeneratedCode } from '@/lib/generation-parser';
+
+const TOKEN = `module token_addr::my_token {
+    public entry fun create_token(creator: &signer) {}
+}`;
+const TESTS = `#[test_only]
+module token_addr::my_token_tests {
+    #[test]
+    fun test_create() {}
+}`;
+
+describe('parseGeneratedCode', () => {
+  it('takes the fenced Move code and sorts the prose under its headings', () => {
+    const reply = [
+      'Here is your token.',
+      '',
+      '## Generated Code',
+      '```move',
+      TOKEN,
+      '```',
+      '',
+      '## 📖 Code Explanation',
+      'Creates a fungible asset owned by the caller.',
+      '',
+      '## **Deployment Steps:**',
+      '1. Compile the package',
+      '```bash',
+      'aptos move compile',
+      '```',
+      '2. Publish it',
+      '',
+      '## Security Notes',
+      '- Only the creator can mint.',
+    ].join('\n');
+
+    expect(parseGeneratedCode(reply)).toEqual({
+      code: TOKEN,
+      source: 'assistant',
+      explanation: 'Creates a fungible asset owned by the caller.',
+      deploymentSteps: ['Compile the package\naptos move compile', 'Publish it'],
+      securityNotes: '- Only the creator can mint.',
+    });
+  });
+
+  it('accepts a reply that is bare Move source', () => {
+    expect(parseGeneratedCode(`\n${TOKEN}\n\n`)).toEqual({
+      code: TOKEN,
+      source: 'assistant',
+      explanation: undefined,
+      deploymentSteps: undefined,
+      securityNotes: undefined,
+    });
+  });
+
+  it('leaves out the sections a reply does not have', () => {
+    const parsed = parseGeneratedCode(`Here is the token:\n\n\`\`\`move\n${TOKEN}\n\`\`\`\n`);
+
+    expect(parsed.code).toBe(TOKEN);
+    expect(parsed.explanation).toBeUndefined();
+    expect(parsed.deploymentSteps).toBeUndefined();
+    expect(parsed.securityNotes).toBeUndefined();
+  });
+
+  it('keeps every Move block in order, including unlabelled ones, and drops other languages', () => {
+    const reply = [
+      '```move',
+      TOKEN,
+      '```',
+      '```json',
+      '{ "module": "not move" }',
+      '```',
+      '```',
+      TESTS,
+      '```',
+    ].join('\n');
+
+    expect(parseGeneratedCode(reply).code).toBe(`${TOKEN}\n\n${TESTS}`);
+  });
+
+  it.each([
+    ['prose only', 'I need the token symbol before I can write this.'],
+    ['fences without Move', '```bash\naptos move compile\n```'],
+  ])('throws for %s', (_case, reply) => {
+    expect(() => parseGeneratedCode(reply)).toThrow('The generated response did not contain any Move code');
+  });
+});
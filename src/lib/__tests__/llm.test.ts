@@ -0,0 +1,194 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { AI_CONFIG } from '@/lib/ai-config';
+import { MockLLMProvider, OpenAICompatibleProvider, createLLMProvider } from '@/lib/llm';
+import { auditReportSchema } from '@/lib/schemas';
+import { OpenRouterMessage } from '@/types';
+
+const user = (content: string): OpenRouterMessage[] => [{ role: 'user', content }];
+const balanceTool = { name: 'get_account_balance', description: 'APT balance', parameters: {} };
+
+// BaseLLMProvider.structured over a complete() that answers from a script, one reply per call
+class ScriptedProvider extends OpenAICompatibleProvider {
+  calls: OpenRouterMessage[][] = [];
+
+  constructor(private replies: string[]) {
+    super({ name: 'Scripted', baseUrl: 'http://llm.test/v1', model: 'scripted' });
+  }
+
+  async complete(messages: OpenRouterMessage[]) {
+    this.calls.push([...messages]);
+    return { content: this.replies[this.calls.length - 1], model: 'scripted' };
+  }
+}
+
+// A text/event-stream body with one event per chunk
+function sse(chunks: unknown[]): Response {
+  const body = chunks.map(chunk => `data: ${JSON.stringify(chunk)}\n\n`).join('') + 'data: [DONE]\n\n';
+  return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+describe('MockLLMProvider', () => {
+  const provider = new MockLLMProvider();
+
+  it('answers generation prompts with Move code named after the parameters', async () => {
+    const { content } = await provider.complete(
+      user('Generate Move code for token creation with these parameters: {"symbol":"FOO"}')
+    );
+    expect(content).toMatch(/```move\nmodule token_addr::foo \{/);
+  });
+
+  it('returns an audit that passes the audit schema', async () => {
+    const report = await provider.structured(user('Please analyze this token creation code:\n\n1 module a::b {}'), auditReportSchema);
+    expect(report.findings[0].title).toBe('No unit tests');
+  });
+
+  it('calls offered tools once per user message', async () => {
+    const messages = user('What is the balance of 0x1?');
+
+    const first = await provider.complete(messages, { tools: [balanceTool] });
+    expect(first.content).toBe('');
+    expect(first.toolCalls).toEqual([
+      { id: 'mock_call_0', type: 'function', function: { name: 'get_account_balance', arguments: '{"address":"0x1"}' } },
+    ]);
+
+    const answered = await provider.complete([
+      ...messages,
+      { role: 'assistant', content: '', tool_calls: first.toolCalls },
+      { role: 'tool', content: '{"balance":"1"}', tool_call_id: 'mock_call_0' },
+    ], { tools: [balanceTool] });
+    expect(answered.toolCalls).toBeUndefined();
+    expect(answered.content).toMatch(/balance/);
+
+    expect((await provider.complete(messages)).toolCalls).toBeUndefined();
+  });
+
+  it('streams the same reply word by word and stops when aborted', async () => {
+    const tokens: string[] = [];
+    const completion = await provider.stream(user('hello'), token => tokens.push(token));
+    expect(tokens.length).toBeGreaterThan(1);
+    expect(tokens.join('')).toBe(completion.content);
+
+    const controller = new AbortController();
+    controller.abort();
+    await expect(provider.stream(user('hello'), () => {}, { signal: controller.signal })).rejects.toThrow(/aborted/);
+  });
+
+  it('fails when no fixture matches', async () => {
+    await expect(new MockLLMProvider([]).complete(user('hello'))).rejects.toThrow(/no fixture matching: hello/);
+  });
+});
+
+describe('createLLMProvider', () => {
+  it('builds the configured provider', () => {
+    expect(createLLMProvider({ ...AI_CONFIG, provider: 'openrouter' }).name).toBe('OpenRouter');
+    expect(createLLMProvider({ ...AI_CONFIG, provider: 'local' }).name).toBe('Local LLM');
+    expect(createLLMProvider({ ...AI_CONFIG, provider: 'mock' })).toBeInstanceOf(MockLLMProvider);
+  });
+
+  it('rejects unknown providers', () => {
+    expect(() => createLLMProvider({ ...AI_CONFIG, provider: 'other' as 'mock' })).toThrow(/Unknown LLM provider: other/);
+  });
+});
+
+describe('BaseLLMProvider.structured', () => {
+  const schema = z.object({ answer: z.number() });
+
+  it('takes the JSON object out of surrounding prose', async () => {
+    const provider = new ScriptedProvider(['Here you go:\n```json\n{"answer": 42}\n```']);
+    expect(await provider.structured(user('?'), schema)).toEqual({ answer: 42 });
+    expect(provider.calls).toHaveLength(1);
+  });
+
+  it('retries once with the validation errors', async () => {
+    const provider = new ScriptedProvider(['{"answer": "42"}', '{"answer": 42}']);
+
+    expect(await provider.structured(user('?'), schema)).toEqual({ answer: 42 });
+    const retry = provider.calls[1];
+    expect(retry[retry.length - 2]).toEqual({ role: 'assistant', content: '{"answer": "42"}' });
+    expect(retry[retry.length - 1].content).toMatch(/^That response was not valid: answer: Expected number, received string/);
+  });
+
+  it('gives up after the retry', async () => {
+    const provider = new ScriptedProvider(['no json', 'still none']);
+    await expect(provider.structured(user('?'), schema)).rejects.toThrow(
+      'Scripted structured output did not match the schema: Response contained no JSON object'
+    );
+  });
+});
+
+describe('OpenAICompatibleProvider', () => {
+  const fetchMock = vi.fn();
+  const provider = (retries = 2) => new OpenAICompatibleProvider({
+    name: 'Test',
+    baseUrl: 'http://llm.test/v1',
+    model: 'some/model:free',
+    retries,
+  });
+
+  beforeEach(() => {
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    fetchMock.mockReset();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  const rateLimited = () => new Response('', { status: 429, headers: { 'Retry-After': '0' } });
+  const completed = (content: string) => Response.json({ model: 'some/model', choices: [{ message: { content } }] });
+  const requestedModel = (call: number) => JSON.parse(fetchMock.mock.calls[call][1].body).model;
+
+  it('retries after a 429, moving off the free tier', async () => {
+    fetchMock.mockResolvedValueOnce(rateLimited()).mockResolvedValueOnce(completed('hi'));
+
+    const completion = await provider().complete(user('hello'));
+
+    expect(completion).toMatchObject({ content: 'hi', model: 'some/model' });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(requestedModel(0)).toBe('some/model:free');
+    expect(requestedModel(1)).toBe('some/model');
+  });
+
+  it('gives up when every attempt is rate limited', async () => {
+    fetchMock.mockImplementation(async () => rateLimited());
+
+    await expect(provider(1).complete(user('hello'))).rejects.toThrow('Test API error: too many retries after 429');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('accumulates streamed content, tool call fragments and usage', async () => {
+    fetchMock.mockResolvedValueOnce(sse([
+      { model: 'some/model', choices: [{ delta: { content: 'Let me ' } }] },
+      { choices: [{ delta: { content: 'check.' } }] },
+      { choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_1', function: { name: 'get_account_', arguments: '{"addr' } }] } }] },
+      { choices: [{ delta: { tool_calls: [{ index: 0, function: { name: 'balance', arguments: 'ess":"0x1"}' } }] } }] },
+      { choices: [], usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 } },
+    ]));
+    const tokens: string[] = [];
+
+    const completion = await provider().stream(user('hello'), token => tokens.push(token), { tools: [balanceTool] });
+
+    expect(tokens).toEqual(['Let me ', 'check.']);
+    expect(completion).toEqual({
+      content: 'Let me check.',
+      model: 'some/model',
+      usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+      toolCalls: [
+        { id: 'call_1', type: 'function', function: { name: 'get_account_balance', arguments: '{"address":"0x1"}' } },
+      ],
+    });
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toMatchObject({
+      stream: true,
+      tools: [{ type: 'function', function: balanceTool }],
+    });
+  });
+
+  it('surfaces errors sent inside the stream', async () => {
+    fetchMock.mockResolvedValueOnce(sse([{ choices: [], error: { message: 'context length exceeded' } }]));
+
+    await expect(provider().stream(user('hello'), () => {})).rejects.toThrow('Test API error: context length exceeded');
+  });
+});
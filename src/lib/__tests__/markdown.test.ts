@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { parseInline, parseMarkdown } from '@/lib/markdown';
+
+describe('parseMarkdown', () => {
+  it('splits headings, paragraphs and lists', () => {
+    expect(parseMarkdown('## Pools\nA pool holds two tokens.\nIt has a fee.\n\n- swap\n- add liquidity\n\n3. stake\n4. claim')).toEqual([
+      { type: 'heading', level: 2, text: 'Pools' },
+      { type: 'paragraph', text: 'A pool holds two tokens.\nIt has a fee.' },
+      { type: 'list', ordered: false, start: 1, items: ['swap', 'add liquidity'] },
+      { type: 'list', ordered: true, start: 3, items: ['stake', 'claim'] },
+    ]);
+  });
+
+  it('keeps fenced code verbatim with its language', () => {
+    const blocks = parseMarkdown('Here:\n```Move\nmodule 0x1::m {\n    # not a heading\n}\n```\nDone.');
+
+    expect(blocks).toEqual([
+      { type: 'paragraph', text: 'Here:' },
+      { type: 'code', language: 'move', code: 'module 0x1::m {\n    # not a heading\n}', closed: true },
+      { type: 'paragraph', text: 'Done.' },
+    ]);
+  });
+
+  it('marks a fence that is still streaming in as not closed', () => {
+    expect(parseMarkdown('```move\nmodule 0x1::m {')).toEqual([
+      { type: 'code', language: 'move', code: 'module 0x1::m {', closed: false },
+    ]);
+  });
+
+  it('continues list items on indented lines', () => {
+    expect(parseMarkdown('- first\n  more\n- second')).toEqual([
+      { type: 'list', ordered: false, start: 1, items: ['first\nmore', 'second'] },
+    ]);
+  });
+
+  it('treats short emoji lines as headings', () => {
+    expect(parseMarkdown('🪙 Token Details\nName: Foo')).toEqual([
+      { type: 'heading', level: 3, text: '🪙 Token Details' },
+      { type: 'paragraph', text: 'Name: Foo' },
+    ]);
+  });
+});
+
+describe('parseInline', () => {
+  it('splits code, bold, italic and links', () => {
+    expect(parseInline('Call `mint` with **care**, *now*: [docs](https://aptos.dev/move)')).toEqual([
+      { type: 'text', text: 'Call ' },
+      { type: 'code', text: 'mint' },
+      { type: 'text', text: ' with ' },
+      { type: 'strong', text: 'care' },
+      { type: 'text', text: ', ' },
+      { type: 'em', text: 'now' },
+      { type: 'text', text: ': ' },
+      { type: 'link', text: 'docs', href: 'https://aptos.dev/move' },
+    ]);
+  });
+
+  it('links bare URLs without trailing punctuation', () => {
+    expect(parseInline('See https://explorer.aptoslabs.com/txn/0x1.')).toEqual([
+      { type: 'text', text: 'See ' },
+      { type: 'link', text: 'https://explorer.aptoslabs.com/txn/0x1', href: 'https://explorer.aptoslabs.com/txn/0x1' },
+      { type: 'text', text: '.' },
+    ]);
+  });
+
+  it('leaves non-http links as text', () => {
+    expect(parseInline('[run](javascript:alert(1))')).toEqual([{ type: 'text', text: '[run](javascript:alert(1))' }]);
+  });
+});
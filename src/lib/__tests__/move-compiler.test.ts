@@ -0,0 +1,211 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { CommandResult, CompilerRunner, MoveCompiler } from '@/lib/move-compiler';
+
+const SOURCE = `module MyToken::Token {
+    public entry fun mint(amount: u64) {}
+}
+`;
+
+// Answers every command with `result`, remembering the arguments and the workspace it ran in
+function fixtureRunner(result: (workspaceDir: string) => CommandResult) {
+  const calls: Array<{ args: string[]; cwd: string; workspaceExisted: boolean }> = [];
+  const runner: CompilerRunner = {
+    async run(_command, args, { cwd }) {
+      const workspaceExisted = await fs.stat(cwd).then(() => true, () => false);
+      calls.push({ args, cwd, workspaceExisted });
+      return result(cwd);
+    },
+  };
+  return { runner, calls };
+}
+
+describe('MoveCompiler.compile', () => {
+  it('reports codespan errors with spans relative to sources/ and a suggested fix', async () => {
+    const { runner, calls } = fixtureRunner(dir => ({
+      exitCode: 1,
+      stdout: '',
+      stderr: [
+        'error[E03003]: unbound module',
+        `  ┌─ ${dir}/sources/sandbox_generated.move:3:9`,
+        '  │',
+        '3 │     use aptos_framework::fungible_assetx;',
+        "  │         ^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^ Invalid 'use'. Unbound module",
+        '',
+      ].join('\n'),
+    }));
+
+    const result = await new MoveCompiler({ runner }).compile(SOURCE, 'sandbox_generated.move');
+
+    expect(result.success).toBe(false);
+    expect(result.diagnostics).toHaveLength(1);
+    expect(result.diagnostics[0]).toMatchObject({
+      severity: 'error',
+      source: 'compiler',
+      code: 'E03003',
+      message: 'unbound module',
+      span: {
+        file: 'sandbox_generated.move',
+        startLine: 3,
+        startColumn: 9,
+        endColumn: 40,
+        label: "Invalid 'use'. Unbound module",
+      },
+    });
+    expect(result.diagnostics[0].suggestedFix?.description).toMatch(/Move\.toml/);
+    expect(calls[0].workspaceExisted).toBe(true);
+  });
+
+  it('binds undeclared named addresses to the dev address and removes the workspace afterwards', async () => {
+    const { runner, calls } = fixtureRunner(() => ({ exitCode: 0, stdout: '{"Result": []}', stderr: '' }));
+
+    const result = await new MoveCompiler({ runner, devAddress: '0xbeef' }).compile(SOURCE, 'sandbox_generated.move');
+
+    expect(result).toMatchObject({ success: true, diagnostics: [] });
+    expect(calls[0].args.slice(0, 2)).toEqual(['move', 'compile']);
+    expect(calls[0].args).toContain('MyToken=0xbeef');
+    await expect(fs.stat(calls[0].cwd)).rejects.toThrow();
+  });
+
+  it('removes the workspace when setting it up fails', async () => {
+    const sandboxDirs = async () => (await fs.readdir(os.tmpdir())).filter(name => name.startsWith('move-sandbox-'));
+    const before = await sandboxDirs();
+    const { runner, calls } = fixtureRunner(() => ({ exitCode: 0, stdout: '', stderr: '' }));
+
+    const compiler = new MoveCompiler({ runner, packageDir: path.join(os.tmpdir(), 'no-such-package') });
+
+    await expect(compiler.compile(SOURCE, 'sandbox_generated.move')).rejects.toThrow(/ENOENT/);
+    expect(calls).toHaveLength(0);
+    expect(await sandboxDirs()).toEqual(before);
+  });
+
+  it('turns a CLI failure without compiler diagnostics into an error', async () => {
+    const { runner } = fixtureRunner(() => ({
+      exitCode: 1,
+      stdout: '{\n  "Error": "Unable to resolve packages for package \'defi_suite\'"\n}',
+      stderr: '',
+    }));
+
+    const result = await new MoveCompiler({ runner }).compile(SOURCE, 'sandbox_generated.move');
+
+    expect(result.success).toBe(false);
+    expect(result.diagnostics).toEqual([
+      { severity: 'error', source: 'compiler', message: "Unable to resolve packages for package 'defi_suite'" },
+    ]);
+  });
+
+  it('suggests prefixing unused variables with an underscore', async () => {
+    const { runner } = fixtureRunner(dir => ({
+      exitCode: 0,
+      stdout: '',
+      stderr: [
+        'warning[W09002]: unused variable',
+        `  ┌─ ${dir}/sources/sandbox_generated.move:2:30`,
+        '  │',
+        '2 │     public entry fun mint(amount: u64) {}',
+        "  │                           ^^^^^^ Unused local variable 'amount'. Consider removing or prefixing with an underscore: '_amount'",
+      ].join('\n'),
+    }));
+
+    const result = await new MoveCompiler({ runner }).compile(SOURCE, 'sandbox_generated.move');
+
+    expect(result.success).toBe(true);
+    expect(result.diagnostics[0].severity).toBe('warning');
+    expect(result.diagnostics[0].suggestedFix?.replacement).toBe('_amount');
+  });
+});
+
+describe('MoveCompiler.test', () => {
+  it('parses pass and fail lines and the abort of a failing test', async () => {
+    const { runner, calls } = fixtureRunner(dir => ({
+      exitCode: 1,
+      stderr: '',
+      stdout: [
+        'Running Move unit tests',
+        '[ PASS    ] 0xcafe::token_tests::test_create',
+        '[ FAIL    ] 0xcafe::token_tests::test_mint',
+        '',
+        'Test failures:',
+        '',
+        'Failures in 0xcafe::token_tests:',
+        '',
+        '┌── test_mint ──────',
+        '│ error[E11001]: test failure',
+        `│    ┌─ ${dir}/sources/sandbox_generated.move:71:9`,
+        '│    │',
+        '│ 71 │         assert!(false, 1);',
+        '│    │         ^^^^^^^^^^^^^^^^^ Test was not expected to error, but it aborted with code 1 originating in the module 0xcafe::Token rooted here',
+        '│',
+        '└──────────────────',
+        '',
+        'Test result: FAILED. Total tests: 2; passed: 1; failed: 1',
+      ].join('\n'),
+    }));
+
+    const testModule = 'module MyToken::token_tests {}';
+    const result = await new MoveCompiler({ runner }).test(SOURCE, 'sandbox_generated.move', [testModule]);
+
+    expect(calls[0].args.slice(0, 2)).toEqual(['move', 'test']);
+    expect(result.success).toBe(false);
+    // Failing tests exit non-zero; that alone is not a compiler error
+    expect(result.diagnostics).toEqual([]);
+    expect(result.tests).toEqual([
+      { name: '0xcafe::token_tests::test_create', status: 'pass' },
+      {
+        name: '0xcafe::token_tests::test_mint',
+        status: 'fail',
+        abortCode: 1,
+        abortModule: '0xcafe::Token',
+        message: 'Test was not expected to error, but it aborted with code 1 originating in the module 0xcafe::Token rooted here',
+        span: {
+          file: 'sandbox_generated.move',
+          startLine: 71,
+          startColumn: 9,
+          endLine: 71,
+          endColumn: 10,
+        },
+      },
+    ]);
+  });
+
+  it('succeeds when every test passes', async () => {
+    const { runner } = fixtureRunner(() => ({
+      exitCode: 0,
+      stderr: '',
+      stdout: '[ PASS    ] 0xcafe::token_tests::test_create\nTest result: OK. Total tests: 1; passed: 1; failed: 0',
+    }));
+
+    const result = await new MoveCompiler({ runner }).test(SOURCE, 'sandbox_generated.move', []);
+
+    expect(result.success).toBe(true);
+    expect(result.tests).toEqual([{ name: '0xcafe::token_tests::test_create', status: 'pass' }]);
+  });
+});
+
+describe('MoveCompiler.publish', () => {
+  it('binds the package addresses to the publisher and passes the key in a file, not on argv', async () => {
+    let key = '';
+    const { runner, calls } = fixtureRunner(() => ({ exitCode: 0, stdout: '{"Result": "Success"}', stderr: '' }));
+    const reading: CompilerRunner = {
+      async run(command, args, options) {
+        key = await fs.readFile(args[args.indexOf('--private-key-file') + 1], 'utf8');
+        return runner.run(command, args, options);
+      },
+    };
+
+    const result = await new MoveCompiler({ runner: reading }).publish(SOURCE, 'sandbox_generated.move', {
+      address: '0xa11ce',
+      privateKey: '0x1234',
+      nodeUrl: 'http://127.0.0.1:8080/v1',
+    });
+
+    expect(result.success).toBe(true);
+    expect(key).toBe('0x1234');
+    expect(calls[0].args).not.toContain('0x1234');
+    expect(calls[0].args).not.toContain('--private-key');
+    expect(calls[0].args[calls[0].args.indexOf('--named-addresses') + 1]).toBe('defi_suite=0xa11ce,MyToken=0xa11ce');
+    await expect(fs.stat(calls[0].cwd)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { lintMove } from '@/lib/move-linter';
+
+const FILE = 'sandbox_generated.move';
+
+const codes = (code: string) => lintMove(code, FILE).map(diagnostic => diagnostic.code);
+
+describe('lintMove', () => {
+  it('flags u64 multiplication unless it is widened first', () => {
+    const unsafe = `module 0xcafe::pool {
+    public fun get_amount_out(amount_in: u64, reserve_in: u64, reserve_out: u64): u64 {
+        let amount_in_with_fee = amount_in * 997;
+        amount_in_with_fee * reserve_out / (reserve_in * 1000 + amount_in_with_fee)
+    }
+}`;
+    const widened = `module 0xcafe::pool {
+    public fun get_amount_out(amount_in: u64, reserve_in: u64, reserve_out: u64): u64 {
+        (((amount_in as u128) * (reserve_out as u128) / (reserve_in as u128)) as u64)
+    }
+}`;
+
+    const findings = lintMove(unsafe, FILE).filter(diagnostic => diagnostic.code === 'overflow-risk');
+    expect(findings.length).toBeGreaterThan(0);
+    expect(findings[0]).toMatchObject({ severity: 'warning', source: 'linter', span: { file: FILE, startLine: 3 } });
+    expect(codes(widened)).not.toContain('overflow-risk');
+  });
+
+  it('flags mint functions anyone can call, but not ones that check the caller', () => {
+    const open = `module 0xcafe::token {
+    public entry fun mint(to: address, amount: u64) acquires Refs {
+        let refs = borrow_global<Refs>(@0xcafe);
+        primary_fungible_store::mint(&refs.mint_ref, to, amount);
+    }
+}`;
+    const checked = `module 0xcafe::token {
+    public entry fun mint(owner: &signer, to: address, amount: u64) acquires Refs {
+        assert!(signer::address_of(owner) == @0xcafe, E_NOT_OWNER);
+        let refs = borrow_global<Refs>(@0xcafe);
+        primary_fungible_store::mint(&refs.mint_ref, to, amount);
+    }
+}`;
+
+    const finding = lintMove(open, FILE).find(diagnostic => diagnostic.code === 'missing-owner-check');
+    expect(finding?.message).toMatch(/without taking a signer/);
+    expect(finding?.span).toMatchObject({ startLine: 2, label: 'no owner check' });
+    expect(codes(checked)).not.toContain('missing-owner-check');
+  });
+
+  it('flags borrow_global_mut without an exists check and suggests the assert', () => {
+    const code = `module 0xcafe::pool {
+    public entry fun swap(pool_addr: address) acquires Pool {
+        let pool = borrow_global_mut<Pool>(pool_addr);
+        pool.reserve_x = 0;
+    }
+    public entry fun sync(pool_addr: address) acquires Pool {
+        assert!(exists<Pool>(pool_addr), E_NOT_FOUND);
+        let pool = borrow_global_mut<Pool>(pool_addr);
+        pool.reserve_x = 0;
+    }
+}`;
+
+    const findings = lintMove(code, FILE).filter(diagnostic => diagnostic.code === 'unchecked-borrow');
+    expect(findings).toHaveLength(1);
+    expect(findings[0].span?.startLine).toBe(3);
+    expect(findings[0].suggestedFix?.replacement).toBe('assert!(exists<Pool>(pool_addr), E_NOT_FOUND);');
+  });
+
+  it('flags destroy_zero on withdrawn tokens', () => {
+    const code = `module 0xcafe::vault {
+    public entry fun stake(user: &signer, metadata: Object<Metadata>, amount: u64) {
+        let fa = primary_fungible_store::withdraw(user, metadata, amount);
+        fungible_asset::destroy_zero(fa);
+    }
+}`;
+
+    const finding = lintMove(code, FILE).find(diagnostic => diagnostic.code === 'destroy-nonzero');
+    expect(finding?.message).toMatch(/withdrawn on line 3/);
+    expect(finding?.span?.startLine).toBe(4);
+  });
+
+  it('ignores code in comments and byte strings', () => {
+    const code = `module 0xcafe::pool {
+    public fun describe(): vector<u8> {
+        // a * b would overflow
+        b"reserve_x * reserve_y"
+    }
+}`;
+
+    expect(lintMove(code, FILE)).toEqual([]);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { lintMove } from '@/lib/move-linter';
+import { renderTemplate } from '@/lib/move-templates';
+import { DEFAULT_SIMULATION_PARAMETERS } from '@/lib/sandbox';
+
+const U64_MAX = '18446744073709551615';
+const TYPES = ['token', 'pool', 'vault'] as const;
+
+describe('renderTemplate', () => {
+  it.each(TYPES)('renders the same %s for the same parameters', (type) => {
+    const first = renderTemplate(type, { ...DEFAULT_SIMULATION_PARAMETERS[type] });
+    const second = renderTemplate(type, { ...DEFAULT_SIMULATION_PARAMETERS[type] });
+
+    expect(second).toEqual(first);
+    expect(first.source).toBe('template');
+  });
+
+  it.each(TYPES)('renders a %s the linter has nothing to say about', (type) => {
+    const { code } = renderTemplate(type, DEFAULT_SIMULATION_PARAMETERS[type]);
+    expect(lintMove(code, 'sandbox_generated.move')).toEqual([]);
+  });
+
+  it('accepts amounts up to the largest u64', () => {
+    const token = { ...DEFAULT_SIMULATION_PARAMETERS.token, decimals: 0, totalSupply: U64_MAX };
+    const pool = { ...DEFAULT_SIMULATION_PARAMETERS.pool, initialLiquidityA: U64_MAX };
+
+    expect(renderTemplate('token', token).code).toContain(`const INITIAL_SUPPLY: u64 = ${U64_MAX};`);
+    expect(() => renderTemplate('pool', pool)).not.toThrow();
+  });
+
+  it.each([
+    ['token', { decimals: 0, totalSupply: '18446744073709551616' }, 'Total supply in base units does not fit in a u64'],
+    ['token', { decimals: 8, totalSupply: '1000000000000' }, 'Total supply in base units does not fit in a u64'],
+    ['pool', { initialLiquidityA: '18446744073709551616' }, 'Initial liquidity A does not fit in a u64'],
+    ['pool', { initialLiquidityB: '1.5' }, 'Initial liquidity B must be a whole number of base units'],
+    ['vault', { minDeposit: '18446744073709551616' }, 'Minimum deposit does not fit in a u64'],
+  ] as const)('rejects a %s with %j', (type, overrides, message) => {
+    expect(() => renderTemplate(type, { ...DEFAULT_SIMULATION_PARAMETERS[type], ...overrides })).toThrow(message);
+  });
+
+  it.each([
+    ['pool', 100, 'Pool fee must be at least 0% and below 100%'],
+    ['pool', -0.5, 'Pool fee must be at least 0% and below 100%'],
+    ['vault', 150, 'Vault fee must be at least 0% and below 100%'],
+  ] as const)('rejects a %s fee of %d%%', (type, fee, message) => {
+    expect(() => renderTemplate(type, { ...DEFAULT_SIMULATION_PARAMETERS[type], fee })).toThrow(message);
+  });
+
+  it('converts fees to basis points', () => {
+    expect(renderTemplate('pool', { ...DEFAULT_SIMULATION_PARAMETERS.pool, fee: 99.99 }).code).toContain('const FEE_BPS: u64 = 9999;');
+    expect(renderTemplate('vault', { ...DEFAULT_SIMULATION_PARAMETERS.vault, fee: 0 }).code).toContain('const FEE_BPS: u64 = 0;');
+  });
+});
@@ -0,0 +1,91 @@
+import { AccountAddress, Aptos, InputEntryFunctionData, createObjectAddress } from '@aptos-labs/ts-sdk';
+import { describe, expect, it } from 'vitest';
+import { AptosGasService } from '@/lib/aptos';
+import { MoveCompiler } from '@/lib/move-compiler';
+import { renderTemplate } from '@/lib/move-templates';
+import { CodeAssistant, DEFAULT_SIMULATION_PARAMETERS, SandboxService, inferSimulationType } from '@/lib/sandbox';
+
+const address = (value: unknown) => AccountAddress.from(String(value)).toString();
+
+describe('inferSimulationType', () => {
+  it('recognizes vaults, pools and tokens by what the module does', () => {
+    expect(inferSimulationType('module 0x1::yield {\n    public entry fun stake(user: &signer, amount: u64) {}\n}')).toBe('vault');
+    expect(inferSimulationType('module 0x1::amm {\n    struct Pool has key { reserve_x: u64 }\n}')).toBe('pool');
+    expect(inferSimulationType('module 0x1::coin {\n    public entry fun mint(to: address) {}\n}')).toBe('token');
+  });
+
+  it('matches at word starts only', () => {
+    expect(inferSimulationType('module 0x1::carpool_token {\n    public entry fun mint(to: address) {}\n}')).toBe('token');
+  });
+});
+
+// A node where only APT's metadata and tokens created through it exist. As on chain, simulating
+// a call fails when an object it is passed does not exist.
+function fakeNode() {
+  const metadata = [address('0xa')];
+  const simulated: InputEntryFunctionData[] = [];
+
+  const client = {
+    fundAccount: async () => ({}),
+    transaction: {
+      build: {
+        simple: async ({ data }: { data: InputEntryFunctionData }) => ({ data }),
+      },
+      simulate: {
+        simple: async ({ transaction }: { transaction: { data: InputEntryFunctionData } }) => {
+          const { data } = transaction;
+          simulated.push(data);
+          const objects = data.functionArguments.filter(argument => /^0x/.test(String(argument))).map(address);
+          const success = objects.every(object => metadata.indexOf(object) !== -1);
+          return [{
+            success,
+            vm_status: success ? 'Executed successfully' : 'EOBJECT_DOES_NOT_EXIST',
+            gas_used: '500',
+            gas_unit_price: '100',
+            max_gas_amount: '1000',
+          }];
+        },
+      },
+    },
+    signAndSubmitTransaction: async ({ signer, transaction }: {
+      signer: { accountAddress: AccountAddress };
+      transaction: { data: InputEntryFunctionData };
+    }) => {
+      const name = new TextDecoder().decode(transaction.data.functionArguments[0] as Uint8Array);
+      metadata.push(createObjectAddress(signer.accountAddress, name).toString());
+      return { hash: '0x1' };
+    },
+    waitForTransaction: async () => ({ success: true }),
+  };
+
+  return { gasService: new AptosGasService(client as unknown as Aptos), metadata, simulated };
+}
+
+// Compiles everything cleanly and has no AI audit, so only gas estimation is exercised
+function gasOnlySandbox(gasService: AptosGasService) {
+  return new SandboxService({
+    gasService,
+    compiler: new MoveCompiler({ runner: { run: async () => ({ exitCode: 0, stdout: '{"Result": []}', stderr: '' }) } }),
+    assistant: { analyzeCode: async () => { throw new Error('offline'); } } as unknown as CodeAssistant,
+  });
+}
+
+describe('AptosGasService.estimate on the default parameters', () => {
+  it.each(['token', 'pool', 'vault'] as const)('prices the default %s', async (type) => {
+    const { gasService, metadata, simulated } = fakeNode();
+    const sandbox = gasOnlySandbox(gasService);
+    const parameters = DEFAULT_SIMULATION_PARAMETERS[type];
+    const simulation = await sandbox.createSimulation(type, parameters, renderTemplate(type, parameters).code);
+
+    const { result } = await sandbox.testCode(simulation.id);
+
+    expect(result?.diagnostics?.filter(diagnostic => /gas|simulate/i.test(diagnostic.message))).toEqual([]);
+    expect(result?.gasReport).toHaveLength(1);
+    expect(result?.gasReport?.[0]).toMatchObject({ success: true, gasUsed: 500, aptCost: 0.0005 });
+    expect(result?.gasEstimate).toBe('500');
+    if (type === 'pool') {
+      // APT and the default token, created by the gas sender beforehand
+      expect(simulated[0].functionArguments.map(address)).toEqual([address('0xa'), metadata[1]]);
+    }
+  });
+});
@@ -0,0 +1,282 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { AccountAddress, Aptos, InputEntryFunctionData, createObjectAddress } from '@aptos-labs/ts-sdk';
+import { describe, expect, it } from 'vitest';
+import { CompilerRunner, MoveCompiler } from '@/lib/move-compiler';
+import { renderTemplate } from '@/lib/move-templates';
+import { DEFAULT_SIMULATION_PARAMETERS, SANDBOX_SOURCE_FILE, defaultScenario } from '@/lib/sandbox';
+import { ScenarioBackend, ScenarioRunner } from '@/lib/scenario-runner';
+import { SandboxScenario, ScenarioRunReport } from '@/types';
+
+const APT_FUNDING = '100000000';
+const address = (value: unknown) => AccountAddress.from(String(value)).toString();
+const text = (value: unknown) => new TextDecoder().decode(value as Uint8Array);
+
+class Abort extends Error {}
+
+// An in-process chain with the entry functions the default scenarios call: dexxy-contracts'
+// token module and the template modules from move-templates.ts, following their Move sources.
+// A failing assert aborts the transaction and leaves state as it was.
+class FakeChain {
+  private balances: Record<string, bigint> = {};
+  // Token metadata address -> creator, and accounts holding dexxy TokenRefs / template Pools and Vaults
+  private tokens: Record<string, string> = {};
+  private tokenCreators: string[] = [];
+  private pools: Record<string, { x: string; y: string; reserveX: bigint; reserveY: bigint }> = {};
+  private vaults: Record<string, { token: string; deposits: Record<string, bigint> }> = {};
+  private committed: Record<string, { success: boolean; vm_status: string }> = {};
+  private publisher?: string;
+  // The published module's constants, e.g. SYMBOL and FEE_BPS
+  private constants: Record<string, string> = {};
+  publisherKey?: string;
+
+  client = {
+    fundAccount: async () => ({}),
+    transaction: {
+      build: {
+        simple: async ({ sender, data }: { sender: AccountAddress; data: InputEntryFunctionData }) => ({ sender, data }),
+      },
+    },
+    signAndSubmitTransaction: async ({ transaction }: { transaction: { sender: AccountAddress; data: InputEntryFunctionData } }) => {
+      const hash = `0x${Object.keys(this.committed).length + 1}`;
+      const snapshot = { ...this.balances };
+      try {
+        this.execute(address(transaction.sender), transaction.data);
+        this.committed[hash] = { success: true, vm_status: 'Executed successfully' };
+      } catch (error) {
+        this.balances = snapshot;
+        this.committed[hash] = { success: false, vm_status: (error as Error).message };
+      }
+      return { hash };
+    },
+    waitForTransaction: async ({ transactionHash }: { transactionHash: string }) => ({
+      type: 'user_transaction',
+      hash: transactionHash,
+      gas_used: '10',
+      events: [],
+      changes: [],
+      ...this.committed[transactionHash],
+    }),
+    view: async ({ payload }: { payload: InputEntryFunctionData }) => {
+      if (payload.function === '0x1::coin::balance') return [APT_FUNDING];
+      const [owner, asset] = payload.functionArguments.map(address);
+      if (!this.tokens[asset]) throw new Error('Metadata does not exist');
+      return [String(this.balances[`${owner}/${asset}`] || BigInt(0))];
+    },
+  };
+
+  backend(): ScenarioBackend {
+    return {
+      start: async () => ({ client: this.client as unknown as Aptos, nodeUrl: 'http://127.0.0.1:8080/v1' }),
+      stop: async () => {},
+    };
+  }
+
+  // Publishing binds the package's named addresses to the publisher, whose key the CLI reads from a file
+  runner(): CompilerRunner {
+    return {
+      run: async (_command, args, { cwd }) => {
+        const namedAddresses = args[args.indexOf('--named-addresses') + 1];
+        this.publisher = address(namedAddresses.match(/defi_suite=(\w+)/)![1]);
+        this.publisherKey = await fs.readFile(args[args.indexOf('--private-key-file') + 1], 'utf8');
+
+        const source = await fs.readFile(path.join(cwd, 'sources', SANDBOX_SOURCE_FILE), 'utf8');
+        const constant = /const (\w+): [^=]+= (?:b"([^"]*)"|(\d+));/g;
+        let match: RegExpExecArray | null;
+        while ((match = constant.exec(source)) !== null) {
+          this.constants[match[1]] = match[2] !== undefined ? match[2] : match[3];
+        }
+        return { exitCode: 0, stdout: '{"Result": "Success"}', stderr: '' };
+      },
+    };
+  }
+
+  private execute(sender: string, data: InputEntryFunctionData) {
+    const [moduleAddress, moduleName, fn] = data.function.split('::');
+    const args = data.functionArguments;
+    const published = address(moduleAddress) === this.publisher;
+    const id = published && moduleName !== 'token' ? `template::${fn}` : `${published ? 'dexxy' : address(moduleAddress)}::${moduleName}::${fn}`;
+
+    switch (id) {
+      case 'dexxy::token::create_token':
+        return this.createToken(sender, text(args[0]), BigInt(String(args[3])));
+      case 'dexxy::token::mint':
+      case 'template::mint': {
+        const metadata = Object.keys(this.tokens).find(key => this.tokens[key] === sender);
+        if (!metadata) throw new Abort('Move abort: E_NOT_OWNER(0x1)');
+        this.credit(address(args[0]), metadata, BigInt(String(args[1])));
+        return;
+      }
+      case `${address('0x1')}::primary_fungible_store::transfer`:
+        return this.transfer(sender, address(args[1]), address(args[0]), BigInt(String(args[2])));
+      case 'template::create_token':
+        return this.createToken(sender, this.constants.SYMBOL, BigInt(this.constants.INITIAL_SUPPLY));
+      case 'template::create_pool': {
+        const [x, y] = [address(args[0]), address(args[1])];
+        if (!this.tokens[x] || !this.tokens[y]) throw new Abort('Metadata does not exist');
+        if (this.pools[sender]) throw new Abort('Move abort: E_POOL_EXISTS(0x1)');
+        if (x === y) throw new Abort('Move abort: E_IDENTICAL_TOKENS(0x3)');
+        this.pools[sender] = { x, y, reserveX: BigInt(0), reserveY: BigInt(0) };
+        return;
+      }
+      case 'template::add_liquidity': {
+        const pool = this.pools[address(args[0])];
+        if (!pool) throw new Abort('Move abort: E_POOL_NOT_FOUND(0x2)');
+        const [amountX, amountY] = [BigInt(String(args[1])), BigInt(String(args[2]))];
+        this.transfer(sender, this.reserves(args[0]), pool.x, amountX);
+        this.transfer(sender, this.reserves(args[0]), pool.y, amountY);
+        pool.reserveX += amountX;
+        pool.reserveY += amountY;
+        return;
+      }
+      case 'template::swap_x_for_y': {
+        const pool = this.pools[address(args[0])];
+        if (!pool) throw new Abort('Move abort: E_POOL_NOT_FOUND(0x2)');
+        const amountIn = BigInt(String(args[1]));
+        const withFee = amountIn * (BigInt(10000) - BigInt(this.constants.FEE_BPS));
+        const amountOut = withFee * pool.reserveY / (pool.reserveX * BigInt(10000) + withFee);
+        if (amountOut === BigInt(0) || amountOut < BigInt(String(args[2]))) throw new Abort('Move abort: E_INSUFFICIENT_OUTPUT(0x6)');
+        this.transfer(sender, this.reserves(args[0]), pool.x, amountIn);
+        this.transfer(this.reserves(args[0]), sender, pool.y, amountOut);
+        pool.reserveX += amountIn;
+        pool.reserveY -= amountOut;
+        return;
+      }
+      case 'template::create_vault':
+        if (this.vaults[sender]) throw new Abort('Move abort: E_VAULT_EXISTS(0x2)');
+        this.vaults[sender] = { token: address(args[0]), deposits: {} };
+        return;
+      case 'template::deposit': {
+        const vault = this.vaults[address(args[0])];
+        const amount = BigInt(String(args[1]));
+        if (amount < BigInt(this.constants.MIN_DEPOSIT)) throw new Abort('Move abort: E_BELOW_MIN_DEPOSIT(0x4)');
+        if (!vault) throw new Abort('Move abort: E_VAULT_NOT_FOUND(0x3)');
+        this.transfer(sender, this.reserves(args[0]), vault.token, amount);
+        vault.deposits[sender] = (vault.deposits[sender] || BigInt(0)) + amount;
+        return;
+      }
+      case 'template::withdraw': {
+        const vault = this.vaults[address(args[0])];
+        const amount = BigInt(String(args[1]));
+        if (!vault) throw new Abort('Move abort: E_VAULT_NOT_FOUND(0x3)');
+        if ((vault.deposits[sender] || BigInt(0)) < amount) throw new Abort('Move abort: E_INSUFFICIENT_BALANCE(0x6)');
+        vault.deposits[sender] -= amount;
+        const fee = amount * BigInt(this.constants.FEE_BPS) / BigInt(10000);
+        this.transfer(this.reserves(args[0]), sender, vault.token, amount - fee);
+        return;
+      }
+      default:
+        throw new Abort(`${data.function} is not modelled by the fake chain`);
+    }
+  }
+
+  // Both token modules create the metadata as a named object of the creator, who holds the refs
+  private createToken(sender: string, seed: string, supply: bigint) {
+    const metadata = createObjectAddress(AccountAddress.from(sender), seed).toString();
+    if (this.tokens[metadata] || this.tokenCreators.indexOf(sender) !== -1) throw new Abort('RESOURCE_ALREADY_EXISTS');
+    this.tokens[metadata] = sender;
+    this.tokenCreators.push(sender);
+    this.credit(sender, metadata, supply);
+  }
+
+  // Pool reserves and vault deposits are held by an object of the pool or vault owner
+  private reserves(owner: unknown): string {
+    return `${address(owner)}#reserves`;
+  }
+
+  private transfer(from: string, to: string, metadata: string, amount: bigint) {
+    if (!this.tokens[metadata]) throw new Abort('Metadata does not exist');
+    this.credit(from, metadata, -amount);
+    this.credit(to, metadata, amount);
+  }
+
+  private credit(owner: string, metadata: string, amount: bigint) {
+    const key = `${owner}/${metadata}`;
+    const balance = (this.balances[key] || BigInt(0)) + amount;
+    if (balance < BigInt(0)) throw new Abort('Move abort in fungible_asset: EINSUFFICIENT_BALANCE(0x10004)');
+    this.balances[key] = balance;
+  }
+}
+
+// Runs the default scenario for a template rendered from the default parameters
+async function runDefault(type: 'token' | 'pool' | 'vault', edit: (scenario: SandboxScenario) => SandboxScenario = s => s) {
+  const chain = new FakeChain();
+  const scenarioRunner = new ScenarioRunner({
+    backend: chain.backend(),
+    compiler: new MoveCompiler({ runner: chain.runner() }),
+  });
+  const parameters = DEFAULT_SIMULATION_PARAMETERS[type];
+  const { code } = renderTemplate(type, parameters);
+  const scenario = edit(defaultScenario({ type, code, parameters }));
+
+  const run = await scenarioRunner.run(code, SANDBOX_SOURCE_FILE, scenario);
+  const finalBalances = run.report.steps[run.report.steps.length - 1].balances;
+  return { ...run, chain, scenario, finalBalances };
+}
+
+const succeeded = (scenario: SandboxScenario) => scenario.steps.map(step => [step.label, 'Executed successfully']);
+const stepStatuses = (report: ScenarioRunReport) => report.steps.map(step => [step.label, step.vmStatus]);
+
+describe('defaultScenario', () => {
+  it('creates, mints and transfers a token with the token module', async () => {
+    const { success, diagnostics, report, chain, scenario, finalBalances } = await runDefault('token');
+
+    expect(diagnostics).toEqual([]);
+    expect(chain.publisherKey).toMatch(/^0x[0-9a-f]{64}$/);
+    expect(scenario.steps.map(step => step.function)).toEqual([
+      'token_addr::my_token::create_token',
+      'token_addr::my_token::mint',
+      '0x1::primary_fungible_store::transfer',
+    ]);
+    expect(stepStatuses(report)).toEqual(succeeded(scenario));
+    expect(success).toBe(true);
+    expect(finalBalances.alice).toMatchObject({ APT: APT_FUNDING, MTK: '100000000200000' });
+    expect(finalBalances.bob).toMatchObject({ MTK: '300000' });
+  });
+
+  it('adds liquidity to and swaps through the pool module', async () => {
+    const { success, report, scenario, finalBalances } = await runDefault('pool');
+
+    expect(scenario.steps.slice(-3).map(step => step.function)).toEqual([
+      'pool_addr::my_pool::create_pool',
+      'pool_addr::my_pool::add_liquidity',
+      'pool_addr::my_pool::swap_x_for_y',
+    ]);
+    expect(stepStatuses(report)).toEqual(succeeded(scenario));
+    expect(success).toBe(true);
+    // 1000 FOO in at 0.3% fee against 100000/100000 reserves gives 987 BAR out
+    expect(finalBalances.alice).toMatchObject({ FOO: '650000', BAR: '400000' });
+    expect(finalBalances.bob).toMatchObject({ FOO: '249000', BAR: '1000987' });
+  });
+
+  it('deposits into and withdraws from the vault module', async () => {
+    const { success, report, scenario, finalBalances } = await runDefault('vault');
+
+    expect(stepStatuses(report)).toEqual(succeeded(scenario));
+    expect(success).toBe(true);
+    // The 100 deposit comes back less the 2.5% withdrawal fee, which stays in the vault
+    expect(finalBalances.alice).toMatchObject({ FOO: '999900' });
+    expect(finalBalances.bob).toMatchObject({ FOO: '98' });
+  });
+
+  it('stops at a step that aborts', async () => {
+    const { success, report } = await runDefault('pool', scenario => ({
+      ...scenario,
+      steps: scenario.steps.map(step =>
+        step.label === 'alice sends FOO to bob' ? { ...step, functionArguments: ['@alice/FOO', '@bob', '2000000'] } : step
+      ),
+    }));
+
+    expect(success).toBe(false);
+    expect(report.steps).toHaveLength(4);
+    expect(report.steps[3]).toMatchObject({ success: false, vmStatus: expect.stringMatching(/EINSUFFICIENT_BALANCE/) });
+  });
+
+  it('asks for a scenario when the module lacks the functions it calls', () => {
+    const code = 'module pool_addr::amm {\n    public entry fun create_pool(creator: &signer) {}\n}';
+
+    expect(() => defaultScenario({ type: 'pool', code, parameters: DEFAULT_SIMULATION_PARAMETERS.pool })).toThrow(
+      'pool_addr::amm has no entry function create_pool(&signer, Object<Metadata>, Object<Metadata>); pass a scenario written for this code'
+    );
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { assistantActionSchema, validateProductParameters } from '@/lib/schemas';
+
+describe('assistantActionSchema', () => {
+  it('parses a token action, converting numbers and applying defaults', () => {
+    const parsed = assistantActionSchema.parse({
+      action: 'create_token',
+      parameters: { name: ' Foo ', symbol: 'FOO', totalSupply: 1000000 },
+    });
+
+    expect(parsed).toEqual({
+      action: 'create_token',
+      parameters: { name: 'Foo', symbol: 'FOO', decimals: 8, totalSupply: '1000000' },
+      confidence: 1,
+    });
+  });
+
+  it('applies the pool and vault fee defaults', () => {
+    const pool = assistantActionSchema.parse({
+      action: 'create_pool',
+      parameters: { name: 'FOO/APT', tokenA: '0xabc', tokenB: '0xa', initialLiquidityA: '100', initialLiquidityB: '50' },
+      confidence: '0.8',
+    });
+    const vault = assistantActionSchema.parse({
+      action: 'create_vault',
+      parameters: { name: 'APT vault', token: '0xa', strategy: 'staking', minDeposit: '1.5' },
+    });
+
+    expect(pool).toMatchObject({ parameters: { fee: 0.3 }, confidence: 0.8 });
+    expect(vault).toMatchObject({ parameters: { fee: 2, minDeposit: '1.5' } });
+  });
+
+  it('accepts queries without parameters', () => {
+    expect(assistantActionSchema.parse({ action: 'query' })).toEqual({ action: 'query', confidence: 1 });
+  });
+
+  it('rejects unknown actions', () => {
+    expect(assistantActionSchema.safeParse({ action: 'drain_wallet', parameters: {} }).success).toBe(false);
+  });
+});
+
+describe('validateProductParameters', () => {
+  it('returns the parsed parameters', () => {
+    const result = validateProductParameters('token', { name: 'Foo', symbol: 'FOO', decimals: '6', totalSupply: '10.5' });
+    expect(result).toEqual({ success: true, data: { name: 'Foo', symbol: 'FOO', decimals: 6, totalSupply: '10.5' } });
+  });
+
+  it('requires parameters', () => {
+    expect(validateProductParameters('vault', undefined)).toEqual({ success: false, errors: ['Vault parameters are required'] });
+  });
+
+  it('lists each problem once, by field', () => {
+    const result = validateProductParameters('pool', {
+      name: '',
+      tokenA: '0xa',
+      tokenB: '0xa',
+      fee: 120,
+      initialLiquidityA: '-5',
+      initialLiquidityB: 0,
+    });
+
+    expect(result).toEqual({
+      success: false,
+      errors: [
+        'Pool name is required',
+        'Fee must be between 0 and 100',
+        'Initial liquidity A must be a plain decimal number, e.g. "1000000"',
+        'Initial liquidity A must be greater than 0',
+        'Initial liquidity B must be greater than 0',
+        'Token A and Token B must be different',
+      ],
+    });
+  });
+
+  it('rejects symbols longer than ten characters and fractional decimals', () => {
+    const result = validateProductParameters('token', { name: 'Foo', symbol: 'ABCDEFGHIJK', decimals: 2.5, totalSupply: '1' });
+    expect(result).toEqual({
+      success: false,
+      errors: ['Token symbol must be 1-10 characters', 'Decimals must be a whole number'],
+    });
+  });
+});
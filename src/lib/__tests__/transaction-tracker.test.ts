@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { AptosContractService } from '@/lib/aptos';
+import { TransactionTracker } from '@/lib/transaction-tracker';
+
+const HASH = '0x' + 'ab'.repeat(32);
+const pending = { type: 'pending_transaction', hash: HASH };
+const committed = { type: 'user_transaction', hash: HASH, success: false, gas_used: '12', vm_status: 'Move abort: E_ZERO_AMOUNT' };
+
+// A node whose long-poll runs `wait` and whose lookups answer from `statuses`, the last one repeating
+function fakeNode(wait: () => Promise<unknown>, statuses: unknown[] = []) {
+  const calls = { wait: 0, status: 0 };
+  const service = {
+    waitForTransaction: async () => {
+      calls.wait++;
+      return wait();
+    },
+    getTransactionStatus: async () => statuses[Math.min(calls.status++, statuses.length - 1)],
+  } as unknown as AptosContractService;
+  return { service, calls };
+}
+
+const timedOut = async () => {
+  throw new Error('Transaction timed out');
+};
+
+describe('TransactionTracker', () => {
+  it('takes the outcome from the long-poll when the transaction commits in time', async () => {
+    const { service, calls } = fakeNode(async () => ({ ...committed, success: true }));
+
+    const outcome = await new TransactionTracker(service).track(HASH);
+
+    expect(outcome).toEqual({ status: 'success', gasUsed: '12', vmStatus: 'Move abort: E_ZERO_AMOUNT' });
+    expect(calls).toEqual({ wait: 1, status: 0 });
+  });
+
+  it('polls once the long-poll gives up', async () => {
+    const { service, calls } = fakeNode(timedOut, [null, pending, committed]);
+
+    const outcome = await new TransactionTracker(service, { pollIntervalMs: 1 }).track(HASH);
+
+    expect(outcome).toEqual({ status: 'failed', gasUsed: '12', vmStatus: 'Move abort: E_ZERO_AMOUNT' });
+    expect(calls).toEqual({ wait: 1, status: 3 });
+  });
+
+  it('reports the transaction as still pending at the deadline', async () => {
+    const { service, calls } = fakeNode(timedOut, [pending]);
+    const started = Date.now();
+
+    const outcome = await new TransactionTracker(service, { pollIntervalMs: 5, timeoutMs: 30 }).track(HASH);
+
+    expect(outcome).toEqual({ status: 'pending' });
+    expect(Date.now() - started).toBeGreaterThanOrEqual(30);
+    expect(calls.status).toBeGreaterThan(1);
+  });
+
+  it('shares one follow-up between concurrent calls for a hash', async () => {
+    const { service, calls } = fakeNode(async () => committed);
+    const tracker = new TransactionTracker(service);
+
+    const [first, second] = await Promise.all([tracker.track(HASH), tracker.track(HASH)]);
+
+    expect(second).toBe(first);
+    expect(calls.wait).toBe(1);
+    await tracker.track(HASH);
+    expect(calls.wait).toBe(2);
+  });
+});
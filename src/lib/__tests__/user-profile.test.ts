@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { inferProfile } from '@/lib/user-profile';
+import { ExpertiseLevel, RiskTolerance } from '@/types';
+
+describe('inferProfile', () => {
+  it.each<[string, string[], ExpertiseLevel, RiskTolerance]>([
+    ['a self-described newcomer', ["I'm new to crypto, what is staking?"], 'beginner', 'moderate'],
+    ['DeFi vocabulary', ['What APY does the liquidity pool pay?', 'How much slippage on a swap?'], 'intermediate', 'moderate'],
+    [
+      'Move internals and protocol mechanics',
+      ['How does acquires work with borrow_global_mut in an entry fun?', 'What about impermanent loss on a constant product AMM?'],
+      'advanced',
+      'moderate',
+    ],
+    ['a newcomer quoting a function path', ["I'm new here, what does 0x1::coin::transfer do?"], 'beginner', 'moderate'],
+    ['caution alone', ['I want the safest place for my stablecoins'], 'beginner', 'conservative'],
+    ['chasing yield', ['Show me the highest APY, I want to maximize returns'], 'intermediate', 'aggressive'],
+    ['caution and appetite in equal measure', ['Is it safe?', 'Where is the highest yield?'], 'intermediate', 'moderate'],
+  ])('reads %s', (_case, messages, expertise, riskTolerance) => {
+    expect(inferProfile(messages)).toEqual({ expertise, riskTolerance, source: 'inferred' });
+  });
+
+  it.each<[string, string[]]>([
+    ['no messages', []],
+    ['small talk', ['hello there', 'thanks!']],
+    ['signals older than the last 30 messages', ["I'm a beginner", ...new Array(30).fill('hello')]],
+  ])('is null for %s', (_case, messages) => {
+    expect(inferProfile(messages)).toBeNull();
+  });
+});
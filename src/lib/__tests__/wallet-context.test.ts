@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { AptosContractService } from '@/lib/aptos';
+import { WalletContextService, WalletSnapshot } from '@/lib/wallet-context';
+import { Transaction, Vault } from '@/types';
+
+const snapshot: WalletSnapshot = {
+  wallet: { connected: true, address: '0xa11ce', network: 'testnet' },
+  tokens: [],
+  pools: [],
+  vaults: [],
+  transactions: [],
+};
+
+// Only the reads WalletContextService makes for a wallet with no tokens or pools
+const contracts = (stake: { amount: string; lastStakeTime: string }) => ({
+  getAptBalance: async () => '150000000',
+  getUserStake: async () => stake,
+}) as unknown as AptosContractService;
+
+const vault = (contractAddress: string, decimals: number) => ({
+  name: `Vault ${contractAddress}`,
+  contractAddress,
+  token: { symbol: 'STK', decimals },
+}) as Vault;
+
+const deposit = (to: string, status: Transaction['status']): Transaction => ({
+  hash: `0x${to}${status}`,
+  type: 'deposit',
+  status,
+  from: '0xa11ce',
+  to,
+  timestamp: new Date(0),
+});
+
+describe('WalletContextService', () => {
+  it('reads the stake even when the store knows no vaults', async () => {
+    const service = new WalletContextService(contracts({ amount: '250000000', lastStakeTime: '1700000000' }));
+
+    const context = await service.build(snapshot);
+
+    expect(context).toMatchObject({
+      address: '0xa11ce',
+      aptBalance: '1.50',
+      stake: { amount: '2.50', since: '2023-11-14T22:13:20.000Z' },
+      unavailable: [],
+    });
+  });
+
+  it('reports an empty stake as never staked', async () => {
+    const service = new WalletContextService(contracts({ amount: '0', lastStakeTime: '0' }));
+
+    const context = await service.build(snapshot);
+
+    expect(context?.stake).toEqual({ amount: '0.00', since: 'never staked' });
+  });
+
+  it('formats the stake in the token of the vault last staked in', async () => {
+    const service = new WalletContextService(contracts({ amount: '250000000', lastStakeTime: '1700000000' }));
+    const vaults = [vault('0xa', 8), vault('0xb', 6), vault('0xc', 2)];
+
+    const context = await service.build({
+      ...snapshot,
+      vaults,
+      // Newest first; the failed stake into 0xc never happened
+      transactions: [deposit('0xc', 'failed'), deposit('0xb', 'success'), deposit('0xa', 'success')],
+    });
+    expect(context?.stake?.amount).toBe('250.00');
+
+    // A different vault's decimals are not served from the cache
+    const other = await service.build({ ...snapshot, vaults, transactions: [deposit('0xc', 'success')] });
+    expect(other?.stake?.amount).toBe('2,500,000.00');
+  });
+
+  it('is null without a connected wallet', async () => {
+    const service = new WalletContextService(contracts({ amount: '0', lastStakeTime: '0' }));
+    expect(await service.build({ ...snapshot, wallet: { connected: false } })).toBeNull();
+  });
+});
@@ -0,0 +1,72 @@
+import { InputEntryFunctionData } from '@aptos-labs/ts-sdk';
+import { PoolParameters, TokenParameters, Transaction, VaultParameters } from '@/types';
+import { dexxy, metadataAddress, toBaseUnits } from './aptos';
+
+export type ProductAction = 'create_token' | 'create_pool' | 'create_vault';
+
+export interface ActionPayload {
+  label: string;
+  type: Transaction['type'];
+  data: InputEntryFunctionData;
+}
+
+// Parameters each action puts on chain. dexxy-contracts has no pool or vault name, fee, strategy
+// or minimum deposit, and add_liquidity aborts for any non-zero amount, so those stay off chain.
+export const SUBMITTED_PARAMETERS: Record<ProductAction, string[]> = {
+  create_token: ['name', 'symbol', 'decimals', 'totalSupply', 'iconUri', 'projectUri'],
+  create_pool: ['tokenA', 'tokenB'],
+  create_vault: ['token'],
+};
+
+// Entry-function calls that carry out a chat action, in submission order
+export function actionPayloads(
+  action: ProductAction,
+  parameters: TokenParameters | PoolParameters | VaultParameters
+): ActionPayload[] {
+  switch (action) {
+    case 'create_token': {
+      const params = parameters as TokenParameters;
+      return [{
+        label: `Create ${params.symbol}`,
+        type: 'deploy',
+        data: dexxy.entry('token', 'create_token', [
+          params.name,
+          params.symbol,
+          params.decimals,
+          toBaseUnits(params.totalSupply, params.decimals),
+          params.iconUri || '',
+          params.projectUri || '',
+        ]),
+      }];
+    }
+    case 'create_pool': {
+      const params = parameters as PoolParameters;
+      return [{
+        label: 'Create pool',
+        type: 'create_pool',
+        data: dexxy.entry('liquidity_pool', 'create_pool', [metadataAddress(params.tokenA), metadataAddress(params.tokenB)]),
+      }];
+    }
+    case 'create_vault': {
+      const params = parameters as VaultParameters;
+      // Staked and reward token are the same; the reward rate is not a vault parameter
+      const token = metadataAddress(params.token);
+      return [{
+        label: 'Create vault',
+        type: 'create_vault',
+        data: dexxy.entry('yield_vault', 'create_vault', [token, token, '0']),
+      }];
+    }
+  }
+}
+
+// Readable argument for review screens: bytes as b"text", bigints as decimal strings
+export function describeArgument(argument: unknown): string {
+  if (argument instanceof Uint8Array) {
+    return `b"${new TextDecoder().decode(argument)}"`;
+  }
+  if (typeof argument === 'bigint') {
+    return argument.toString();
+  }
+  return typeof argument === 'string' ? argument : JSON.stringify(argument);
+}
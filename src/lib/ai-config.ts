@@ -1,4 +1,33 @@
+import { LLMProviderName } from '@/types';
+
+// Server-side model settings. LLM_PROVIDER picks the backend:
+// - openrouter: hosted models, needs OPENROUTER_API_KEY
+// - local: any OpenAI-compatible endpoint such as Ollama or llama.cpp's server
+// - mock: canned replies from llm-fixtures.ts, for offline development and tests
 export const AI_CONFIG = {
-  systemPrompt: "lets use simple language, answer in simple easy language as per user level and normal format instead of",
-  model: "qwen-2.5-72b-instruct",
-};
\ No newline at end of file
+  provider: (process.env.LLM_PROVIDER || 'openrouter') as LLMProviderName,
+  temperature: 0.3,
+  maxTokens: 3000,
+  retries: 2,
+  // Let chat replies call the read-only on-chain tools in chain-tools.ts. Turn off for models
+  // without tool calling support.
+  chatTools: process.env.CHAT_TOOLS !== 'false',
+  // Chat history sent with each turn; older messages are summarized once it exceeds maxTokens
+  chatHistory: {
+    maxTokens: Number(process.env.CHAT_HISTORY_TOKENS) || 6000,
+    // Always sent verbatim, along with pinned messages
+    recentMessages: 6,
+  },
+  openrouter: {
+    baseUrl: process.env.OPENROUTER_BASE_URL || 'https://openrouter.ai/api/v1',
+    apiKey: process.env.OPENROUTER_API_KEY,
+    model: process.env.LLM_MODEL || 'qwen/qwen-2.5-coder-32b-instruct',
+  },
+  local: {
+    baseUrl: process.env.LLM_LOCAL_BASE_URL || 'http://localhost:11434/v1',
+    apiKey: process.env.LLM_LOCAL_API_KEY,
+    model: process.env.LLM_MODEL || 'qwen2.5-coder:7b',
+  },
+};
+
+export type AIConfig = typeof AI_CONFIG;
@@ -1,19 +1,47 @@
 import { Aptos, AptosConfig, Network } from '@aptos-labs/ts-sdk';
 import { 
   Account, 
+  AccountAddressInput,
   Ed25519PrivateKey, 
-  Ed25519PublicKey 
+  Ed25519PublicKey,
+  InputEntryFunctionData,
+  PublicKey,
+  parseTypeTag,
 } from '@aptos-labs/ts-sdk';
+import { GasEstimate } from '@/types';
+import {
+  DEXXY_ABI,
+  DexxyEntryFunction,
+  DexxyEntryArguments,
+  DexxyFunctionAbi,
+  DexxyModuleName,
+  DexxyViewArguments,
+  DexxyViewFunction,
+  DexxyViewResult,
+  findFunctionAbi,
+} from './dexxy-abi';
+import type { TransactionSigner } from './signers';
 
 // Aptos configuration
 const APTOS_NETWORK = (process.env.NEXT_PUBLIC_APTOS_NETWORK as Network) || Network.TESTNET;
 
-const config = new AptosConfig({ 
-  network: APTOS_NETWORK,
-  fullnode: process.env.NEXT_PUBLIC_APTOS_NODE_URL || 'https://fullnode.testnet.aptoslabs.com'
-});
+// Build a client for any node, e.g. a localnet for sandbox gas simulation and tests
+export const createAptosClient = (options: {
+  network?: Network;
+  fullnode?: string;
+  faucet?: string;
+} = {}) => {
+  const network = options.network || APTOS_NETWORK;
+  return new Aptos(new AptosConfig({
+    network,
+    fullnode: options.fullnode,
+    faucet: options.faucet,
+  }));
+};
 
-export const aptos = new Aptos(config);
+export const aptos = createAptosClient({
+  fullnode: process.env.NEXT_PUBLIC_APTOS_NODE_URL || 'https://fullnode.testnet.aptoslabs.com',
+});
 
 // Smart contract addresses
 export const CONTRACT_ADDRESSES = {
@@ -22,17 +50,200 @@ export const CONTRACT_ADDRESSES = {
   VAULT: process.env.NEXT_PUBLIC_VAULT_CONTRACT_ADDRESS || '0x1234567890abcdef',
 };
 
+const OCTAS_PER_APT = 100_000_000;
+
+const utf8Bytes = (value: string) => new TextEncoder().encode(value);
+
+// Module addresses for the dexxy-contracts package
+export const DEXXY_MODULE_ADDRESSES: Record<DexxyModuleName, string> = {
+  token: CONTRACT_ADDRESSES.TOKEN,
+  liquidity_pool: CONTRACT_ADDRESSES.POOL,
+  yield_vault: CONTRACT_ADDRESSES.VAULT,
+};
+
+// Typed entry payloads and view calls for the dexxy-contracts modules.
+// Payloads carry the ABI, so the SDK checks argument types locally instead of fetching the module.
+export class DexxyClient {
+  private aptos: Aptos;
+  private addresses: Record<DexxyModuleName, string>;
+
+  constructor(client: Aptos = aptos, addresses: Record<DexxyModuleName, string> = DEXXY_MODULE_ADDRESSES) {
+    this.aptos = client;
+    this.addresses = addresses;
+  }
+
+  entry<M extends DexxyModuleName, F extends DexxyEntryFunction<M>>(
+    module: M,
+    name: F,
+    args: DexxyEntryArguments<M, F>
+  ): InputEntryFunctionData {
+    const abi = findFunctionAbi(module, name);
+    const params = abi.params.filter(param => param !== '&signer');
+
+    return {
+      function: `${this.addresses[module]}::${module}::${name}`,
+      typeArguments: [],
+      functionArguments: this.checkArguments(module, name, params, args as unknown[]),
+      abi: {
+        typeParameters: [],
+        parameters: params.map(param => parseTypeTag(param)),
+      },
+    };
+  }
+
+  async view<M extends DexxyModuleName, F extends DexxyViewFunction<M>>(
+    module: M,
+    name: F,
+    args: DexxyViewArguments<M, F>
+  ): Promise<DexxyViewResult<M, F>> {
+    const abi = findFunctionAbi(module, name);
+
+    const result = await this.aptos.view({
+      payload: {
+        function: `${this.addresses[module]}::${module}::${name}`,
+        typeArguments: [],
+        functionArguments: this.checkArguments(module, name, abi.params, args as unknown[]),
+        abi: {
+          typeParameters: [],
+          parameters: abi.params.map(param => parseTypeTag(param)),
+          returnTypes: abi.return.map(type => parseTypeTag(type)),
+        },
+      },
+    });
+
+    return result as unknown as DexxyViewResult<M, F>;
+  }
+
+  // Compare the bundled ABI with the module deployed at the configured address; returns the differences
+  async verifyDeployedAbi(module: DexxyModuleName): Promise<string[]> {
+    const deployed = await this.aptos.getAccountModule({
+      accountAddress: this.addresses[module],
+      moduleName: module,
+    });
+
+    if (!deployed.abi) {
+      return [`${module} has no ABI at ${this.addresses[module]}`];
+    }
+
+    const differences: string[] = [];
+    for (const expected of DEXXY_ABI[module].exposed_functions as readonly DexxyFunctionAbi[]) {
+      const actual = deployed.abi.exposed_functions.find(fn => fn.name === expected.name);
+      if (!actual) {
+        differences.push(`${module}::${expected.name} is not deployed`);
+        continue;
+      }
+
+      const expectedSignature = `(${expected.params.join(', ')}): (${expected.return.join(', ')})`;
+      const actualSignature = `(${actual.params.join(', ')}): (${actual.return.join(', ')})`;
+      if (expectedSignature !== actualSignature || expected.is_entry !== actual.is_entry || expected.is_view !== actual.is_view) {
+        differences.push(`${module}::${expected.name} is ${actualSignature} on chain, expected ${expectedSignature}`);
+      }
+    }
+
+    return differences;
+  }
+
+  // Arity check plus UTF-8 encoding of string arguments to vector<u8> parameters
+  private checkArguments(module: string, name: string, params: readonly string[], args: unknown[]) {
+    if (args.length !== params.length) {
+      throw new Error(`${module}::${name} expects ${params.length} arguments, got ${args.length}`);
+    }
+
+    return args.map((arg, index) =>
+      params[index] === 'vector<u8>' && typeof arg === 'string' ? utf8Bytes(arg) : arg
+    ) as InputEntryFunctionData['functionArguments'];
+  }
+}
+
+export const dexxy = new DexxyClient();
+
+// Gas estimation by simulating transactions on a node
+export class AptosGasService {
+  private aptos: Aptos;
+
+  constructor(client: Aptos = aptos) {
+    this.aptos = client;
+  }
+
+  // Simulate a payload as `sender`; without signerPublicKey the auth key check is skipped
+  async estimate(
+    sender: AccountAddressInput,
+    data: InputEntryFunctionData,
+    signerPublicKey?: PublicKey
+  ): Promise<GasEstimate> {
+    const transaction = await this.aptos.transaction.build.simple({ sender, data });
+
+    const [simulation] = await this.aptos.transaction.simulate.simple({
+      signerPublicKey,
+      transaction,
+      options: {
+        estimateGasUnitPrice: true,
+        estimateMaxGasAmount: true,
+      },
+    });
+
+    const gasUsed = Number(simulation.gas_used);
+    const gasUnitPrice = Number(simulation.gas_unit_price);
+
+    return {
+      function: data.function,
+      success: simulation.success,
+      vmStatus: simulation.vm_status,
+      gasUsed,
+      gasUnitPrice,
+      maxGasAmount: Number(simulation.max_gas_amount),
+      aptCost: (gasUsed * gasUnitPrice) / OCTAS_PER_APT,
+    };
+  }
+
+  // Funded throwaway sender for simulations; only works on networks with a faucet (local, devnet)
+  async createFundedAccount(amount: number = OCTAS_PER_APT): Promise<Account> {
+    const account = Account.generate();
+    await this.aptos.fundAccount({ accountAddress: account.accountAddress, amount });
+    return account;
+  }
+
+  // Submit a payload as a throwaway sender, to set up state that later simulations need
+  async execute(account: Account, data: InputEntryFunctionData): Promise<void> {
+    const transaction = await this.aptos.transaction.build.simple({ sender: account.accountAddress, data });
+    const { hash } = await this.aptos.signAndSubmitTransaction({ signer: account, transaction });
+    await this.aptos.waitForTransaction({ transactionHash: hash });
+  }
+}
+
+export const gasService = new AptosGasService();
+
 // Helper functions for smart contract interactions
 export class AptosContractService {
   private aptos: Aptos;
+  private gas: AptosGasService;
+  private dexxy: DexxyClient;
 
   constructor() {
     this.aptos = aptos;
+    this.gas = gasService;
+    this.dexxy = dexxy;
   }
 
-  // Token creation
+  // Simulate first so failing calls are caught and gas is known before anything is signed.
+  // Public for prebuilt payloads (e.g. chat actions); prefer the typed methods below.
+  async submit(signer: TransactionSigner, data: InputEntryFunctionData) {
+    const gasEstimate = await this.gas.estimate(signer.address, data, signer.publicKey);
+    if (!gasEstimate.success) {
+      throw new Error(`Transaction simulation failed: ${gasEstimate.vmStatus}`);
+    }
+
+    const { hash } = await signer.signAndSubmit(data, {
+      gasUnitPrice: gasEstimate.gasUnitPrice,
+      maxGasAmount: gasEstimate.maxGasAmount,
+    });
+
+    return { hash, gasEstimate };
+  }
+
+  // Token creation; initialSupply is in base units
   async createToken(
-    account: Account,
+    signer: TransactionSigner,
     parameters: {
       name: string;
       symbol: string;
@@ -42,95 +253,112 @@ export class AptosContractService {
       projectUri?: string;
     }
   ) {
-    const { name, symbol, decimals, initialSupply, iconUri, projectUri } = parameters;
+    const { name, symbol, decimals, initialSupply, iconUri = '', projectUri = '' } = parameters;
+    return this.submit(signer, this.dexxy.entry('token', 'create_token', [
+      name, symbol, decimals, initialSupply, iconUri, projectUri,
+    ]));
+  }
 
-    const transaction = await this.aptos.transaction.build.simple({
-      sender: account.accountAddress,
-      data: {
-        function: `${CONTRACT_ADDRESSES.TOKEN}::token::create_token`,
-        typeArguments: [],
-        functionArguments: [
-          Buffer.from(name, 'utf8'),
-          Buffer.from(symbol, 'utf8'),
-          decimals,
-          BigInt(initialSupply),
-          Buffer.from(iconUri || '', 'utf8'),
-          Buffer.from(projectUri || '', 'utf8'),
-        ],
-      },
-    });
+  // Only the token's creator can mint or burn
+  async mint(signer: TransactionSigner, to: string, amount: string) {
+    return this.submit(signer, this.dexxy.entry('token', 'mint', [to, amount]));
+  }
 
-    return await this.aptos.signAndSubmitTransaction({
-      signer: account,
-      transaction,
-    });
+  async burn(signer: TransactionSigner, amount: string) {
+    return this.submit(signer, this.dexxy.entry('token', 'burn', [amount]));
   }
 
-  // Pool creation
+  // Pool creation over two fungible asset metadata objects
   async createPool(
-    account: Account,
+    signer: TransactionSigner,
     parameters: {
-      name: string;
-      tokenA: string;
-      tokenB: string;
-      fee: number;
-      initialLiquidityA: string;
-      initialLiquidityB: string;
+      tokenX: string;
+      tokenY: string;
     }
   ) {
-    const { name, tokenA, tokenB, fee, initialLiquidityA, initialLiquidityB } = parameters;
-
-    const transaction = await this.aptos.transaction.build.simple({
-      sender: account.accountAddress,
-      data: {
-        function: `${CONTRACT_ADDRESSES.POOL}::liquidity_pool::create_pool`,
-        typeArguments: [tokenA, tokenB],
-        functionArguments: [
-          Buffer.from(name, 'utf8'),
-          fee,
-          BigInt(initialLiquidityA),
-          BigInt(initialLiquidityB),
-        ],
-      },
-    });
+    return this.submit(signer, this.dexxy.entry('liquidity_pool', 'create_pool', [parameters.tokenX, parameters.tokenY]));
+  }
 
-    return await this.aptos.signAndSubmitTransaction({
-      signer: account,
-      transaction,
-    });
+  // Pools live at their creator's address
+  async addLiquidity(signer: TransactionSigner, poolAddress: string, amountX: string, amountY: string) {
+    return this.submit(signer, this.dexxy.entry('liquidity_pool', 'add_liquidity', [poolAddress, amountX, amountY]));
+  }
+
+  async swapXForY(signer: TransactionSigner, poolAddress: string, amountIn: string, minAmountOut: string) {
+    return this.submit(signer, this.dexxy.entry('liquidity_pool', 'swap_x_for_y', [poolAddress, amountIn, minAmountOut]));
+  }
+
+  async getReserves(poolAddress: string) {
+    const [reserveX, reserveY] = await this.dexxy.view('liquidity_pool', 'get_reserves', [poolAddress]);
+    return { reserveX, reserveY };
   }
 
   // Vault creation
   async createVault(
-    account: Account,
+    signer: TransactionSigner,
     parameters: {
-      name: string;
-      token: string;
-      strategy: string;
-      fee: number;
-      minDeposit: string;
+      stakedToken: string;
+      rewardToken: string;
+      rewardRate: string;
     }
   ) {
-    const { name, token, strategy, fee, minDeposit } = parameters;
-
-    const transaction = await this.aptos.transaction.build.simple({
-      sender: account.accountAddress,
-      data: {
-        function: `${CONTRACT_ADDRESSES.VAULT}::yield_vault::create_vault`,
-        typeArguments: [token],
-        functionArguments: [
-          Buffer.from(name, 'utf8'),
-          Buffer.from(strategy, 'utf8'),
-          fee,
-          BigInt(minDeposit),
-        ],
+    const { stakedToken, rewardToken, rewardRate } = parameters;
+    return this.submit(signer, this.dexxy.entry('yield_vault', 'create_vault', [stakedToken, rewardToken, rewardRate]));
+  }
+
+  // Vaults live at their creator's address
+  async stake(signer: TransactionSigner, vaultAddress: string, amount: string) {
+    return this.submit(signer, this.dexxy.entry('yield_vault', 'stake', [vaultAddress, amount]));
+  }
+
+  async unstake(signer: TransactionSigner, vaultAddress: string, amount: string) {
+    return this.submit(signer, this.dexxy.entry('yield_vault', 'unstake', [vaultAddress, amount]));
+  }
+
+  async claimRewards(signer: TransactionSigner, vaultAddress: string) {
+    return this.submit(signer, this.dexxy.entry('yield_vault', 'claim_rewards', [vaultAddress]));
+  }
+
+  async getUserStake(userAddress: string) {
+    const [amount, lastStakeTime] = await this.dexxy.view('yield_vault', 'get_user_stake', [userAddress]);
+    return { amount, lastStakeTime };
+  }
+
+  async getVaultInfo(vaultAddress: string) {
+    const [totalStaked, rewardRatePerSecond, lastUpdateTime] = await this.dexxy.view('yield_vault', 'get_vault_info', [vaultAddress]);
+    return { totalStaked, rewardRatePerSecond, lastUpdateTime };
+  }
+
+  // Reads below throw on failure (unlike getAccountBalance), so callers can tell "0" from "unknown"
+
+  // APT balance in octas
+  async getAptBalance(accountAddress: string) {
+    const octas = await this.aptos.getAccountAPTAmount({ accountAddress });
+    return String(octas);
+  }
+
+  // Balance of a fungible asset in the owner's primary store, in base units
+  async getFungibleAssetBalance(ownerAddress: string, metadataAddress: string) {
+    const [balance] = await this.aptos.view<[string]>({
+      payload: {
+        function: '0x1::primary_fungible_store::balance',
+        typeArguments: ['0x1::fungible_asset::Metadata'],
+        functionArguments: [ownerAddress, metadataAddress],
       },
     });
+    return balance;
+  }
 
-    return await this.aptos.signAndSubmitTransaction({
-      signer: account,
-      transaction,
-    });
+  async getTransaction(transactionHash: string) {
+    return this.aptos.getTransactionByHash({ transactionHash });
+  }
+
+  async getModuleAbi(accountAddress: string, moduleName: string) {
+    const accountModule = await this.aptos.getAccountModule({ accountAddress, moduleName });
+    if (!accountModule.abi) {
+      throw new Error(`${accountAddress}::${moduleName} has no ABI`);
+    }
+    return accountModule.abi;
   }
 
   // Get account balance
@@ -175,16 +403,18 @@ export class AptosContractService {
     }
   }
 
-  // Estimate gas for transaction
-  // async estimateGas(transaction: any) {
-  //   try {
-  //     const gasEstimate = await this.aptos.estimateGasPrice();
-  //     return gasEstimate;
-  //   } catch (error) {
-  //     console.error('Error estimating gas:', error);
-  //     return null;
-  //   }
-  // }
+  // Wait for a submitted transaction to commit; resolves for failed (aborted) transactions too
+  async waitForTransaction(transactionHash: string, timeoutSecs: number = 30) {
+    return this.aptos.waitForTransaction({
+      transactionHash,
+      options: { timeoutSecs, checkSuccess: false },
+    });
+  }
+
+  // Estimate gas for a payload without submitting it
+  async estimateGas(sender: AccountAddressInput, data: InputEntryFunctionData, signerPublicKey?: PublicKey) {
+    return this.gas.estimate(sender, data, signerPublicKey);
+  }
 }
 
 export const contractService = new AptosContractService();
@@ -215,3 +445,26 @@ export const parseBalance = (balance: string, decimals: number = 8) => {
   const num = parseFloat(balance);
   return (num * Math.pow(10, decimals)).toString();
 };
+
+// APT's fungible asset metadata object, paired with 0x1::aptos_coin::AptosCoin
+export const APT_METADATA_ADDRESS = '0xa';
+
+// Object<Metadata> argument for a token as users write it: its metadata address, or APT by name
+// or coin type. Other coin types have no known metadata address here, so they are rejected.
+export const metadataAddress = (token: string) => {
+  const value = token.trim();
+  if (/^0x[0-9a-fA-F]{1,64}$/.test(value)) {
+    return value;
+  }
+  if (/^apt$/i.test(value) || value === '0x1::aptos_coin::AptosCoin') {
+    return APT_METADATA_ADDRESS;
+  }
+  throw new Error(`"${token}" is not a fungible asset metadata address; use the token's 0x metadata address (APT is ${APT_METADATA_ADDRESS})`);
+};
+
+// Exact conversion of a decimal amount ("1000.5") to on-chain base units
+export const toBaseUnits = (amount: string, decimals: number) => {
+  const [whole, fraction = ''] = amount.trim().split('.');
+  const padded = (fraction + '0'.repeat(decimals)).slice(0, decimals);
+  return BigInt(whole || '0') * BigInt(`1${'0'.repeat(decimals)}`) + BigInt(padded || '0');
+};
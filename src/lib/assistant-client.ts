@@ -0,0 +1,180 @@
+import {
+  AIResponse,
+  AnalyzeCodeApiResponse,
+  ApiErrorResponse,
+  AuditReport,
+  ChatApiResponse,
+  ChatHistoryMessage,
+  ChatStreamEvent,
+  ConversationSummary,
+  ExplainConceptApiResponse,
+  GenerateCodeApiResponse,
+  GeneratedCode,
+  MoveTestResult,
+  PoolParameters,
+  RecommendationsApiResponse,
+  RepairCodeApiResponse,
+  SandboxDiagnostic,
+  TokenParameters,
+  UserProfile,
+  VaultParameters,
+  WalletContext,
+} from '@/types';
+import { readServerSentEvents } from './sse';
+
+interface StreamChatOptions {
+  message: string;
+  conversationHistory: ChatHistoryMessage[];
+  // The session's rolling summary, if the server has returned one
+  summary?: ConversationSummary;
+  // The connected wallet, from walletContextService
+  walletContext?: WalletContext | null;
+  profile?: UserProfile;
+  // Called with the reply so far, action block hidden
+  onText: (text: string) => void;
+  signal?: AbortSignal;
+}
+
+// Text to show while a reply streams in. The action block always ends the reply,
+// so everything from its opening tag (even partially received) is held back.
+export function visibleStreamText(content: string): string {
+  const start = content.indexOf('<action');
+  if (start !== -1) {
+    return content.slice(0, start).trimEnd();
+  }
+
+  const partialTag = content.match(/<[a-z]*$/);
+  if (partialTag && '<action'.startsWith(partialTag[0])) {
+    return content.slice(0, partialTag.index).trimEnd();
+  }
+  return content;
+}
+
+// Browser-side access to the assistant. Every call goes through an API route,
+// so the model key stays on the server.
+export class AssistantClient {
+  constructor(private baseUrl: string = '') {}
+
+  async chat(
+    message: string,
+    conversationHistory: ChatHistoryMessage[] = [],
+    summary?: ConversationSummary,
+    walletContext?: WalletContext | null,
+    profile?: UserProfile
+  ): Promise<AIResponse> {
+    const body = await this.post<ChatApiResponse>('/api/chat', { message, conversationHistory, summary, walletContext, profile });
+    return {
+      message: body.response,
+      action: body.action,
+      parameters: body.parameters,
+      confidence: body.confidence,
+      usage: body.usage,
+      summary: body.summary,
+      toolTrace: body.toolTrace,
+    };
+  }
+
+  // Resolve with the parsed reply once the stream completes.
+  // Aborting the signal rejects with an AbortError and stops generation server-side.
+  async streamChat({ message, conversationHistory, summary, walletContext, profile, onText, signal }: StreamChatOptions): Promise<AIResponse> {
+    const response = await this.request(
+      '/api/chat',
+      { message, conversationHistory, summary, walletContext, profile, stream: true },
+      signal
+    );
+    if (!response.body) {
+      throw new Error('Chat stream has no body');
+    }
+
+    let content = '';
+    let result: AIResponse | undefined;
+
+    await readServerSentEvents(response.body, (data) => {
+      const event = JSON.parse(data) as ChatStreamEvent;
+      switch (event.type) {
+        case 'token':
+          content += event.content;
+          onText(visibleStreamText(content));
+          break;
+        case 'done':
+          result = event.response;
+          break;
+        case 'error':
+          throw new Error(event.details || event.error);
+      }
+    });
+
+    if (!result) {
+      throw new Error('Chat stream ended before the reply was complete');
+    }
+    return result;
+  }
+
+  async generateTokenCode(parameters: TokenParameters, requirements?: string): Promise<GeneratedCode> {
+    const { code, source, explanation, deploymentSteps, securityNotes } =
+      await this.post<GenerateCodeApiResponse<TokenParameters>>('/api/token/generate', { parameters, requirements });
+    return { code, source, explanation, deploymentSteps, securityNotes };
+  }
+
+  async generatePoolCode(parameters: PoolParameters, requirements?: string): Promise<GeneratedCode> {
+    const { code, source, explanation, deploymentSteps, securityNotes } =
+      await this.post<GenerateCodeApiResponse<PoolParameters>>('/api/pool/generate', { parameters, requirements });
+    return { code, source, explanation, deploymentSteps, securityNotes };
+  }
+
+  async generateVaultCode(parameters: VaultParameters, requirements?: string): Promise<GeneratedCode> {
+    const { code, source, explanation, deploymentSteps, securityNotes } =
+      await this.post<GenerateCodeApiResponse<VaultParameters>>('/api/vault/generate', { parameters, requirements });
+    return { code, source, explanation, deploymentSteps, securityNotes };
+  }
+
+  async repairCode(
+    code: string,
+    type: 'token' | 'pool' | 'vault',
+    diagnostics: SandboxDiagnostic[],
+    tests: MoveTestResult[] = []
+  ): Promise<GeneratedCode> {
+    const { code: repaired, source, explanation, deploymentSteps, securityNotes } =
+      await this.post<RepairCodeApiResponse>('/api/repair', { code, type, diagnostics, tests });
+    return { code: repaired, source, explanation, deploymentSteps, securityNotes };
+  }
+
+  async analyzeCode(code: string, type: 'token' | 'pool' | 'vault'): Promise<AuditReport> {
+    const body = await this.post<AnalyzeCodeApiResponse>('/api/analyze', { code, type });
+    return body.audit;
+  }
+
+  async explainConcept(concept: string, profile?: UserProfile): Promise<string> {
+    const body = await this.post<ExplainConceptApiResponse>('/api/explain', { concept, profile });
+    return body.explanation;
+  }
+
+  async getRecommendations(userContext: string, profile?: UserProfile): Promise<string> {
+    const body = await this.post<RecommendationsApiResponse>('/api/recommendations', { userContext, profile });
+    return body.recommendations;
+  }
+
+  private async post<T>(path: string, payload: unknown): Promise<T> {
+    const response = await this.request(path, payload);
+    return response.json() as Promise<T>;
+  }
+
+  // Non-2xx responses are turned into an Error carrying the route's details
+  private async request(path: string, payload: unknown, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+      signal,
+    });
+
+    if (!response.ok) {
+      const body: Partial<ApiErrorResponse> = await response.json().catch(() => ({}));
+      throw new Error(body.details || body.error || `Request to ${path} failed: ${response.status}`);
+    }
+
+    return response;
+  }
+}
+
+export const assistantClient = new AssistantClient();
@@ -0,0 +1,192 @@
+import { isUserTransactionResponse } from '@aptos-labs/ts-sdk';
+import { z } from 'zod';
+import { LLMToolDefinition, OpenRouterToolCall, ToolCallTrace } from '@/types';
+import { AptosContractService, contractService, formatBalance } from './aptos';
+import { formatIssues } from './schemas';
+
+// Read-only on-chain tools the chat model can call. Nothing here signs or submits.
+
+interface ChainTool {
+  definition: LLMToolDefinition;
+  // Takes the model's arguments as sent and checks them before running
+  run: (args: unknown) => Promise<unknown>;
+}
+
+// Tool results go back into the prompt; long ones (module ABIs) are cut to this many characters
+const MAX_RESULT_CHARS = 4000;
+
+const address = (description: string) => ({ type: 'string', description: `${description}, 0x-prefixed hex` });
+const addressArg = (label: string) =>
+  z.string({ required_error: `${label} is required` }).regex(/^0x[0-9a-fA-F]{1,64}$/, `${label} must be a 0x-prefixed hex address`);
+
+function objectSchema(properties: Record<string, unknown>, required: string[] = Object.keys(properties)) {
+  return { type: 'object', properties, required, additionalProperties: false };
+}
+
+// A tool whose run() only ever sees arguments that passed its schema
+function chainTool<Args extends z.ZodTypeAny>(tool: {
+  definition: LLMToolDefinition;
+  args: Args;
+  run: (args: z.infer<Args>) => Promise<unknown>;
+}): ChainTool {
+  return {
+    definition: tool.definition,
+    run: async args => {
+      const parsed = tool.args.safeParse(args);
+      if (!parsed.success) {
+        throw new Error(formatIssues(parsed.error).join('; '));
+      }
+      return tool.run(parsed.data);
+    },
+  };
+}
+
+// JSON for the model; view results can hold bigints
+function serialize(value: unknown): string {
+  const json = JSON.stringify(value, (_, item) => (typeof item === 'bigint' ? item.toString() : item));
+  return json.length > MAX_RESULT_CHARS ? `${json.slice(0, MAX_RESULT_CHARS)}… (truncated)` : json;
+}
+
+export class ChainTools {
+  private tools: ChainTool[];
+
+  constructor(private contracts: AptosContractService = contractService) {
+    this.tools = [
+      chainTool({
+        definition: {
+          name: 'get_account_balance',
+          description: 'Balance of an account: APT by default, or a fungible asset when asset_address (its metadata object) is given.',
+          parameters: objectSchema({
+            address: address('Account address'),
+            asset_address: address('Fungible asset metadata address; omit for APT'),
+          }, ['address']),
+        },
+        args: z.object({ address: addressArg('address'), asset_address: addressArg('asset_address').optional() }),
+        run: async ({ address, asset_address }) => {
+          if (asset_address) {
+            const balance = await this.contracts.getFungibleAssetBalance(address, asset_address);
+            return { address, asset_address, balance, unit: 'base units (divide by 10^decimals of the asset)' };
+          }
+          const octas = await this.contracts.getAptBalance(address);
+          return { address, octas, apt: formatBalance(octas, 8) };
+        },
+      }),
+      chainTool({
+        definition: {
+          name: 'get_reserves',
+          description: 'Token reserves of a dexxy liquidity pool, in base units.',
+          parameters: objectSchema({ pool_address: address('Pool address') }),
+        },
+        args: z.object({ pool_address: addressArg('pool_address') }),
+        run: ({ pool_address }) => this.contracts.getReserves(pool_address),
+      }),
+      chainTool({
+        definition: {
+          name: 'get_vault_info',
+          description: 'Total staked, reward rate per second and last update time (unix seconds) of a dexxy yield vault.',
+          parameters: objectSchema({ vault_address: address('Vault address (its creator\'s account)') }),
+        },
+        args: z.object({ vault_address: addressArg('vault_address') }),
+        run: ({ vault_address }) => this.contracts.getVaultInfo(vault_address),
+      }),
+      chainTool({
+        definition: {
+          name: 'get_user_stake',
+          description: 'Amount a user has staked in the dexxy yield vault and when they last staked (unix seconds).',
+          parameters: objectSchema({ user_address: address('User account address') }),
+        },
+        args: z.object({ user_address: addressArg('user_address') }),
+        run: ({ user_address }) => this.contracts.getUserStake(user_address),
+      }),
+      chainTool({
+        definition: {
+          name: 'get_transaction',
+          description: 'Status, sender, function called, gas used and VM status of a transaction by hash.',
+          parameters: objectSchema({ hash: { type: 'string', description: 'Transaction hash, 0x-prefixed' } }),
+        },
+        args: z.object({ hash: z.string().regex(/^0x[0-9a-fA-F]{64}$/, 'hash must be 0x followed by 64 hex characters') }),
+        run: async ({ hash }) => {
+          const transaction = await this.contracts.getTransaction(hash);
+          if (transaction.type === 'pending_transaction') {
+            return { hash, status: 'pending' };
+          }
+          return {
+            hash,
+            type: transaction.type,
+            version: transaction.version,
+            success: transaction.success,
+            vmStatus: transaction.vm_status,
+            gasUsed: transaction.gas_used,
+            ...(isUserTransactionResponse(transaction) ? {
+              sender: transaction.sender,
+              function: 'function' in transaction.payload ? transaction.payload.function : undefined,
+              timestamp: new Date(Number(transaction.timestamp) / 1000).toISOString(),
+            } : {}),
+          };
+        },
+      }),
+      chainTool({
+        definition: {
+          name: 'get_module_abi',
+          description: 'Public functions and structs of a deployed Move module.',
+          parameters: objectSchema({
+            address: address('Address the module is published at'),
+            module: { type: 'string', description: 'Module name, e.g. liquidity_pool' },
+          }),
+        },
+        args: z.object({ address: addressArg('address'), module: z.string().regex(/^\w+$/, 'module must be a Move identifier') }),
+        run: async ({ address, module }) => {
+          const abi = await this.contracts.getModuleAbi(address, module);
+          return {
+            address: abi.address,
+            name: abi.name,
+            functions: abi.exposed_functions.map(fn => ({
+              name: fn.name,
+              visibility: fn.visibility,
+              isEntry: fn.is_entry,
+              isView: fn.is_view,
+              params: fn.params,
+              return: fn.return,
+            })),
+            structs: abi.structs.map(struct => ({
+              name: struct.name,
+              abilities: struct.abilities,
+              fields: struct.fields.map(field => `${field.name}: ${field.type}`),
+            })),
+          };
+        },
+      }),
+    ];
+  }
+
+  get definitions(): LLMToolDefinition[] {
+    return this.tools.map(tool => tool.definition);
+  }
+
+  // Run one call from the model. Never throws: failures are reported back to the model as
+  // { error } so it can correct the arguments or tell the user.
+  async run(call: OpenRouterToolCall): Promise<{ trace: ToolCallTrace; content: string }> {
+    const started = Date.now();
+    const trace: ToolCallTrace = { name: call.function.name, arguments: {}, durationMs: 0 };
+
+    try {
+      const tool = this.tools.find(candidate => candidate.definition.name === call.function.name);
+      if (!tool) {
+        throw new Error(`Unknown tool ${call.function.name}`);
+      }
+
+      trace.arguments = JSON.parse(call.function.arguments || '{}');
+      trace.result = await tool.run(trace.arguments);
+    } catch (error) {
+      trace.error = error instanceof Error ? error.message : 'Tool call failed';
+    }
+
+    trace.durationMs = Date.now() - started;
+    return {
+      trace,
+      content: serialize(trace.error ? { error: trace.error } : trace.result),
+    };
+  }
+}
+
+export const chainTools = new ChainTools();
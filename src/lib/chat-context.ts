@@ -0,0 +1,68 @@
+import { ChatHistoryMessage, ConversationSummary, OpenRouterMessage, TokenUsage } from '@/types';
+
+// Fitting chat history into a token budget. The model-facing part (summarizing) lives in
+// OpenRouterService; these helpers only count, split and trim.
+
+// Rough count: ~4 characters per token (as MockLLMProvider reports) plus a few per message for the role
+export function estimateTokens(messages: OpenRouterMessage[]): number {
+  return messages.reduce((sum, message) => sum + Math.ceil(message.content.length / 4) + 4, 0);
+}
+
+// Split history at the summary carried over from earlier turns. A summary whose message is
+// no longer in the history (e.g. it was deleted) is dropped and the full history used.
+export function splitAtSummary(history: ChatHistoryMessage[], summary?: ConversationSummary): {
+  summary?: ConversationSummary;
+  // Covered by the summary but pinned, so still sent verbatim
+  pinned: ChatHistoryMessage[];
+  rest: ChatHistoryMessage[];
+} {
+  const index = summary ? history.findIndex(message => message.id === summary.throughMessageId) : -1;
+  if (index === -1) {
+    return { pinned: [], rest: history };
+  }
+
+  return {
+    summary,
+    pinned: history.slice(0, index + 1).filter(message => message.pinned),
+    rest: history.slice(index + 1),
+  };
+}
+
+export function summaryMessage(summary: ConversationSummary): ChatHistoryMessage {
+  return {
+    role: 'system',
+    content: `Summary of the earlier conversation:\n${summary.content}`,
+    pinned: true,
+  };
+}
+
+// Drop the oldest unpinned messages until the rest fit. Pinned messages are kept even when
+// they alone exceed the budget.
+export function trimHistory(messages: ChatHistoryMessage[], maxTokens: number): ChatHistoryMessage[] {
+  const kept = [...messages];
+  let tokens = estimateTokens(kept);
+
+  for (let i = 0; i < kept.length && tokens > maxTokens;) {
+    if (kept[i].pinned) {
+      i++;
+      continue;
+    }
+    tokens -= estimateTokens([kept[i]]);
+    kept.splice(i, 1);
+  }
+  return kept;
+}
+
+// Providers get plain role/content messages
+export function toModelMessages(messages: ChatHistoryMessage[]): OpenRouterMessage[] {
+  return messages.map(({ role, content }) => ({ role, content }));
+}
+
+export function addUsage(a?: TokenUsage, b?: TokenUsage): TokenUsage | undefined {
+  if (!a || !b) return a || b;
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+  };
+}
@@ -0,0 +1,192 @@
+import { AccountAddressInput } from '@aptos-labs/ts-sdk';
+
+// ABIs of the dexxy-contracts modules, in the node's module ABI format
+// (GET /accounts/{address}/module/{name}, or build/<package>/abis after `aptos move compile --save-metadata`).
+// Keep in sync with dexxy-contracts/sources; DexxyClient.verifyDeployedAbi reports drift against a deployment.
+
+const METADATA_OBJECT = '0x1::object::Object<0x1::fungible_asset::Metadata>';
+
+export const DEXXY_ABI = {
+  token: {
+    name: 'token',
+    exposed_functions: [
+      {
+        name: 'create_token',
+        visibility: 'public',
+        is_entry: true,
+        is_view: false,
+        generic_type_params: [],
+        params: ['&signer', 'vector<u8>', 'vector<u8>', 'u8', 'u64', 'vector<u8>', 'vector<u8>'],
+        return: [],
+      },
+      {
+        name: 'mint',
+        visibility: 'public',
+        is_entry: true,
+        is_view: false,
+        generic_type_params: [],
+        params: ['&signer', 'address', 'u64'],
+        return: [],
+      },
+      {
+        name: 'burn',
+        visibility: 'public',
+        is_entry: true,
+        is_view: false,
+        generic_type_params: [],
+        params: ['&signer', 'u64'],
+        return: [],
+      },
+    ],
+  },
+  liquidity_pool: {
+    name: 'liquidity_pool',
+    exposed_functions: [
+      {
+        name: 'create_pool',
+        visibility: 'public',
+        is_entry: true,
+        is_view: false,
+        generic_type_params: [],
+        params: ['&signer', METADATA_OBJECT, METADATA_OBJECT],
+        return: [],
+      },
+      {
+        name: 'add_liquidity',
+        visibility: 'public',
+        is_entry: true,
+        is_view: false,
+        generic_type_params: [],
+        params: ['&signer', 'address', 'u64', 'u64'],
+        return: [],
+      },
+      {
+        name: 'swap_x_for_y',
+        visibility: 'public',
+        is_entry: true,
+        is_view: false,
+        generic_type_params: [],
+        params: ['&signer', 'address', 'u64', 'u64'],
+        return: [],
+      },
+      {
+        name: 'get_reserves',
+        visibility: 'public',
+        is_entry: false,
+        is_view: true,
+        generic_type_params: [],
+        params: ['address'],
+        return: ['u64', 'u64'],
+      },
+    ],
+  },
+  yield_vault: {
+    name: 'yield_vault',
+    exposed_functions: [
+      {
+        name: 'create_vault',
+        visibility: 'public',
+        is_entry: true,
+        is_view: false,
+        generic_type_params: [],
+        params: ['&signer', METADATA_OBJECT, METADATA_OBJECT, 'u64'],
+        return: [],
+      },
+      {
+        name: 'stake',
+        visibility: 'public',
+        is_entry: true,
+        is_view: false,
+        generic_type_params: [],
+        params: ['&signer', 'address', 'u64'],
+        return: [],
+      },
+      {
+        name: 'unstake',
+        visibility: 'public',
+        is_entry: true,
+        is_view: false,
+        generic_type_params: [],
+        params: ['&signer', 'address', 'u64'],
+        return: [],
+      },
+      {
+        name: 'claim_rewards',
+        visibility: 'public',
+        is_entry: true,
+        is_view: false,
+        generic_type_params: [],
+        params: ['&signer', 'address'],
+        return: [],
+      },
+      {
+        name: 'get_user_stake',
+        visibility: 'public',
+        is_entry: false,
+        is_view: true,
+        generic_type_params: [],
+        params: ['address'],
+        return: ['u64', 'u64'],
+      },
+      {
+        name: 'get_vault_info',
+        visibility: 'public',
+        is_entry: false,
+        is_view: true,
+        generic_type_params: [],
+        params: ['address'],
+        return: ['u64', 'u64', 'u64'],
+      },
+    ],
+  },
+} as const;
+
+export type DexxyModuleName = keyof typeof DEXXY_ABI;
+
+export type DexxyFunctionAbi = (typeof DEXXY_ABI)[DexxyModuleName]['exposed_functions'][number];
+
+type ExposedFunction<M extends DexxyModuleName> = (typeof DEXXY_ABI)[M]['exposed_functions'][number];
+
+type FunctionAbi<M extends DexxyModuleName, F extends string> = Extract<ExposedFunction<M>, { name: F }>;
+
+export type DexxyEntryFunction<M extends DexxyModuleName> = Extract<ExposedFunction<M>, { is_entry: true }>['name'];
+
+export type DexxyViewFunction<M extends DexxyModuleName> = Extract<ExposedFunction<M>, { is_view: true }>['name'];
+
+// vector<u8> strings are UTF-8 text; objects are passed by address
+type MoveArgument<T> =
+  T extends 'bool' ? boolean :
+  T extends 'u8' | 'u16' | 'u32' ? number :
+  T extends 'u64' | 'u128' | 'u256' ? number | bigint | string :
+  T extends 'vector<u8>' ? string | Uint8Array :
+  T extends 'address' | `0x1::object::Object<${string}>` ? AccountAddressInput :
+  never;
+
+// The node returns u64 and larger as decimal strings
+type MoveReturn<T> =
+  T extends 'bool' ? boolean :
+  T extends 'u8' | 'u16' | 'u32' ? number :
+  string;
+
+type WithoutSigner<P> = P extends readonly ['&signer', ...infer Rest] ? Rest : P;
+
+type MapArguments<P> = { -readonly [K in keyof P]: MoveArgument<P[K]> };
+
+type MapReturns<R> = { -readonly [K in keyof R]: MoveReturn<R[K]> };
+
+export type DexxyEntryArguments<M extends DexxyModuleName, F extends DexxyEntryFunction<M>> =
+  MapArguments<WithoutSigner<FunctionAbi<M, F>['params']>>;
+
+export type DexxyViewArguments<M extends DexxyModuleName, F extends DexxyViewFunction<M>> =
+  MapArguments<FunctionAbi<M, F>['params']>;
+
+export type DexxyViewResult<M extends DexxyModuleName, F extends DexxyViewFunction<M>> =
+  MapReturns<FunctionAbi<M, F>['return']>;
+
+export function findFunctionAbi(module: DexxyModuleName, name: string): DexxyFunctionAbi {
+  const abi = (DEXXY_ABI[module].exposed_functions as readonly DexxyFunctionAbi[]).find(fn => fn.name === name);
+  if (!abi) {
+    throw new Error(`${module}::${name} is not in the dexxy-contracts ABI`);
+  }
+  return abi;
+}
@@ -0,0 +1,115 @@
+import { GeneratedCode } from '@/types';
+
+type Section = 'code' | 'explanation' | 'deploymentSteps' | 'securityNotes';
+
+// Headings used by the generation prompts in openrouter.ts, plus common variants.
+// Sections not listed (e.g. a closing summary) are dropped.
+const SECTION_HEADINGS: Array<[RegExp, Section]> = [
+  [/^generated( pool| vault)? code$/, 'code'],
+  [/^(code explanation|explanation|pool economics|expected outcomes|strategy breakdown|yield mechanics)$/, 'explanation'],
+  [/^(deployment steps|deployment guide|deployment|implementation steps)$/, 'deploymentSteps'],
+  [/^(security notes|security features|security considerations|risk considerations|strategy risks|risks)$/, 'securityNotes'],
+];
+
+const FENCE = /^\s*```\s*([\w-]*)\s*$/;
+const LIST_ITEM = /^\s*(?:\d+[.)]|[-*•])\s+/;
+
+// " 🚀 Deployment Steps" / "## **Security Notes:**" → the section it starts, if any
+function headingSection(line: string): Section | undefined {
+  const trimmed = line.trim();
+  if (trimmed.length === 0 || trimmed.length > 60 || LIST_ITEM.test(trimmed)) return undefined;
+
+  const title = trimmed
+    .replace(/^[^A-Za-z]+/, '')
+    .replace(/[*_:\s]+$/, '')
+    .toLowerCase();
+  const match = SECTION_HEADINGS.find(([pattern]) => pattern.test(title));
+  return match && match[1];
+}
+
+function isMoveSource(source: string): boolean {
+  return /\b(module|script)\s+[\w:]*\s*\{/.test(source);
+}
+
+// Split a generation reply into compilable Move and the prose around it.
+// Every fenced Move block is kept, in order, so multi-module replies stay whole.
+export function parseGeneratedCode(response: string): GeneratedCode {
+  const blocks: string[] = [];
+  const prose: Record<Section, string[]> = { code: [], explanation: [], deploymentSteps: [], securityNotes: [] };
+
+  let section: Section | undefined;
+  let fence: { language: string; lines: string[] } | undefined;
+
+  response.split(/\r?\n/).forEach(line => {
+    const fenceMatch = line.match(FENCE);
+
+    if (fence) {
+      if (fenceMatch && !fenceMatch[1]) {
+        const source = fence.lines.join('\n').trim();
+        const isMove = fence.language === 'move' || (fence.language === '' && isMoveSource(source));
+        if (isMove) {
+          blocks.push(source);
+        } else if (section && section !== 'code') {
+          // Shell commands in deployment steps and the like stay with their section
+          prose[section].push(source);
+        }
+        fence = undefined;
+      } else {
+        fence.lines.push(line);
+      }
+      return;
+    }
+
+    if (fenceMatch) {
+      fence = { language: fenceMatch[1].toLowerCase(), lines: [] };
+      return;
+    }
+
+    const heading = headingSection(line);
+    if (heading) {
+      section = heading;
+    } else if (section && section !== 'code') {
+      prose[section].push(line);
+    }
+  });
+
+  // A reply that is bare Move source, with no fences at all
+  if (blocks.length === 0 && isMoveSource(response) && !response.includes('```')) {
+    blocks.push(response.trim());
+  }
+
+  if (blocks.length === 0) {
+    throw new Error('The generated response did not contain any Move code');
+  }
+
+  const text = (lines: string[]) => lines.join('\n').trim() || undefined;
+
+  return {
+    code: blocks.join('\n\n'),
+    source: 'assistant',
+    explanation: text(prose.explanation),
+    deploymentSteps: toSteps(prose.deploymentSteps),
+    securityNotes: text(prose.securityNotes),
+  };
+}
+
+// One step per list item; lines under an item (e.g. its CLI command) are kept with it
+function toSteps(lines: string[]): string[] | undefined {
+  const steps: string[] = [];
+  let continues = false;
+
+  lines.forEach(line => {
+    if (!line.trim()) return;
+
+    if (LIST_ITEM.test(line)) {
+      steps.push(line.replace(LIST_ITEM, '').trim());
+      continues = true;
+    } else if (continues) {
+      steps[steps.length - 1] += `\n${line.trim()}`;
+    } else {
+      steps.push(line.trim());
+    }
+  });
+
+  return steps.length > 0 ? steps : undefined;
+}
@@ -0,0 +1,83 @@
+import { PersistStorage, StorageValue } from 'zustand/middleware';
+
+const DB_NAME = 'aptos-assistant';
+const STORE_NAME = 'persisted-state';
+
+let database: Promise<IDBDatabase> | undefined;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return database;
+}
+
+async function run<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// zustand persist storage backed by IndexedDB, which holds far more than localStorage.
+// State is stored as a structured clone, so Dates come back as Dates. While a write is in
+// flight only the newest value per key is kept, so streaming updates don't queue up writes.
+// A value still under the same key in localStorage is read once and moved over.
+// Undefined where IndexedDB is unavailable (server render), which persist treats as no storage.
+export function createIndexedDBStorage<S>(): PersistStorage<S> | undefined {
+  if (typeof indexedDB === 'undefined') {
+    return undefined;
+  }
+
+  const pending: Record<string, StorageValue<S>> = {};
+  let writing = false;
+
+  const flush = async () => {
+    if (writing) return;
+    writing = true;
+    try {
+      let name: string | undefined;
+      while ((name = Object.keys(pending)[0]) !== undefined) {
+        const key = name;
+        const value = pending[key];
+        delete pending[key];
+        try {
+          await run('readwrite', store => store.put(value, key));
+          localStorage.removeItem(key);
+        } catch (error) {
+          console.warn(`Failed to persist ${key} to IndexedDB:`, error);
+        }
+      }
+    } finally {
+      writing = false;
+    }
+  };
+
+  return {
+    getItem: async (name) => {
+      if (pending[name]) return pending[name];
+
+      const stored = await run<StorageValue<S> | undefined>('readonly', store => store.get(name));
+      if (stored !== undefined) return stored;
+
+      const legacy = localStorage.getItem(name);
+      return legacy ? JSON.parse(legacy) as StorageValue<S> : null;
+    },
+    setItem: (name, value) => {
+      pending[name] = value;
+      return flush();
+    },
+    removeItem: async (name) => {
+      delete pending[name];
+      await run('readwrite', store => store.delete(name));
+      localStorage.removeItem(name);
+    },
+  };
+}
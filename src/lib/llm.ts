@@ -0,0 +1,373 @@
+import { z } from 'zod';
+import {
+  LLMCompletion,
+  LLMToolDefinition,
+  OpenRouterMessage,
+  OpenRouterResponse,
+  OpenRouterStreamChunk,
+  OpenRouterToolCall,
+} from '@/types';
+import { AI_CONFIG, AIConfig } from './ai-config';
+import { LLM_FIXTURES, LLMFixture } from './llm-fixtures';
+import { formatIssues } from './schemas';
+import { readServerSentEvents } from './sse';
+
+export interface CompletionOptions {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+  // Functions the model may call; calls come back as LLMCompletion.toolCalls
+  tools?: LLMToolDefinition[];
+}
+
+// A chat model backend. Messages use the OpenAI chat format, which every provider here speaks.
+export interface LLMProvider {
+  readonly name: string;
+  complete(messages: OpenRouterMessage[], options?: CompletionOptions): Promise<LLMCompletion>;
+  // Calls onToken with each content delta; resolves with the full completion
+  stream(
+    messages: OpenRouterMessage[],
+    onToken: (token: string) => void,
+    options?: CompletionOptions
+  ): Promise<LLMCompletion>;
+  // Completion parsed as JSON and validated against schema
+  structured<T>(
+    messages: OpenRouterMessage[],
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    options?: CompletionOptions
+  ): Promise<T>;
+}
+
+const STRUCTURED_INSTRUCTIONS =
+  'Respond with a single JSON object and nothing else: no prose, no markdown code fences.';
+
+// Models wrap JSON in fences or prose often enough that the outermost object is taken
+function extractJson(content: string): unknown {
+  const start = content.indexOf('{');
+  const end = content.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    throw new Error('Response contained no JSON object');
+  }
+  return JSON.parse(content.slice(start, end + 1));
+}
+
+// structured() on top of complete(): one retry, with the validation errors fed back
+abstract class BaseLLMProvider implements LLMProvider {
+  abstract readonly name: string;
+
+  abstract complete(messages: OpenRouterMessage[], options?: CompletionOptions): Promise<LLMCompletion>;
+
+  abstract stream(
+    messages: OpenRouterMessage[],
+    onToken: (token: string) => void,
+    options?: CompletionOptions
+  ): Promise<LLMCompletion>;
+
+  async structured<T>(
+    messages: OpenRouterMessage[],
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    options?: CompletionOptions,
+    attempts = 2
+  ): Promise<T> {
+    const conversation: OpenRouterMessage[] = [
+      ...messages,
+      { role: 'system', content: STRUCTURED_INSTRUCTIONS },
+    ];
+    let problem = '';
+
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      const { content } = await this.complete(conversation, options);
+
+      try {
+        const parsed = schema.safeParse(extractJson(content));
+        if (parsed.success) {
+          return parsed.data;
+        }
+        problem = formatIssues(parsed.error).join('; ');
+      } catch (error) {
+        problem = error instanceof Error ? error.message : 'Invalid JSON';
+      }
+
+      conversation.push(
+        { role: 'assistant', content },
+        { role: 'user', content: `That response was not valid: ${problem}. Reply with the corrected JSON object only.` }
+      );
+    }
+
+    throw new Error(`${this.name} structured output did not match the schema: ${problem}`);
+  }
+}
+
+export interface OpenAICompatibleConfig {
+  // Used in error messages, e.g. "OpenRouter API error: 500"
+  name: string;
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  // Hosted APIs reject unauthenticated calls; local servers usually take none
+  requireApiKey?: boolean;
+  headers?: Record<string, string>;
+  temperature?: number;
+  maxTokens?: number;
+  retries?: number;
+}
+
+// Any /chat/completions endpoint: OpenRouter, Ollama, llama.cpp, vLLM...
+export class OpenAICompatibleProvider extends BaseLLMProvider {
+  readonly name: string;
+
+  constructor(private config: OpenAICompatibleConfig) {
+    super();
+    this.name = config.name;
+  }
+
+  async complete(messages: OpenRouterMessage[], options: CompletionOptions = {}): Promise<LLMCompletion> {
+    const response = await this.post(messages, false, options);
+    const body = await response.json() as OpenRouterResponse;
+    const toolCalls = body.choices[0]?.message.tool_calls;
+
+    return {
+      content: body.choices[0]?.message.content || '',
+      model: body.model,
+      ...(toolCalls?.length ? { toolCalls } : {}),
+      usage: body.usage && {
+        promptTokens: body.usage.prompt_tokens,
+        completionTokens: body.usage.completion_tokens,
+        totalTokens: body.usage.total_tokens,
+      },
+    };
+  }
+
+  async stream(
+    messages: OpenRouterMessage[],
+    onToken: (token: string) => void,
+    options: CompletionOptions = {}
+  ): Promise<LLMCompletion> {
+    const response = await this.post(messages, true, options);
+    if (!response.body) {
+      throw new Error(`${this.name} API error: empty stream`);
+    }
+
+    const completion: LLMCompletion = { content: '', model: options.model || this.config.model };
+    const toolCalls: OpenRouterToolCall[] = [];
+    await readServerSentEvents(response.body, (data) => {
+      if (data === '[DONE]') return;
+
+      const chunk = JSON.parse(data) as OpenRouterStreamChunk;
+      if (chunk.error) {
+        throw new Error(`${this.name} API error: ${chunk.error.message}`);
+      }
+
+      if (chunk.model) completion.model = chunk.model;
+      if (chunk.usage) {
+        completion.usage = {
+          promptTokens: chunk.usage.prompt_tokens,
+          completionTokens: chunk.usage.completion_tokens,
+          totalTokens: chunk.usage.total_tokens,
+        };
+      }
+
+      const delta = chunk.choices[0]?.delta;
+      delta?.tool_calls?.forEach(part => {
+        const call = toolCalls[part.index] ||
+          (toolCalls[part.index] = { id: '', type: 'function', function: { name: '', arguments: '' } });
+        if (part.id) call.id = part.id;
+        if (part.function?.name) call.function.name += part.function.name;
+        if (part.function?.arguments) call.function.arguments += part.function.arguments;
+      });
+
+      const token = delta?.content;
+      if (token) {
+        completion.content += token;
+        onToken(token);
+      }
+    });
+
+    if (toolCalls.length > 0) {
+      completion.toolCalls = toolCalls.filter(Boolean);
+    }
+    return completion;
+  }
+
+  private async post(messages: OpenRouterMessage[], stream: boolean, options: CompletionOptions) {
+    const { name, baseUrl, apiKey, requireApiKey, headers, retries = 2 } = this.config;
+    let model = options.model || this.config.model;
+
+    if (requireApiKey && !apiKey) {
+      throw new Error(`${name} API key not configured`);
+    }
+
+    let lastError: unknown;
+
+    for (let i = 0; i <= retries; i++) {
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+          'Content-Type': 'application/json',
+          ...headers,
+        },
+        body: JSON.stringify({
+          model,
+          messages,
+          temperature: options.temperature ?? this.config.temperature,
+          max_tokens: options.maxTokens ?? this.config.maxTokens,
+          stream,
+          ...(stream ? { stream_options: { include_usage: true } } : {}),
+          ...(options.tools?.length
+            ? { tools: options.tools.map(tool => ({ type: 'function', function: tool })) }
+            : {}),
+        }),
+        signal: options.signal,
+      });
+
+      if (response.status === 429) {
+        const retryAfter = response.headers.get('Retry-After');
+        const delay = retryAfter
+          ? parseInt(retryAfter, 10) * 1000
+          : Math.pow(2, i) * 1000;
+
+        console.warn(`429 rate limit hit on model ${model}. Retrying in ${delay / 1000}s...`);
+
+        if (model.endsWith(':free')) {
+          console.warn(`Switching from ${model} to ${model.replace(':free', '')}`);
+          model = model.replace(':free', '');
+        }
+
+        if (i === retries) {
+          throw new Error(`${name} API error: too many retries after 429`);
+        }
+
+        await new Promise((res) => setTimeout(res, delay));
+        lastError = new Error('429 Too Many Requests');
+        continue;
+      }
+
+      if (!response.ok) {
+        throw new Error(`${name} API error: ${response.status} ${response.statusText}`);
+      }
+
+      return response;
+    }
+
+    throw lastError || new Error(`${name} API error: request failed after retries`);
+  }
+}
+
+// Deterministic replies picked by matching the last user message against fixtures.
+// Streams word by word without delays so runs are fast and repeatable.
+export class MockLLMProvider extends BaseLLMProvider {
+  readonly name = 'Mock';
+
+  constructor(private fixtures: LLMFixture[] = LLM_FIXTURES) {
+    super();
+  }
+
+  async complete(messages: OpenRouterMessage[], options: CompletionOptions = {}): Promise<LLMCompletion> {
+    const toolCalls = this.toolCalls(messages, options.tools);
+    const content = toolCalls.length > 0 ? '' : this.reply(messages);
+    const promptTokens = messages.reduce((sum, message) => sum + Math.ceil(message.content.length / 4), 0);
+    const completionTokens = Math.ceil((content || JSON.stringify(toolCalls)).length / 4);
+
+    return {
+      content,
+      model: options.model || 'mock',
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+      ...(toolCalls.length > 0 ? { toolCalls } : {}),
+    };
+  }
+
+  async stream(
+    messages: OpenRouterMessage[],
+    onToken: (token: string) => void,
+    options: CompletionOptions = {}
+  ): Promise<LLMCompletion> {
+    const completion = await this.complete(messages, options);
+
+    const tokens = completion.content.match(/\S+\s*|\s+/g) || [];
+    for (const token of tokens) {
+      if (options.signal?.aborted) {
+        throw new DOMException('The operation was aborted.', 'AbortError');
+      }
+      onToken(token);
+    }
+
+    return completion;
+  }
+
+  // A fixture gives the same answer every time, so retrying with feedback cannot help
+  structured<T>(
+    messages: OpenRouterMessage[],
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    options?: CompletionOptions
+  ): Promise<T> {
+    return super.structured(messages, schema, options, 1);
+  }
+
+  private reply(messages: OpenRouterMessage[]): string {
+    const { fixture, prompt } = this.match(messages);
+    return typeof fixture.response === 'function' ? fixture.response(prompt) : fixture.response;
+  }
+
+  // A fixture's tool calls are made once per user message, and only for tools that were offered
+  private toolCalls(messages: OpenRouterMessage[], tools: LLMToolDefinition[] = []): OpenRouterToolCall[] {
+    const lastUser = messages.map(message => message.role).lastIndexOf('user');
+    if (tools.length === 0 || messages.slice(lastUser).some(message => message.role === 'tool')) {
+      return [];
+    }
+
+    const { fixture, prompt } = this.match(messages);
+    return (fixture.toolCalls ? fixture.toolCalls(prompt) : [])
+      .filter(call => tools.some(tool => tool.name === call.name))
+      .map((call, index) => ({
+        id: `mock_call_${index}`,
+        type: 'function' as const,
+        function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+      }));
+  }
+
+  private match(messages: OpenRouterMessage[]): { fixture: LLMFixture; prompt: string } {
+    const userMessages = messages.filter(message => message.role === 'user');
+    const prompt = userMessages[userMessages.length - 1]?.content || '';
+    const fixture = this.fixtures.find(candidate => candidate.match.test(prompt));
+
+    if (!fixture) {
+      throw new Error(`Mock provider has no fixture matching: ${prompt.slice(0, 80)}`);
+    }
+    return { fixture, prompt };
+  }
+}
+
+// Build the provider named by config.provider
+export function createLLMProvider(config: AIConfig = AI_CONFIG): LLMProvider {
+  switch (config.provider) {
+    case 'openrouter':
+      return new OpenAICompatibleProvider({
+        name: 'OpenRouter',
+        ...config.openrouter,
+        requireApiKey: true,
+        headers: {
+          'HTTP-Referer': process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000',
+          'X-Title': 'Aptos Assistant DeFi',
+        },
+        temperature: config.temperature,
+        maxTokens: config.maxTokens,
+        retries: config.retries,
+      });
+    case 'local':
+      return new OpenAICompatibleProvider({
+        name: 'Local LLM',
+        ...config.local,
+        temperature: config.temperature,
+        maxTokens: config.maxTokens,
+        retries: config.retries,
+      });
+    case 'mock':
+      return new MockLLMProvider();
+    default:
+      throw new Error(`Unknown LLM provider: ${config.provider}`);
+  }
+}
+
+export const llmProvider = createLLMProvider();
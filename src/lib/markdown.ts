@@ -0,0 +1,137 @@
+// A small markdown subset for assistant replies: headings, fenced code, lists, paragraphs and
+// inline code/bold/italic/links. The result is plain data rendered as React elements, so no
+// HTML from the model ever reaches the DOM.
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; ordered: boolean; start: number; items: string[] }
+  // closed is false while a fence is still streaming in
+  | { type: 'code'; language: string; code: string; closed: boolean };
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong'; text: string }
+  | { type: 'em'; text: string }
+  | { type: 'link'; text: string; href: string };
+
+const FENCE = /^\s*```\s*([\w+-]*)/;
+const HEADING = /^(#{1,3})\s+(.+)$/;
+const BULLET = /^\s*[-*•]\s+(.*)$/;
+const NUMBERED = /^\s*(\d+)[.)]\s+(.*)$/;
+// The system prompts open sections with an emoji ("🪙 Token Details"); es5 target, so surrogate pairs
+const EMOJI_START = /^(?:[\uD83C-\uD83E][\uDC00-\uDFFF]|[\u2600-\u27BF])/;
+const EMOJI_HEADING_MAX = 60;
+
+// Only absolute http(s) links are linked; anything else stays text
+const INLINE = /`([^`]+)`|\*\*([^*]+)\*\*|\*([^*\s][^*]*)\*|\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)|(https?:\/\/[^\s<]*[^\s<.,;:!?)\]'"])/g;
+
+function isEmojiHeading(line: string) {
+  const text = line.trim();
+  return EMOJI_START.test(text) && text.length <= EMOJI_HEADING_MAX && !/[.,;?]$/.test(text);
+}
+
+export function parseMarkdown(content: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  const lines = content.replace(/\r\n/g, '\n').split('\n');
+  let paragraph: string[] = [];
+  let list: Extract<MarkdownBlock, { type: 'list' }> | null = null;
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', text: paragraph.join('\n') });
+      paragraph = [];
+    }
+    if (list) {
+      blocks.push(list);
+      list = null;
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      flush();
+      const code: string[] = [];
+      let closed = false;
+      for (i++; i < lines.length; i++) {
+        if (/^\s*```\s*$/.test(lines[i])) {
+          closed = true;
+          break;
+        }
+        code.push(lines[i]);
+      }
+      blocks.push({ type: 'code', language: fence[1].toLowerCase(), code: code.join('\n'), closed });
+      continue;
+    }
+
+    if (!line.trim()) {
+      flush();
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading || isEmojiHeading(line)) {
+      flush();
+      blocks.push(heading
+        ? { type: 'heading', level: heading[1].length as 1 | 2 | 3, text: heading[2].trim() }
+        : { type: 'heading', level: 3, text: line.trim() });
+      continue;
+    }
+
+    const bullet = line.match(BULLET);
+    const numbered = bullet ? null : line.match(NUMBERED);
+    if (bullet || numbered) {
+      const ordered = !!numbered;
+      if (paragraph.length > 0 || (list && list.ordered !== ordered)) {
+        flush();
+      }
+      if (!list) {
+        list = { type: 'list', ordered, start: numbered ? Number(numbered[1]) : 1, items: [] };
+      }
+      list.items.push(bullet ? bullet[1] : numbered![2]);
+      continue;
+    }
+
+    // An indented line under a list item continues it
+    if (list && /^\s+\S/.test(line)) {
+      list.items[list.items.length - 1] += `\n${line.trim()}`;
+      continue;
+    }
+
+    if (list) {
+      flush();
+    }
+    paragraph.push(line);
+  }
+
+  flush();
+  return blocks;
+}
+
+export function parseInline(text: string): MarkdownInline[] {
+  const parts: MarkdownInline[] = [];
+  const pattern = new RegExp(INLINE.source, 'g');
+  let last = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    if (match.index > last) {
+      parts.push({ type: 'text', text: text.slice(last, match.index) });
+    }
+    if (match[1] !== undefined) parts.push({ type: 'code', text: match[1] });
+    else if (match[2] !== undefined) parts.push({ type: 'strong', text: match[2] });
+    else if (match[3] !== undefined) parts.push({ type: 'em', text: match[3] });
+    else if (match[4] !== undefined) parts.push({ type: 'link', text: match[4], href: match[5] });
+    else parts.push({ type: 'link', text: match[6], href: match[6] });
+    last = pattern.lastIndex;
+  }
+
+  if (last < text.length) {
+    parts.push({ type: 'text', text: text.slice(last) });
+  }
+  return parts;
+}
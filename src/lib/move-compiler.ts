@@ -0,0 +1,509 @@
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { MoveTestResult, SandboxDiagnostic } from '@/types';
+
+// Server-only: this module shells out to the Aptos CLI and touches the filesystem.
+// Client components must go through the /api/sandbox routes instead of importing it.
+
+const APTOS_CLI_PATH = process.env.APTOS_CLI_PATH || 'aptos';
+const MOVE_COMPILE_TIMEOUT_MS = parseInt(process.env.MOVE_COMPILE_TIMEOUT_MS || '120000', 10);
+
+// Package whose Move.toml, named addresses and sources generated code is compiled against
+const DEFAULT_PACKAGE_DIR = path.join(process.cwd(), 'dexxy-contracts');
+
+// Address assigned to named addresses that the package does not declare (e.g. `MyToken::Token`)
+const DEFAULT_DEV_ADDRESS = '0xcafe';
+
+export interface CommandResult {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+}
+
+// Runs a CLI command for the compiler. Swap in a fixture runner to test without the Aptos CLI.
+export interface CompilerRunner {
+  run(
+    command: string,
+    args: string[],
+    options: { cwd: string; timeoutMs: number }
+  ): Promise<CommandResult>;
+}
+
+export const execFileRunner: CompilerRunner = {
+  run(command, args, { cwd, timeoutMs }) {
+    return new Promise((resolve, reject) => {
+      execFile(
+        command,
+        args,
+        { cwd, timeout: timeoutMs, maxBuffer: 10 * 1024 * 1024 },
+        (error, stdout, stderr) => {
+          if (error && (error as NodeJS.ErrnoException).code === 'ENOENT') {
+            reject(new Error(`Aptos CLI not found at "${command}". Install it or set APTOS_CLI_PATH.`));
+            return;
+          }
+          if (error && error.killed) {
+            reject(new Error(`Move compiler timed out after ${timeoutMs / 1000}s`));
+            return;
+          }
+
+          resolve({
+            exitCode: error ? Number(error.code) || 1 : 0,
+            stdout: stdout.toString(),
+            stderr: stderr.toString(),
+          });
+        }
+      );
+    });
+  },
+};
+
+export interface CompilationResult {
+  success: boolean;
+  diagnostics: SandboxDiagnostic[];
+  output: string;
+}
+
+export interface TestRunResult extends CompilationResult {
+  tests: MoveTestResult[];
+}
+
+// Account and node to publish to; every named address in the workspace resolves to `address`
+export interface PublishOptions {
+  address: string;
+  privateKey: string;
+  nodeUrl: string;
+}
+
+export interface MoveCompilerOptions {
+  aptosCliPath?: string;
+  packageDir?: string;
+  runner?: CompilerRunner;
+  timeoutMs?: number;
+  devAddress?: string;
+}
+
+interface Workspace {
+  dir: string;
+  namedAddresses: Record<string, string>;
+}
+
+interface CommandOutcome {
+  exitCode: number;
+  output: string;
+  diagnostics: SandboxDiagnostic[];
+}
+
+const MODULE_DECLARATION = /\bmodule\s+([A-Za-z_][A-Za-z0-9_]*|0x[0-9a-fA-F]+)::([A-Za-z_][A-Za-z0-9_]*)/g;
+const DIAGNOSTIC_HEADER = /^(error|warning)(?:\[(\w+)\])?:\s*(.+)$/;
+const DIAGNOSTIC_LOCATION = /^\s*(?:┌─|-->)\s*(.+?):(\d+):(\d+)\s*$/;
+const DIAGNOSTIC_LABEL = /^\s*\d*\s*│\s*(\s*)(\^+|-+)\s*(.*)$/;
+const TEST_STATUS_LINE = /^\[\s*(PASS|FAIL|TIMEOUT)\s*\]\s+(\S+)/;
+
+// Fix hints for common Move compiler diagnostics, matched against the code or message
+const SUGGESTED_FIXES: Array<{
+  matches: (diagnostic: SandboxDiagnostic) => boolean;
+  fix: (diagnostic: SandboxDiagnostic) => NonNullable<SandboxDiagnostic['suggestedFix']>;
+}> = [
+  {
+    matches: d => /unused (local )?variable/i.test(`${d.message} ${d.span?.label || ''}`),
+    fix: d => {
+      const name = d.span?.label?.match(/'([A-Za-z_][A-Za-z0-9_]*)'/)?.[1];
+      return {
+        description: 'Remove the variable or prefix it with an underscore',
+        replacement: name && !name.startsWith('_') ? `_${name}` : undefined,
+      };
+    },
+  },
+  {
+    matches: d => /unused alias|unused 'use'/i.test(`${d.message} ${d.span?.label || ''}`),
+    fix: () => ({ description: 'Remove the unused `use` declaration' }),
+  },
+  {
+    matches: d => /unbound module/i.test(`${d.message} ${d.span?.label || ''}`),
+    fix: () => ({
+      description: 'Check the module path and that its package is a dependency in Move.toml (e.g. aptos_framework::fungible_asset)',
+    }),
+  },
+  {
+    matches: d => /acquires/i.test(`${d.message} ${d.span?.label || ''}`),
+    fix: () => ({ description: 'Add the missing `acquires <Resource>` annotation to the function signature' }),
+  },
+  {
+    matches: d => /ability|constraint not satisfied/i.test(`${d.message} ${d.span?.label || ''}`),
+    fix: () => ({ description: 'Add the required ability (copy, drop, store, key) to the struct declaration' }),
+  },
+  {
+    matches: d => /incompatible types|invalid argument|invalid call/i.test(d.message),
+    fix: () => ({ description: 'Check the argument and return types against the function signature' }),
+  },
+  {
+    matches: d => /unbound (named )?address|unassigned named address/i.test(d.message),
+    fix: () => ({ description: 'Declare the named address in Move.toml or use defi_suite as the module address' }),
+  },
+];
+
+export class MoveCompiler {
+  private aptosCliPath: string;
+  private packageDir: string;
+  private runner: CompilerRunner;
+  private timeoutMs: number;
+  private devAddress: string;
+
+  constructor(options: MoveCompilerOptions = {}) {
+    this.aptosCliPath = options.aptosCliPath || APTOS_CLI_PATH;
+    this.packageDir = options.packageDir || DEFAULT_PACKAGE_DIR;
+    this.runner = options.runner || execFileRunner;
+    this.timeoutMs = options.timeoutMs || MOVE_COMPILE_TIMEOUT_MS;
+    this.devAddress = options.devAddress || DEFAULT_DEV_ADDRESS;
+  }
+
+  // Compile generated Move source alongside the package sources.
+  // fileName is relative to sources/, and diagnostic spans use the same relative paths.
+  async compile(source: string, fileName: string): Promise<CompilationResult> {
+    const outcome = await this.runInWorkspace('compile', source, fileName, []);
+
+    return {
+      success: outcome.exitCode === 0 && !outcome.diagnostics.some(d => d.severity === 'error'),
+      diagnostics: outcome.diagnostics,
+      output: outcome.output,
+    };
+  }
+
+  // Run `aptos move test` on the generated source plus test modules written to tests/
+  async test(source: string, fileName: string, testModules: string[]): Promise<TestRunResult> {
+    const outcome = await this.runInWorkspace('test', source, fileName, testModules);
+    const tests = parseTestOutput(outcome.output, outcome.workspaceDir);
+
+    return {
+      success: outcome.exitCode === 0 && tests.every(test => test.status === 'pass'),
+      diagnostics: outcome.diagnostics,
+      output: outcome.output,
+      tests,
+    };
+  }
+
+  // Publish the package sources plus the generated source as a single package
+  async publish(source: string, fileName: string, options: PublishOptions): Promise<CompilationResult> {
+    const outcome = await this.runInWorkspace('publish', source, fileName, [], options);
+
+    return {
+      success: outcome.exitCode === 0 && !outcome.diagnostics.some(d => d.severity === 'error'),
+      diagnostics: outcome.diagnostics,
+      output: outcome.output,
+    };
+  }
+
+  private async runInWorkspace(
+    subcommand: 'compile' | 'test' | 'publish',
+    source: string,
+    fileName: string,
+    testModules: string[],
+    publish?: PublishOptions
+  ): Promise<CommandOutcome & { workspaceDir: string }> {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'move-sandbox-'));
+
+    try {
+      const workspace = await this.createWorkspace(dir, source, fileName, testModules, publish?.address);
+      const publishArgs = publish
+        ? ['--private-key-file', await writeKeyFile(dir, publish.privateKey), '--url', publish.nodeUrl, '--assume-yes']
+        : [];
+
+      const result = await this.runner.run(
+        this.aptosCliPath,
+        [
+          'move',
+          subcommand,
+          '--package-dir',
+          workspace.dir,
+          '--skip-fetch-latest-git-deps',
+          ...this.namedAddressArgs(workspace.namedAddresses),
+          ...publishArgs,
+        ],
+        { cwd: workspace.dir, timeoutMs: this.timeoutMs }
+      );
+
+      const output = `${result.stderr}\n${result.stdout}`;
+      const diagnostics = parseCompilerOutput(output, workspace.dir);
+
+      // The CLI can fail before the compiler runs (dependency resolution, manifest errors).
+      // Failing unit tests also exit non-zero, so only report this when no test ran.
+      const testsRan = subcommand === 'test' && parseTestOutput(output, workspace.dir).length > 0;
+      if (result.exitCode !== 0 && !testsRan && !diagnostics.some(d => d.severity === 'error')) {
+        diagnostics.push({
+          severity: 'error',
+          source: 'compiler',
+          message: extractCliError(result.stdout) || result.stderr.trim() || `Move ${subcommand} failed`,
+        });
+      }
+
+      return { exitCode: result.exitCode, output, diagnostics, workspaceDir: workspace.dir };
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  // Copy the package layout into the temp dir and add the generated source to it.
+  // With a publisher, the manifest's fixed addresses are left unassigned and all bound to it.
+  private async createWorkspace(
+    dir: string,
+    source: string,
+    fileName: string,
+    testModules: string[],
+    publisher?: string
+  ): Promise<Workspace> {
+    const sourcesDir = path.join(dir, 'sources');
+    await fs.mkdir(sourcesDir);
+
+    const manifest = await fs.readFile(path.join(this.packageDir, 'Move.toml'), 'utf8');
+    await fs.writeFile(path.join(dir, 'Move.toml'), publisher ? unassignAddresses(manifest) : manifest);
+
+    const generatedModules = declaredModules(source);
+    const testModuleIds = testModules.reduce<string[]>((ids, module) => ids.concat(declaredModules(module)), []);
+
+    // Skip package modules that the generated source redefines, otherwise both would collide
+    const packageSources = await fs.readdir(path.join(this.packageDir, 'sources'));
+    for (const file of packageSources.filter(name => name.endsWith('.move'))) {
+      const content = await fs.readFile(path.join(this.packageDir, 'sources', file), 'utf8');
+      const redefined = declaredModules(content).some(id => generatedModules.includes(id));
+      if (!redefined) {
+        await fs.writeFile(path.join(sourcesDir, file), content);
+      }
+    }
+
+    await fs.writeFile(path.join(sourcesDir, fileName), source);
+
+    if (testModules.length > 0) {
+      await fs.mkdir(path.join(dir, 'tests'));
+      for (let i = 0; i < testModules.length; i++) {
+        await fs.writeFile(path.join(dir, 'tests', `sandbox_test_${i + 1}.move`), testModules[i]);
+      }
+    }
+
+    const declaredAddresses = manifestAddresses(manifest);
+    const namedAddresses: Record<string, string> = {};
+    if (publisher) {
+      for (const name of declaredAddresses) {
+        namedAddresses[name] = publisher;
+      }
+    }
+    for (const id of [...generatedModules, ...testModuleIds]) {
+      const address = id.split('::')[0];
+      if (!address.startsWith('0x') && !declaredAddresses.includes(address)) {
+        namedAddresses[address] = publisher || this.devAddress;
+      }
+    }
+
+    return { dir, namedAddresses };
+  }
+
+  private namedAddressArgs(namedAddresses: Record<string, string>): string[] {
+    const pairs = Object.entries(namedAddresses).map(([name, address]) => `${name}=${address}`);
+    return pairs.length > 0 ? ['--named-addresses', pairs.join(',')] : [];
+  }
+}
+
+// Parse codespan-style compiler diagnostics, e.g.
+//   error[E03003]: unbound module
+//     ┌─ /tmp/move-sandbox-x/sources/sandbox_generated.move:3:9
+//     │
+//   3 │     use aptos_framework::fungible_assetx;
+//     │         ^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^ Invalid 'use'. Unbound module
+export function parseCompilerOutput(output: string, workspaceDir?: string): SandboxDiagnostic[] {
+  const diagnostics: SandboxDiagnostic[] = [];
+  let current: SandboxDiagnostic | null = null;
+
+  for (const line of output.split('\n')) {
+    const header = line.match(DIAGNOSTIC_HEADER);
+    if (header) {
+      current = {
+        severity: header[1] as SandboxDiagnostic['severity'],
+        source: 'compiler',
+        code: header[2],
+        message: header[3].trim(),
+      };
+      diagnostics.push(current);
+      continue;
+    }
+
+    if (!current) continue;
+
+    const location = line.match(DIAGNOSTIC_LOCATION);
+    if (location && !current.span) {
+      const startLine = parseInt(location[2], 10);
+      const startColumn = parseInt(location[3], 10);
+      current.span = {
+        file: workspacePath(location[1], workspaceDir),
+        startLine,
+        startColumn,
+        endLine: startLine,
+        endColumn: startColumn + 1,
+      };
+      continue;
+    }
+
+    // The first ^^^ underline marks the primary span; its trailing text is the label
+    const label = line.match(DIAGNOSTIC_LABEL);
+    if (label && label[2].startsWith('^') && current.span && current.span.label === undefined) {
+      current.span.endColumn = current.span.startColumn + label[2].length;
+      current.span.label = label[3].trim() || undefined;
+    }
+  }
+
+  for (const diagnostic of diagnostics) {
+    const hint = SUGGESTED_FIXES.find(entry => entry.matches(diagnostic));
+    if (hint) {
+      diagnostic.suggestedFix = hint.fix(diagnostic);
+    }
+  }
+
+  return diagnostics;
+}
+
+// Parse `aptos move test` output: one status line per test, then a failure block per failing test
+//   [ PASS    ] 0xcafe::token_tests::test_create
+//   [ FAIL    ] 0xcafe::token_tests::test_mint
+//   Failures in 0xcafe::token_tests:
+//   ┌── test_mint ──────
+//   │ error[E11001]: test failure
+//   │    ┌─ /tmp/move-sandbox-x/sources/token.move:71:9
+//   │ ...  ^^^^^^ Test was not expected to error, but it aborted with code 1 originating in the module ...
+//   └──────────────────
+export function parseTestOutput(output: string, workspaceDir?: string): MoveTestResult[] {
+  const tests: MoveTestResult[] = [];
+  const byName: Record<string, MoveTestResult> = {};
+  const lines = output.split('\n');
+
+  for (const line of lines) {
+    const status = line.match(TEST_STATUS_LINE);
+    if (status) {
+      const test: MoveTestResult = {
+        name: status[2],
+        status: status[1].toLowerCase() as MoveTestResult['status'],
+      };
+      tests.push(test);
+      byName[test.name] = test;
+    }
+  }
+
+  let failureModule: string | null = null;
+  let current: MoveTestResult | null = null;
+
+  for (const line of lines) {
+    const moduleHeader = line.match(/^Failures in (\S+):\s*$/);
+    if (moduleHeader) {
+      failureModule = moduleHeader[1];
+      continue;
+    }
+
+    const blockStart = line.match(/^┌──\s*(\w+)\s*─/);
+    if (blockStart && failureModule) {
+      current = byName[`${failureModule}::${blockStart[1]}`] || null;
+      continue;
+    }
+
+    if (!current) continue;
+
+    if (line.startsWith('└')) {
+      current = null;
+      continue;
+    }
+
+    const content = line.replace(/^│\s?/, '');
+
+    const header = content.match(DIAGNOSTIC_HEADER);
+    if (header && !current.message) {
+      current.message = header[3].trim();
+    }
+
+    const location = content.match(DIAGNOSTIC_LOCATION);
+    if (location && !current.span) {
+      const startLine = parseInt(location[2], 10);
+      const startColumn = parseInt(location[3], 10);
+      current.span = {
+        file: workspacePath(location[1], workspaceDir),
+        startLine,
+        startColumn,
+        endLine: startLine,
+        endColumn: startColumn + 1,
+      };
+    }
+
+    const abort = content.match(/aborted with code (0x[0-9a-fA-F]+|\d+)(?: originating in the module (\S+))?/);
+    if (abort) {
+      current.abortCode = Number(abort[1]);
+      current.abortModule = abort[2];
+    }
+
+    // Prefer the explanatory label ("Test did not error as expected", "...aborted with code 1...")
+    const label = content.match(DIAGNOSTIC_LABEL);
+    if (label && label[2].startsWith('^') && label[3].trim()) {
+      current.message = label[3].trim();
+    }
+  }
+
+  return tests;
+}
+
+// Sources are reported relative to sources/ (matching the fileName passed in), test modules
+// relative to the workspace root (tests/sandbox_test_1.move)
+function workspacePath(file: string, workspaceDir?: string): string {
+  if (!workspaceDir) return file;
+
+  const inSources = path.relative(path.join(workspaceDir, 'sources'), file);
+  if (!inSources.startsWith('..')) return inSources;
+
+  const inWorkspace = path.relative(workspaceDir, file);
+  return inWorkspace.startsWith('..') ? file : inWorkspace;
+}
+
+// The publisher's key goes to the CLI in a file readable only by this process, never on argv
+// where other users could see it. It sits outside sources/ and is removed with the workspace.
+async function writeKeyFile(workspaceDir: string, privateKey: string): Promise<string> {
+  const file = path.join(workspaceDir, 'publisher.key');
+  await fs.writeFile(file, privateKey, { mode: 0o600 });
+  return file;
+}
+
+// The CLI reports top-level failures as a JSON object on stdout: {"Error": "..."}
+function extractCliError(stdout: string): string | undefined {
+  const json = stdout.match(/^\{[\s\S]*\}\s*$/m);
+  if (!json) return undefined;
+
+  try {
+    const parsed = JSON.parse(json[0]);
+    return typeof parsed.Error === 'string' ? parsed.Error : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function collectMatches(pattern: RegExp, text: string, format: (match: RegExpExecArray) => string): string[] {
+  const results: string[] = [];
+  const regex = new RegExp(pattern.source, pattern.flags);
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(text)) !== null) {
+    results.push(format(match));
+  }
+  return results;
+}
+
+function declaredModules(source: string): string[] {
+  return collectMatches(MODULE_DECLARATION, source, match => `${match[1]}::${match[2]}`);
+}
+
+function manifestAddresses(manifest: string): string[] {
+  const section = manifest.match(/\[addresses\]([\s\S]*?)(?:\n\[|$)/);
+  if (!section) return [];
+  return collectMatches(/^\s*([A-Za-z_][A-Za-z0-9_]*)\s*=/gm, section[1], match => match[1]);
+}
+
+// Rewrite `name = "0x..."` entries under [addresses] to `name = "_"` so they can be bound at publish time
+function unassignAddresses(manifest: string): string {
+  return manifest.replace(/\[addresses\]([\s\S]*?)(?=\n\[|$)/, section =>
+    section.replace(/^(\s*[A-Za-z_][A-Za-z0-9_]*\s*=\s*)"[^"]*"/gm, '$1"_"')
+  );
+}
+
+export const moveCompiler = new MoveCompiler();
@@ -0,0 +1,258 @@
+import { SandboxDiagnostic, SourceSpan } from '@/types';
+
+// Rule-based checks for patterns that compile but are unsafe on chain. Works on source text,
+// so it runs anywhere (no compiler needed) and never blocks compilation: findings are warnings.
+
+interface MoveFunction {
+  name: string;
+  isPublic: boolean;
+  params: Array<{ name: string; type: string }>;
+  // Offsets into the masked source; body excludes the braces
+  nameOffset: number;
+  bodyStart: number;
+  body: string;
+}
+
+// A rule's finding; lintMove adds source and code
+type LintFinding = Omit<SandboxDiagnostic, 'source' | 'code'>;
+
+interface LintContext {
+  file: string;
+  // Source with comments and byte-string contents blanked out, offsets unchanged
+  masked: string;
+  lineStarts: number[];
+}
+
+const FUNCTION_HEADER = /\b((?:(?:public(?:\s*\(\s*\w+\s*\))?|entry|inline|native)\s+)*)fun\s+(\w+)\s*(?:<[^>]*>)?\s*\(([^)]*)\)[^{;]*\{/g;
+const WITHDRAW_BINDING = /\blet\s+(\w+)\s*(?::\s*[\w:<>]+\s*)?=\s*[\w:]*withdraw(?:<[^>]*>)?\s*\(/g;
+const DESTROY_ZERO = /\b[\w:]*destroy_zero\s*\(\s*(\w+)\s*\)/g;
+const BORROW_MUT = /\bborrow_global_mut\s*<\s*([\w:]+)(?:<[^>]*>)?\s*>\s*\(([^()]*(?:\([^()]*\))?[^()]*)\)/g;
+const PRIVILEGED_CALL = /\b(?:mint_ref|burn_ref|mint_cap|burn_cap|MintCapability|BurnCapability)\b|\b(?:fungible_asset|primary_fungible_store|coin)::(?:mint|burn)\b/;
+const OWNER_ASSERT = /assert!\s*\(([^;]*)\)\s*;/g;
+const WIDE_CAST = /\bas\s+u(?:128|256)\b/;
+
+function blank(text: string): string {
+  return text.replace(/[^\n]/g, ' ');
+}
+
+function mask(code: string): string {
+  return code
+    .replace(/\/\*[\s\S]*?\*\/|\/\/[^\n]*/g, blank)
+    .replace(/\b(b|x)"((?:[^"\\]|\\.)*)"/g, (_, prefix: string, body: string) => `${prefix}"${blank(body)}"`);
+}
+
+function lineStarts(code: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < code.length; i++) {
+    if (code[i] === '\n') starts.push(i + 1);
+  }
+  return starts;
+}
+
+function spanAt(context: LintContext, offset: number, length: number, label?: string): SourceSpan {
+  let line = 0;
+  while (line + 1 < context.lineStarts.length && context.lineStarts[line + 1] <= offset) line++;
+  const startColumn = offset - context.lineStarts[line] + 1;
+  return {
+    file: context.file,
+    startLine: line + 1,
+    startColumn,
+    endLine: line + 1,
+    endColumn: startColumn + length,
+    label,
+  };
+}
+
+function collectMatches(pattern: RegExp, text: string): RegExpExecArray[] {
+  const matches: RegExpExecArray[] = [];
+  const regex = new RegExp(pattern.source, pattern.flags);
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(text)) !== null) {
+    matches.push(match);
+  }
+  return matches;
+}
+
+function normalize(expression: string): string {
+  return expression.replace(/\s+/g, '');
+}
+
+function parseFunctions(masked: string): MoveFunction[] {
+  return collectMatches(FUNCTION_HEADER, masked).map(match => {
+    const open = match.index + match[0].length - 1;
+    let depth = 1;
+    let close = open + 1;
+    while (close < masked.length && depth > 0) {
+      if (masked[close] === '{') depth++;
+      if (masked[close] === '}') depth--;
+      close++;
+    }
+
+    const params = match[3].split(',')
+      .map(param => param.split(':'))
+      .filter(parts => parts.length === 2)
+      .map(([name, type]) => ({ name: name.trim(), type: normalize(type) }));
+
+    const funAt = match[0].indexOf('fun', match[1].length);
+    return {
+      name: match[2],
+      isPublic: /\b(public|entry)\b/.test(match[1]),
+      params,
+      nameOffset: match.index + match[0].indexOf(match[2], funAt + 3),
+      bodyStart: open + 1,
+      body: masked.slice(open + 1, close - 1),
+    };
+  });
+}
+
+// `return *x`, `else *x` and `if (cond) *x` dereference rather than multiply
+function isDereference(body: string, offset: number, left: string): boolean {
+  if (['return', 'else', 'abort'].includes(left)) return true;
+  if (left !== ')') return false;
+
+  let depth = 0;
+  for (let i = offset; i >= 0; i--) {
+    if (body[i] === ')') depth++;
+    if (body[i] === '(' && --depth === 0) {
+      return /\b(if|while)\s*$/.test(body.slice(0, i));
+    }
+  }
+  return false;
+}
+
+// Statement around an offset: from the previous ; { or } to the next ; or }
+function statementAround(body: string, offset: number): string {
+  let start = offset;
+  while (start > 0 && !';{}'.includes(body[start - 1])) start--;
+  let end = offset;
+  while (end < body.length && !';}'.includes(body[end])) end++;
+  return body.slice(start, end);
+}
+
+const LINT_RULES: Array<{
+  id: string;
+  check: (fn: MoveFunction, context: LintContext) => LintFinding[];
+}> = [
+  {
+    // e.g. `amount_in * 997` or `amount_in_with_fee * reserve_out` in get_amount_out
+    id: 'overflow-risk',
+    check: (fn, context) => {
+      const findings: LintFinding[] = [];
+      const reported: string[] = [];
+
+      collectMatches(/([\w.]+|\))\s*\*\s*(\(?[\w.]+)/g, fn.body).forEach(match => {
+        const [, left, right] = match;
+        const statement = statementAround(fn.body, match.index);
+        if (WIDE_CAST.test(statement) || reported.includes(statement)) return;
+        if (/^\d+$/.test(left) && /^\d+$/.test(right)) return;
+        if (isDereference(fn.body, match.index, left)) return;
+        reported.push(statement);
+
+        const expression = match[0].replace(/\s+/g, ' ');
+        findings.push({
+          severity: 'warning',
+          message: `u64 multiplication \`${expression}\` in ${fn.name} aborts on overflow once amounts or reserves grow large`,
+          span: spanAt(context, fn.bodyStart + match.index, match[0].length, 'multiplied as u64'),
+          suggestedFix: {
+            description: 'Widen before multiplying and narrow the result, e.g. (((a as u128) * (b as u128) / (c as u128)) as u64)',
+          },
+        });
+      });
+
+      return findings;
+    },
+  },
+  {
+    // mint/burn that anyone can call, or that uses refs stored away from the caller without checking who they are
+    id: 'missing-owner-check',
+    check: (fn, context) => {
+      if (!fn.isPublic || !/^(mint|burn)(_|$)/.test(fn.name) || !PRIVILEGED_CALL.test(fn.body)) return [];
+
+      const signers = fn.params.filter(param => param.type === '&signer').map(param => param.name);
+      const signerAddresses = collectMatches(/\blet\s+(\w+)\s*(?::\s*address\s*)?=\s*signer::address_of\s*\(\s*(\w+)\s*\)/g, fn.body)
+        .filter(match => signers.includes(match[2]))
+        .map(match => match[1]);
+      const isCallerAddress = (expression: string) =>
+        signerAddresses.includes(expression.trim()) || /^signer::address_of\(\w+\)$/.test(normalize(expression));
+
+      const borrows = collectMatches(/\bborrow_global(?:_mut)?\s*<[^>]*(?:<[^>]*>)?[^>]*>\s*\(([^()]*(?:\([^()]*\))?[^()]*)\)/g, fn.body);
+      const readsCallerResources = borrows.length > 0 && borrows.every(match => isCallerAddress(match[1]));
+      const assertsCaller = collectMatches(OWNER_ASSERT, fn.body).some(match =>
+        /==/.test(match[1]) && (/signer::address_of/.test(match[1]) || signerAddresses.some(name => new RegExp(`\\b${name}\\b`).test(match[1])))
+      );
+
+      if (signers.length > 0 && (readsCallerResources || assertsCaller)) return [];
+
+      return [{
+        severity: 'warning',
+        message: signers.length === 0
+          ? `${fn.name} mints or burns without taking a signer, so anyone can call it`
+          : `${fn.name} mints or burns without checking that the caller is the owner`,
+        span: spanAt(context, fn.nameOffset, fn.name.length, 'no owner check'),
+        suggestedFix: {
+          description: 'Take the owner as &signer and assert!(signer::address_of(owner) == <owner address>, E_NOT_OWNER), or keep the refs under the owner\'s account and borrow them from there',
+        },
+      }];
+    },
+  },
+  {
+    // borrow_global_mut<Pool>(pool_addr) with no exists<Pool>(pool_addr) before it
+    id: 'unchecked-borrow',
+    check: (fn, context) => collectMatches(BORROW_MUT, fn.body)
+      .filter(match => {
+        const resource = match[1].split('::').pop()!;
+        const address = normalize(match[2]);
+        const before = normalize(fn.body.slice(0, match.index));
+        return !new RegExp(`exists<${resource}(<[^>]*>)?>\\(${address.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\)`).test(before);
+      })
+      .map(match => {
+        const resource = match[1].split('::').pop()!;
+        return {
+          severity: 'warning' as const,
+          message: `borrow_global_mut<${resource}>(${match[2].trim()}) has no exists<${resource}> check first, so a missing resource aborts without a meaningful error`,
+          span: spanAt(context, fn.bodyStart + match.index, match[0].length, 'may not exist'),
+          suggestedFix: {
+            description: `Assert the resource exists first, e.g. assert!(exists<${resource}>(${match[2].trim()}), E_NOT_FOUND)`,
+            replacement: `assert!(exists<${resource}>(${match[2].trim()}), E_NOT_FOUND);`,
+          },
+        };
+      }),
+  },
+  {
+    // Withdrawn tokens passed to destroy_zero: aborts for any non-zero amount instead of storing the funds
+    id: 'destroy-nonzero',
+    check: (fn, context) => {
+      const withdrawn = collectMatches(WITHDRAW_BINDING, fn.body);
+
+      return collectMatches(DESTROY_ZERO, fn.body)
+        .filter(match => withdrawn.some(binding => binding[1] === match[1] && binding.index < match.index))
+        .map(match => {
+          const binding = withdrawn.filter(candidate => candidate[1] === match[1] && candidate.index < match.index).pop()!;
+          const withdrawLine = spanAt(context, fn.bodyStart + binding.index, 0).startLine;
+          return {
+            severity: 'warning' as const,
+            message: `${match[1]} holds the tokens withdrawn on line ${withdrawLine}; destroy_zero aborts unless it is empty, so ${fn.name} fails for any non-zero amount`,
+            span: spanAt(context, fn.bodyStart + match.index, match[0].length, 'not empty'),
+            suggestedFix: {
+              description: 'Deposit the withdrawn asset into a store the module controls (e.g. an object\'s primary store via primary_fungible_store::deposit) instead of destroying it',
+            },
+          };
+        });
+    },
+  },
+];
+
+// Lint Move source. Spans point into `file`, which should be where the compiler sees the code.
+export function lintMove(code: string, file: string): SandboxDiagnostic[] {
+  const masked = mask(code);
+  const context: LintContext = { file, masked, lineStarts: lineStarts(code) };
+  const diagnostics: SandboxDiagnostic[] = [];
+
+  parseFunctions(masked).forEach(fn => {
+    LINT_RULES.forEach(rule => {
+      rule.check(fn, context).forEach(finding => diagnostics.push({ ...finding, source: 'linter', code: rule.id }));
+    });
+  });
+
+  return diagnostics.sort((a, b) => (a.span?.startLine ?? 0) - (b.span?.startLine ?? 0));
+}
@@ -0,0 +1,34 @@
+// Prism grammar for Move, in the refractor format PrismLight.registerLanguage expects.
+// Neither Prism nor refractor ships one.
+
+export function move(Prism: any) {
+  Prism.languages.move = {
+    comment: [
+      { pattern: /\/\*[\s\S]*?\*\//, greedy: true },
+      { pattern: /\/\/.*/, greedy: true },
+    ],
+    // Byte strings b"..." and hex strings x"..."
+    string: { pattern: /\b[bx]"(?:\\[\s\S]|[^\\"])*"/, greedy: true },
+    attribute: { pattern: /#\[[^\]]*\]/, greedy: true, alias: 'attr-name' },
+    'module-name': {
+      pattern: /(\b(?:module|script|use|friend)\s+)[\w@]+(?:::\w+)*/,
+      lookbehind: true,
+      alias: 'class-name',
+    },
+    'function-definition': { pattern: /(\bfun\s+)\w+/, lookbehind: true, alias: 'function' },
+    keyword: /\b(?:abort|acquires|as|break|const|continue|copy|else|entry|enum|friend|fun|has|if|inline|let|loop|match|module|move|mut|native|phantom|public|return|script|spec|struct|use|while|Self)\b/,
+    // assert!, vector[] style built-ins
+    macro: { pattern: /\b\w+!/, alias: 'keyword' },
+    builtin: /\b(?:address|bool|signer|vector|u8|u16|u32|u64|u128|u256|borrow_global|borrow_global_mut|exists|move_from|move_to|freeze)\b/,
+    boolean: /\b(?:false|true)\b/,
+    address: { pattern: /@0x[\da-fA-F]+\b|@\w+|\b0x[\da-fA-F]+\b/, alias: 'number' },
+    number: /\b\d[\d_]*(?:u8|u16|u32|u64|u128|u256)?\b/,
+    'class-name': /\b[A-Z]\w*\b/,
+    function: /\b\w+(?=\s*(?:<[^<>()]*>)?\s*\()/,
+    operator: /::|&&|\|\||\.\.|[-+*\/%&|^!=<>]=?/,
+    punctuation: /[{}[\];(),.:]/,
+  };
+}
+
+move.displayName = 'move';
+move.aliases = [] as string[];
@@ -0,0 +1,597 @@
+import { GeneratedCode, PoolParameters, TokenParameters, VaultParameters } from '@/types';
+import { toBaseUnits } from './aptos';
+
+// Generated code rendered from a vetted template, with a #[test_only] module exercising it
+export interface RenderedTemplate extends GeneratedCode {
+  testModule: string;
+}
+
+const U64_MAX = BigInt('18446744073709551615');
+
+// Identifiers a module name must not collide with
+const MOVE_KEYWORDS = [
+  'abort', 'acquires', 'as', 'break', 'const', 'continue', 'copy', 'else', 'enum', 'false', 'for', 'friend',
+  'fun', 'has', 'if', 'let', 'loop', 'match', 'module', 'move', 'mut', 'native', 'public', 'return', 'script',
+  'spec', 'struct', 'true', 'use', 'while',
+];
+
+// "My Token" → my_token
+function moduleName(name: string, fallback: string): string {
+  const cleaned = name.toLowerCase()
+    .replace(/[^a-z0-9_]+/g, '_')
+    .replace(/^[^a-z]+/, '')
+    .replace(/_+$/, '')
+    .slice(0, 48);
+  if (!cleaned) return fallback;
+  return MOVE_KEYWORDS.indexOf(cleaned) === -1 ? cleaned : `${cleaned}_${fallback}`;
+}
+
+// b"..." literal; quotes, backslashes and non-ASCII bytes are escaped
+function byteString(value: string): string {
+  const bytes = Array.prototype.slice.call(new TextEncoder().encode(value)) as number[];
+  const body = bytes.map(byte => {
+    if (byte === 0x22 || byte === 0x5c) return `\\${String.fromCharCode(byte)}`;
+    if (byte >= 0x20 && byte < 0x7f) return String.fromCharCode(byte);
+    return `\\x${(byte < 16 ? '0' : '') + byte.toString(16)}`;
+  }).join('');
+  return `b"${body}"`;
+}
+
+// User text placed in a Move comment
+function oneLine(value: string): string {
+  return value.replace(/\s+/g, ' ').replace(/\*\//g, '*');
+}
+
+function u64(value: bigint, label: string): string {
+  if (value > U64_MAX) {
+    throw new Error(`${label} does not fit in a u64`);
+  }
+  return value.toString();
+}
+
+// Whole base units, as pool liquidity and vault deposits are entered
+function baseUnits(value: string, label: string): bigint {
+  if (!/^\d+$/.test(value.trim())) {
+    throw new Error(`${label} must be a whole number of base units`);
+  }
+  return BigInt(value.trim());
+}
+
+// Percentage → basis points; 100% would leave nothing to swap or withdraw
+function feeBps(fee: number, label: string): number {
+  const bps = Math.round(fee * 100);
+  if (bps < 0 || bps >= 10000) {
+    throw new Error(`${label} must be at least 0% and below 100%`);
+  }
+  return bps;
+}
+
+// Shared by the pool and vault tests: a fungible asset minted to `recipient`
+function testTokenHelper(): string {
+  return `    fun create_test_token(creator: &signer, seed: vector<u8>, recipient: address, amount: u64): Object<Metadata> {
+        let constructor_ref = &object::create_named_object(creator, seed);
+        primary_fungible_store::create_primary_store_enabled_fungible_asset(
+            constructor_ref,
+            option::none(),
+            utf8(seed),
+            utf8(seed),
+            8,
+            utf8(b""),
+            utf8(b""),
+        );
+        let mint_ref = fungible_asset::generate_mint_ref(constructor_ref);
+        primary_fungible_store::mint(&mint_ref, recipient, amount);
+        object::object_from_constructor_ref<Metadata>(constructor_ref)
+    }`;
+}
+
+export function renderTokenTemplate(parameters: TokenParameters): RenderedTemplate {
+  const ident = moduleName(parameters.name, 'token');
+  const supply = u64(toBaseUnits(parameters.totalSupply, parameters.decimals), 'Total supply in base units');
+
+  const code = `module token_addr::${ident} {
+    use std::option;
+    use std::signer;
+    use std::string::utf8;
+    use aptos_framework::fungible_asset::{Self, BurnRef, Metadata, MintRef};
+    use aptos_framework::object::{Self, Object};
+    use aptos_framework::primary_fungible_store;
+
+    /// Caller did not create the token
+    const E_NOT_OWNER: u64 = 1;
+
+    const NAME: vector<u8> = ${byteString(parameters.name)};
+    const SYMBOL: vector<u8> = ${byteString(parameters.symbol)};
+    const DECIMALS: u8 = ${parameters.decimals};
+    /// ${parameters.totalSupply} ${oneLine(parameters.symbol)} in base units
+    const INITIAL_SUPPLY: u64 = ${supply};
+    const ICON_URI: vector<u8> = ${byteString(parameters.iconUri || '')};
+    const PROJECT_URI: vector<u8> = ${byteString(parameters.projectUri || '')};
+
+    /// Held by the creator; only they can mint and burn
+    struct TokenRefs has key {
+        mint_ref: MintRef,
+        burn_ref: BurnRef,
+    }
+
+    /// Create the asset as a named object of the creator and mint the initial supply to them
+    public entry fun create_token(creator: &signer) {
+        let constructor_ref = &object::create_named_object(creator, SYMBOL);
+        primary_fungible_store::create_primary_store_enabled_fungible_asset(
+            constructor_ref,
+            option::none(),
+            utf8(NAME),
+            utf8(SYMBOL),
+            DECIMALS,
+            utf8(ICON_URI),
+            utf8(PROJECT_URI),
+        );
+
+        let mint_ref = fungible_asset::generate_mint_ref(constructor_ref);
+        let burn_ref = fungible_asset::generate_burn_ref(constructor_ref);
+        primary_fungible_store::mint(&mint_ref, signer::address_of(creator), INITIAL_SUPPLY);
+        move_to(creator, TokenRefs { mint_ref, burn_ref });
+    }
+
+    /// Mint new tokens to \`to\` (creator only)
+    public entry fun mint(owner: &signer, to: address, amount: u64) acquires TokenRefs {
+        let owner_addr = signer::address_of(owner);
+        assert!(exists<TokenRefs>(owner_addr), E_NOT_OWNER);
+        let refs = borrow_global<TokenRefs>(owner_addr);
+        primary_fungible_store::mint(&refs.mint_ref, to, amount);
+    }
+
+    /// Burn tokens from the creator's own balance (creator only)
+    public entry fun burn(owner: &signer, amount: u64) acquires TokenRefs {
+        let owner_addr = signer::address_of(owner);
+        assert!(exists<TokenRefs>(owner_addr), E_NOT_OWNER);
+        let refs = borrow_global<TokenRefs>(owner_addr);
+        primary_fungible_store::burn(&refs.burn_ref, owner_addr, amount);
+    }
+
+    #[view]
+    public fun metadata(creator: address): Object<Metadata> {
+        object::address_to_object<Metadata>(object::create_object_address(&creator, SYMBOL))
+    }
+}`;
+
+  const testModule = `#[test_only]
+module token_addr::${ident}_tests {
+    use aptos_framework::primary_fungible_store;
+    use token_addr::${ident};
+
+    #[test(creator = @token_addr)]
+    fun test_create_token_mints_initial_supply(creator: &signer) {
+        ${ident}::create_token(creator);
+        let metadata = ${ident}::metadata(@token_addr);
+        assert!(primary_fungible_store::balance(@token_addr, metadata) == ${supply}, 0);
+    }
+
+    #[test(creator = @token_addr, other = @0xb0b)]
+    #[expected_failure(abort_code = 1, location = token_addr::${ident})]
+    fun test_mint_requires_creator(creator: &signer, other: &signer) {
+        ${ident}::create_token(creator);
+        ${ident}::mint(other, @0xb0b, 1);
+    }
+}`;
+
+  return {
+    code,
+    testModule,
+    explanation: `Fungible asset "${parameters.name}" (${parameters.symbol}) with ${parameters.decimals} decimals.
+- create_token creates the asset as a named object of the creator and mints ${parameters.totalSupply} ${parameters.symbol} to them
+- mint and burn abort with E_NOT_OWNER unless called by the creator, who holds the mint and burn refs
+- metadata returns the asset's metadata object, used to refer to the token in pools and vaults`,
+    deploymentSteps: [
+      'Compile the package\naptos move compile --named-addresses token_addr=default',
+      'Publish the module\naptos move publish --named-addresses token_addr=default',
+      `Create the token and mint the initial supply\naptos move run --function-id default::${ident}::create_token`,
+    ],
+    securityNotes: 'The mint and burn refs never leave the creator account. Supply is not capped: the creator can mint more at any time, so transfer or discard the account if a fixed supply is required.',
+  };
+}
+
+export function renderPoolTemplate(parameters: PoolParameters): RenderedTemplate {
+  const ident = moduleName(parameters.name, 'pool');
+  const bps = feeBps(parameters.fee, 'Pool fee');
+  const liquidityA = u64(baseUnits(parameters.initialLiquidityA, 'Initial liquidity A'), 'Initial liquidity A');
+  const liquidityB = u64(baseUnits(parameters.initialLiquidityB, 'Initial liquidity B'), 'Initial liquidity B');
+
+  const code = `module pool_addr::${ident} {
+    use std::signer;
+    use aptos_framework::fungible_asset::Metadata;
+    use aptos_framework::object::{Self, ExtendRef, Object};
+    use aptos_framework::primary_fungible_store;
+    use aptos_std::math128;
+    use aptos_std::table::{Self, Table};
+
+    const E_POOL_EXISTS: u64 = 1;
+    const E_POOL_NOT_FOUND: u64 = 2;
+    const E_IDENTICAL_TOKENS: u64 = 3;
+    const E_ZERO_AMOUNT: u64 = 4;
+    const E_INSUFFICIENT_LIQUIDITY: u64 = 5;
+    const E_INSUFFICIENT_OUTPUT: u64 = 6;
+    const E_INSUFFICIENT_SHARES: u64 = 7;
+
+    /// Swap fee in basis points (${parameters.fee}%), kept in the pool for liquidity providers
+    const FEE_BPS: u64 = ${bps};
+    const BPS_DENOMINATOR: u64 = 10000;
+
+    /// Constant-product pool for ${oneLine(parameters.tokenA)} / ${oneLine(parameters.tokenB)}, stored at the creator's address.
+    /// Reserves are held by a separate object account that only this module can sign for.
+    struct Pool has key {
+        token_x: Object<Metadata>,
+        token_y: Object<Metadata>,
+        reserve_x: u64,
+        reserve_y: u64,
+        total_shares: u64,
+        shares: Table<address, u64>,
+        extend_ref: ExtendRef,
+    }
+
+    public entry fun create_pool(creator: &signer, token_x: Object<Metadata>, token_y: Object<Metadata>) {
+        let creator_addr = signer::address_of(creator);
+        assert!(!exists<Pool>(creator_addr), E_POOL_EXISTS);
+        assert!(token_x != token_y, E_IDENTICAL_TOKENS);
+
+        let constructor_ref = &object::create_object(creator_addr);
+        move_to(creator, Pool {
+            token_x,
+            token_y,
+            reserve_x: 0,
+            reserve_y: 0,
+            total_shares: 0,
+            shares: table::new(),
+            extend_ref: object::generate_extend_ref(constructor_ref),
+        });
+    }
+
+    /// Deposit both tokens; the first provider sets the price
+    public entry fun add_liquidity(user: &signer, pool_addr: address, amount_x: u64, amount_y: u64) acquires Pool {
+        assert!(amount_x > 0 && amount_y > 0, E_ZERO_AMOUNT);
+        assert!(exists<Pool>(pool_addr), E_POOL_NOT_FOUND);
+        let pool = borrow_global_mut<Pool>(pool_addr);
+
+        let minted = if (pool.total_shares == 0) {
+            (math128::sqrt((amount_x as u128) * (amount_y as u128)) as u64)
+        } else {
+            let shares_x = mul_div(amount_x, pool.total_shares, pool.reserve_x);
+            let shares_y = mul_div(amount_y, pool.total_shares, pool.reserve_y);
+            if (shares_x < shares_y) shares_x else shares_y
+        };
+        assert!(minted > 0, E_INSUFFICIENT_LIQUIDITY);
+
+        let reserves = object::address_from_extend_ref(&pool.extend_ref);
+        primary_fungible_store::transfer(user, pool.token_x, reserves, amount_x);
+        primary_fungible_store::transfer(user, pool.token_y, reserves, amount_y);
+
+        pool.reserve_x = pool.reserve_x + amount_x;
+        pool.reserve_y = pool.reserve_y + amount_y;
+        pool.total_shares = pool.total_shares + minted;
+        let user_shares = table::borrow_mut_with_default(&mut pool.shares, signer::address_of(user), 0);
+        *user_shares = *user_shares + minted;
+    }
+
+    /// Burn \`shares\` and withdraw the proportional amount of both tokens
+    public entry fun remove_liquidity(user: &signer, pool_addr: address, shares: u64) acquires Pool {
+        assert!(shares > 0, E_ZERO_AMOUNT);
+        assert!(exists<Pool>(pool_addr), E_POOL_NOT_FOUND);
+        let pool = borrow_global_mut<Pool>(pool_addr);
+        let user_addr = signer::address_of(user);
+
+        assert!(table::contains(&pool.shares, user_addr), E_INSUFFICIENT_SHARES);
+        let user_shares = table::borrow_mut(&mut pool.shares, user_addr);
+        assert!(*user_shares >= shares, E_INSUFFICIENT_SHARES);
+        *user_shares = *user_shares - shares;
+
+        let amount_x = mul_div(shares, pool.reserve_x, pool.total_shares);
+        let amount_y = mul_div(shares, pool.reserve_y, pool.total_shares);
+        pool.reserve_x = pool.reserve_x - amount_x;
+        pool.reserve_y = pool.reserve_y - amount_y;
+        pool.total_shares = pool.total_shares - shares;
+
+        let pool_signer = object::generate_signer_for_extending(&pool.extend_ref);
+        primary_fungible_store::transfer(&pool_signer, pool.token_x, user_addr, amount_x);
+        primary_fungible_store::transfer(&pool_signer, pool.token_y, user_addr, amount_y);
+    }
+
+    public entry fun swap_x_for_y(user: &signer, pool_addr: address, amount_in: u64, min_out: u64) acquires Pool {
+        swap(user, pool_addr, amount_in, min_out, true);
+    }
+
+    public entry fun swap_y_for_x(user: &signer, pool_addr: address, amount_in: u64, min_out: u64) acquires Pool {
+        swap(user, pool_addr, amount_in, min_out, false);
+    }
+
+    fun swap(user: &signer, pool_addr: address, amount_in: u64, min_out: u64, x_for_y: bool) acquires Pool {
+        assert!(amount_in > 0, E_ZERO_AMOUNT);
+        assert!(exists<Pool>(pool_addr), E_POOL_NOT_FOUND);
+        let pool = borrow_global_mut<Pool>(pool_addr);
+
+        let (token_in, token_out, reserve_in, reserve_out) = if (x_for_y) {
+            (pool.token_x, pool.token_y, pool.reserve_x, pool.reserve_y)
+        } else {
+            (pool.token_y, pool.token_x, pool.reserve_y, pool.reserve_x)
+        };
+        let amount_out = get_amount_out(amount_in, reserve_in, reserve_out);
+        assert!(amount_out > 0 && amount_out >= min_out, E_INSUFFICIENT_OUTPUT);
+
+        let reserves = object::address_from_extend_ref(&pool.extend_ref);
+        primary_fungible_store::transfer(user, token_in, reserves, amount_in);
+        let pool_signer = object::generate_signer_for_extending(&pool.extend_ref);
+        primary_fungible_store::transfer(&pool_signer, token_out, signer::address_of(user), amount_out);
+
+        if (x_for_y) {
+            pool.reserve_x = pool.reserve_x + amount_in;
+            pool.reserve_y = pool.reserve_y - amount_out;
+        } else {
+            pool.reserve_y = pool.reserve_y + amount_in;
+            pool.reserve_x = pool.reserve_x - amount_out;
+        };
+    }
+
+    /// Output for \`amount_in\` after the fee, keeping reserve_in * reserve_out constant.
+    /// Computed in u256 so large reserves cannot overflow.
+    #[view]
+    public fun get_amount_out(amount_in: u64, reserve_in: u64, reserve_out: u64): u64 {
+        assert!(reserve_in > 0 && reserve_out > 0, E_INSUFFICIENT_LIQUIDITY);
+        let amount_in_with_fee = (amount_in as u256) * ((BPS_DENOMINATOR - FEE_BPS) as u256);
+        let numerator = amount_in_with_fee * (reserve_out as u256);
+        let denominator = (reserve_in as u256) * (BPS_DENOMINATOR as u256) + amount_in_with_fee;
+        ((numerator / denominator) as u64)
+    }
+
+    #[view]
+    public fun get_reserves(pool_addr: address): (u64, u64) acquires Pool {
+        let pool = borrow_global<Pool>(pool_addr);
+        (pool.reserve_x, pool.reserve_y)
+    }
+
+    #[view]
+    public fun shares_of(pool_addr: address, user: address): u64 acquires Pool {
+        let pool = borrow_global<Pool>(pool_addr);
+        if (table::contains(&pool.shares, user)) *table::borrow(&pool.shares, user) else 0
+    }
+
+    fun mul_div(a: u64, b: u64, c: u64): u64 {
+        (((a as u128) * (b as u128) / (c as u128)) as u64)
+    }
+}`;
+
+  const testModule = `#[test_only]
+module pool_addr::${ident}_tests {
+    use std::option;
+    use std::string::utf8;
+    use aptos_framework::fungible_asset::{Self, Metadata};
+    use aptos_framework::object::{Self, Object};
+    use aptos_framework::primary_fungible_store;
+    use pool_addr::${ident};
+
+${testTokenHelper()}
+
+    #[test(creator = @pool_addr)]
+    fun test_add_liquidity_and_swap(creator: &signer) {
+        let token_x = create_test_token(creator, b"X", @pool_addr, 1000000);
+        let token_y = create_test_token(creator, b"Y", @pool_addr, 1000000);
+        ${ident}::create_pool(creator, token_x, token_y);
+        ${ident}::add_liquidity(creator, @pool_addr, 100000, 100000);
+
+        let expected_out = ${ident}::get_amount_out(1000, 100000, 100000);
+        ${ident}::swap_x_for_y(creator, @pool_addr, 1000, expected_out);
+
+        let (reserve_x, reserve_y) = ${ident}::get_reserves(@pool_addr);
+        assert!(reserve_x == 101000, 0);
+        assert!(reserve_y == 100000 - expected_out, 1);
+        assert!(primary_fungible_store::balance(@pool_addr, token_y) == 900000 + expected_out, 2);
+    }
+
+    #[test(creator = @pool_addr)]
+    #[expected_failure(abort_code = 6, location = pool_addr::${ident})]
+    fun test_swap_respects_min_out(creator: &signer) {
+        let token_x = create_test_token(creator, b"X", @pool_addr, 1000000);
+        let token_y = create_test_token(creator, b"Y", @pool_addr, 1000000);
+        ${ident}::create_pool(creator, token_x, token_y);
+        ${ident}::add_liquidity(creator, @pool_addr, 100000, 100000);
+        ${ident}::swap_x_for_y(creator, @pool_addr, 1000, 1000);
+    }
+}`;
+
+  return {
+    code,
+    testModule,
+    explanation: `Constant-product (x * y = k) pool "${parameters.name}" pairing ${parameters.tokenA} with ${parameters.tokenB}.
+- create_pool stores the pool at the creator's address; reserves live in an object account only the module can sign for
+- add_liquidity and remove_liquidity mint and burn shares in proportion to the reserves
+- swaps charge ${parameters.fee}% (${bps} basis points), which stays in the pool for liquidity providers
+- swap math runs in u256 and every swap takes a min_out slippage bound`,
+    deploymentSteps: [
+      'Publish the module\naptos move publish --named-addresses pool_addr=default',
+      `Create the pool with the two tokens' metadata object addresses\naptos move run --function-id default::${ident}::create_pool --args address:<token_a_metadata> address:<token_b_metadata>`,
+      `Add the initial liquidity\naptos move run --function-id default::${ident}::add_liquidity --args address:<pool_address> u64:${liquidityA} u64:${liquidityB}`,
+    ],
+    securityNotes: 'Always pass a realistic min_out when swapping; a zero bound accepts any price and invites sandwich attacks. The first deposit sets the price, so seed the pool at the market ratio.',
+  };
+}
+
+export function renderVaultTemplate(parameters: VaultParameters): RenderedTemplate {
+  const ident = moduleName(parameters.name, 'vault');
+  const bps = feeBps(parameters.fee, 'Vault fee');
+  const minDeposit = baseUnits(parameters.minDeposit, 'Minimum deposit');
+  const minDepositLiteral = u64(minDeposit, 'Minimum deposit');
+  const withdrawalFee = (minDeposit * BigInt(bps) / BigInt(10000)).toString();
+
+  const code = `module vault_addr::${ident} {
+    use std::signer;
+    use std::string::{utf8, String};
+    use aptos_framework::fungible_asset::Metadata;
+    use aptos_framework::object::{Self, ExtendRef, Object};
+    use aptos_framework::primary_fungible_store;
+    use aptos_std::table::{Self, Table};
+
+    const E_NOT_OWNER: u64 = 1;
+    const E_VAULT_EXISTS: u64 = 2;
+    const E_VAULT_NOT_FOUND: u64 = 3;
+    const E_BELOW_MIN_DEPOSIT: u64 = 4;
+    const E_ZERO_AMOUNT: u64 = 5;
+    const E_INSUFFICIENT_BALANCE: u64 = 6;
+
+    const STRATEGY: vector<u8> = ${byteString(parameters.strategy)};
+    /// Withdrawal fee in basis points (${parameters.fee}%), collected by the vault owner
+    const FEE_BPS: u64 = ${bps};
+    const BPS_DENOMINATOR: u64 = 10000;
+    /// Smallest accepted deposit, in base units of the vault token
+    const MIN_DEPOSIT: u64 = ${minDepositLiteral};
+
+    /// Vault for ${oneLine(parameters.token)}, stored at the creator's address.
+    /// Deposits are held by a separate object account that only this module can sign for.
+    struct Vault has key {
+        token: Object<Metadata>,
+        total_deposits: u64,
+        fees_collected: u64,
+        balances: Table<address, u64>,
+        extend_ref: ExtendRef,
+    }
+
+    public entry fun create_vault(creator: &signer, token: Object<Metadata>) {
+        let creator_addr = signer::address_of(creator);
+        assert!(!exists<Vault>(creator_addr), E_VAULT_EXISTS);
+
+        let constructor_ref = &object::create_object(creator_addr);
+        move_to(creator, Vault {
+            token,
+            total_deposits: 0,
+            fees_collected: 0,
+            balances: table::new(),
+            extend_ref: object::generate_extend_ref(constructor_ref),
+        });
+    }
+
+    public entry fun deposit(user: &signer, vault_addr: address, amount: u64) acquires Vault {
+        assert!(amount >= MIN_DEPOSIT && amount > 0, E_BELOW_MIN_DEPOSIT);
+        assert!(exists<Vault>(vault_addr), E_VAULT_NOT_FOUND);
+        let vault = borrow_global_mut<Vault>(vault_addr);
+
+        primary_fungible_store::transfer(user, vault.token, object::address_from_extend_ref(&vault.extend_ref), amount);
+        let balance = table::borrow_mut_with_default(&mut vault.balances, signer::address_of(user), 0);
+        *balance = *balance + amount;
+        vault.total_deposits = vault.total_deposits + amount;
+    }
+
+    /// Withdraw \`amount\` of the caller's deposit, less the withdrawal fee
+    public entry fun withdraw(user: &signer, vault_addr: address, amount: u64) acquires Vault {
+        assert!(amount > 0, E_ZERO_AMOUNT);
+        assert!(exists<Vault>(vault_addr), E_VAULT_NOT_FOUND);
+        let vault = borrow_global_mut<Vault>(vault_addr);
+        let user_addr = signer::address_of(user);
+
+        assert!(table::contains(&vault.balances, user_addr), E_INSUFFICIENT_BALANCE);
+        let balance = table::borrow_mut(&mut vault.balances, user_addr);
+        assert!(*balance >= amount, E_INSUFFICIENT_BALANCE);
+        *balance = *balance - amount;
+
+        let fee = (((amount as u128) * (FEE_BPS as u128) / (BPS_DENOMINATOR as u128)) as u64);
+        vault.total_deposits = vault.total_deposits - amount;
+        vault.fees_collected = vault.fees_collected + fee;
+
+        let vault_signer = object::generate_signer_for_extending(&vault.extend_ref);
+        primary_fungible_store::transfer(&vault_signer, vault.token, user_addr, amount - fee);
+    }
+
+    /// Send collected withdrawal fees to the vault owner (owner only)
+    public entry fun collect_fees(owner: &signer) acquires Vault {
+        let owner_addr = signer::address_of(owner);
+        assert!(exists<Vault>(owner_addr), E_NOT_OWNER);
+        let vault = borrow_global_mut<Vault>(owner_addr);
+
+        let fees = vault.fees_collected;
+        vault.fees_collected = 0;
+        let vault_signer = object::generate_signer_for_extending(&vault.extend_ref);
+        primary_fungible_store::transfer(&vault_signer, vault.token, owner_addr, fees);
+    }
+
+    #[view]
+    public fun strategy(): String {
+        utf8(STRATEGY)
+    }
+
+    #[view]
+    public fun balance_of(vault_addr: address, user: address): u64 acquires Vault {
+        let vault = borrow_global<Vault>(vault_addr);
+        if (table::contains(&vault.balances, user)) *table::borrow(&vault.balances, user) else 0
+    }
+
+    #[view]
+    public fun get_vault_info(vault_addr: address): (u64, u64) acquires Vault {
+        let vault = borrow_global<Vault>(vault_addr);
+        (vault.total_deposits, vault.fees_collected)
+    }
+}`;
+
+  const testModule = `#[test_only]
+module vault_addr::${ident}_tests {
+    use std::option;
+    use std::string::utf8;
+    use aptos_framework::fungible_asset::{Self, Metadata};
+    use aptos_framework::object::{Self, Object};
+    use aptos_framework::primary_fungible_store;
+    use vault_addr::${ident};
+
+${testTokenHelper()}
+
+    #[test(creator = @vault_addr, user = @0xa11ce)]
+    fun test_deposit_and_withdraw_charges_fee(creator: &signer, user: &signer) {
+        let token = create_test_token(creator, b"VLT", @0xa11ce, ${minDepositLiteral});
+        ${ident}::create_vault(creator, token);
+
+        ${ident}::deposit(user, @vault_addr, ${minDepositLiteral});
+        assert!(${ident}::balance_of(@vault_addr, @0xa11ce) == ${minDepositLiteral}, 0);
+
+        ${ident}::withdraw(user, @vault_addr, ${minDepositLiteral});
+        let (total_deposits, fees_collected) = ${ident}::get_vault_info(@vault_addr);
+        assert!(total_deposits == 0, 1);
+        assert!(fees_collected == ${withdrawalFee}, 2);
+        assert!(primary_fungible_store::balance(@0xa11ce, token) == ${minDepositLiteral} - ${withdrawalFee}, 3);
+    }
+
+    #[test(creator = @vault_addr, user = @0xa11ce)]
+    #[expected_failure(abort_code = 4, location = vault_addr::${ident})]
+    fun test_deposit_below_minimum(creator: &signer, user: &signer) {
+        let token = create_test_token(creator, b"VLT", @0xa11ce, ${minDepositLiteral});
+        ${ident}::create_vault(creator, token);
+        ${ident}::deposit(user, @vault_addr, ${minDepositLiteral} - 1);
+    }
+}`;
+
+  return {
+    code,
+    testModule,
+    explanation: `Deposit vault "${parameters.name}" for ${parameters.token}, labelled with the "${parameters.strategy}" strategy.
+- create_vault stores the vault at the creator's address; deposits live in an object account only the module can sign for
+- deposit enforces the ${parameters.minDeposit} base-unit minimum and tracks each depositor's balance
+- withdraw returns the deposit less a ${parameters.fee}% (${bps} basis points) fee, which the owner collects with collect_fees
+- The strategy is recorded for display; yield is not generated on chain by this template`,
+    deploymentSteps: [
+      'Publish the module\naptos move publish --named-addresses vault_addr=default',
+      `Create the vault with the token's metadata object address\naptos move run --function-id default::${ident}::create_vault --args address:<token_metadata>`,
+    ],
+    securityNotes: 'Depositors can always withdraw their own balance; the owner can only take collected fees. Earning yield requires integrating a strategy, which should be reviewed separately before deployment.',
+  };
+}
+
+// Render the vetted template for a product. Parameters must already be validated
+// (see validateProductParameters); values that do not fit the template throw.
+export function renderTemplate(
+  type: 'token' | 'pool' | 'vault',
+  parameters: TokenParameters | PoolParameters | VaultParameters
+): RenderedTemplate {
+  switch (type) {
+    case 'token':
+      return { ...renderTokenTemplate(parameters as TokenParameters), source: 'template' };
+    case 'pool':
+      return { ...renderPoolTemplate(parameters as PoolParameters), source: 'template' };
+    case 'vault':
+      return { ...renderVaultTemplate(parameters as VaultParameters), source: 'template' };
+    default:
+      throw new Error('Invalid simulation type');
+  }
+}
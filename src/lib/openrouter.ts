@@ -1,84 +1,281 @@
-import { OpenRouterMessage, OpenRouterResponse } from '@/types';
+import {
+  AIResponse,
+  AuditReport,
+  ChatHistoryMessage,
+  ConversationSummary,
+  GeneratedCode,
+  MoveTestResult,
+  OpenRouterMessage,
+  SandboxDiagnostic,
+  TokenUsage,
+  ToolCallTrace,
+  UserProfile,
+  WalletContext,
+} from '@/types';
+import { AI_CONFIG } from './ai-config';
+import { ChainTools, chainTools } from './chain-tools';
+import { addUsage, estimateTokens, splitAtSummary, summaryMessage, toModelMessages, trimHistory } from './chat-context';
+import { parseGeneratedCode } from './generation-parser';
+import { LLMProvider, llmProvider } from './llm';
+import { assistantActionSchema, auditReportSchema, formatIssues } from './schemas';
+
+// Appended to the chat system prompt so create requests come back with machine-readable parameters
+const ACTION_INSTRUCTIONS = `
+ STRUCTURED ACTIONS:
+When the user asks to create a token, liquidity pool or yield vault and you know enough to prefill it, end your reply with one action block on its own line. Never mention the block in your prose.
+<action>{"action":"create_token","parameters":{"name":"Foo","symbol":"FOO","decimals":8,"totalSupply":"1000000"},"confidence":0.9}</action>
+Parameters per action:
+- create_token: name, symbol (1-10 chars), decimals (0-18, default 8), totalSupply, optional iconUri and projectUri
+- create_pool: name, tokenA, tokenB, fee (percent), initialLiquidityA, initialLiquidityB
+- create_vault: name, token, strategy, fee (percent), minDeposit
+tokenA, tokenB and token are fungible asset metadata addresses ("0x..."); APT is "0xa". Ask for the address of any other token rather than using its name.
+Write amounts as plain decimal strings ("1000000", not "1M"). confidence is 0-1. Leave the block out for questions or when key details are missing; ask for them instead.`;
+
+const ACTION_BLOCK = /<action>([\s\S]*?)<\/action>/g;
+
+const TOOL_INSTRUCTIONS = `
+ ON-CHAIN LOOKUPS:
+You can call read-only tools for balances, pool reserves, vault info, stakes, transactions and deployed module ABIs. Use them whenever the answer depends on current chain state instead of guessing, and mention what you looked up. They cannot sign or submit anything.`;
+
+// Rounds of tool calls per reply; the last round offers no tools, so the model has to answer
+const MAX_TOOL_ROUNDS = 4;
+
+const SUMMARY_SYSTEM_PROMPT = `You maintain a running summary of a conversation between a user and an Aptos DeFi assistant, so the assistant can continue it without the full transcript.
+Keep every decision and product parameter (names, symbols, supplies, fees, amounts), wallet and contract addresses, transactions submitted and open questions. Drop greetings and explanations the user has already acknowledged.
+Reply with the updated summary only, as plain text of at most 200 words.`;
+
+const SUMMARY_MAX_TOKENS = 400;
+
+// Per-turn context sent alongside the conversation history
+export interface ChatContext {
+  // The session's rolling summary from an earlier turn
+  summary?: ConversationSummary;
+  // Connected wallet; without one the assistant is told it knows nothing about holdings
+  wallet?: WalletContext;
+  // Without one the assistant judges the user's level from each message
+  profile?: UserProfile;
+}
+
+// Read from the app and chain on every turn, so answers about holdings are grounded
+function walletPrompt(wallet?: WalletContext): string {
+  if (!wallet) {
+    return `WALLET CONTEXT: no wallet is connected. You know nothing about the user's balances, products or transactions; if they ask, suggest connecting a wallet instead of guessing.`;
+  }
+  return `WALLET CONTEXT (the connected wallet, read from the app and the ${wallet.network || 'Aptos'} network at ${wallet.fetchedAt}):
+${JSON.stringify(wallet, null, 2)}
+Answer questions about the user's holdings, products and transactions from this data only. Anything not listed is unknown, and reads under "unavailable" failed, so say you could not check them rather than estimating. Amounts are in whole units.`;
+}
+
+// Shared by chat, explanations and recommendations so all three pitch answers the same way
+function profilePrompt(profile?: UserProfile): string {
+  if (!profile) {
+    return `USER PROFILE: unknown. Judge the user's expertise from their messages and assume a moderate risk tolerance.`;
+  }
+  return `USER PROFILE (${profile.source === 'user' ? 'set by the user' : 'inferred from their earlier messages'}):
+Expertise: ${profile.expertise}
+Risk tolerance: ${profile.riskTolerance}
+Pitch every answer at this expertise level instead of re-assessing it from each message, and weigh suggestions and warnings to this risk tolerance.${profile.source === 'inferred' ? ' If the user clearly shows a different level, follow what they show.' : ''}`;
+}
+
+// A reply after any tool calls it needed
+interface AgentReply {
+  content: string;
+  usage?: TokenUsage;
+  toolTrace: ToolCallTrace[];
+}
+
+// History after fitting it to the budget, with what that cost
+interface FittedHistory {
+  messages: OpenRouterMessage[];
+  // Only when this turn summarized more of the history
+  summary?: ConversationSummary;
+  usage?: TokenUsage;
+}
+
+// Custom generation requests carry free-text requirements on top of the product parameters;
+// standard parameters are rendered from templates without a model call (see move-templates.ts)
+function withRequirements(systemPrompt: string, requirements?: string): string {
+  return requirements?.trim()
+    ? `${systemPrompt}\n\nCUSTOM REQUIREMENTS (take priority over the defaults above):\n${requirements.trim()}`
+    : systemPrompt;
+}
+
+// Split a chat completion into prose and a validated action. An invalid block is dropped
+// rather than surfaced, so a malformed model reply never yields a broken action card.
+export function parseAssistantResponse(content: string): AIResponse {
+  const blocks: string[] = [];
+  const message = content.replace(ACTION_BLOCK, (_, block: string) => {
+    blocks.push(block);
+    return '';
+  }).trim();
+
+  const block = blocks[blocks.length - 1];
+  if (!block) {
+    return { message, confidence: 0 };
+  }
 
-const OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1';
-const OPENROUTER_API_KEY = process.env.NEXT_PUBLIC_OPENROUTER_API_KEY;
+  let json: unknown;
+  try {
+    json = JSON.parse(block);
+  } catch {
+    console.warn('Discarding unparseable assistant action block');
+    return { message, confidence: 0 };
+  }
 
+  const parsed = assistantActionSchema.safeParse(json);
+  if (!parsed.success) {
+    console.warn('Discarding invalid assistant action:', formatIssues(parsed.error));
+    return { message, confidence: 0 };
+  }
+
+  return {
+    message,
+    action: parsed.data.action,
+    parameters: parsed.data.parameters,
+    confidence: parsed.data.confidence,
+  };
+}
+
+// Prompts for chat, code generation and review, run on the configured LLM provider.
+// Server-only: components go through assistantClient.
 export class OpenRouterService {
-  private apiKey: string;
-  private baseURL: string;
+  constructor(
+    private provider: LLMProvider = llmProvider,
+    private tools: ChainTools | null = AI_CONFIG.chatTools ? chainTools : null
+  ) {}
+
+  // History is fitted to the chat budget first (see fitHistory), then the model may look
+  // things up on chain before answering (see runAgent)
+  async chatWithAssistant(
+    userMessage: string,
+    conversationHistory: ChatHistoryMessage[] = [],
+    context: ChatContext = {}
+  ): Promise<AIResponse> {
+    const history = await this.fitHistory(conversationHistory, context.summary);
+    const reply = await this.runAgent(this.chatMessages(userMessage, history.messages, context));
+    return this.chatResponse(reply, history);
+  }
+
+  // Same as chatWithAssistant, but calls onToken as the reply is generated. Tokens are raw,
+  // so they can include the action block that the returned AIResponse has stripped.
+  async streamChatWithAssistant(
+    userMessage: string,
+    conversationHistory: ChatHistoryMessage[] = [],
+    onToken: (token: string) => void,
+    signal?: AbortSignal,
+    context: ChatContext = {}
+  ): Promise<AIResponse> {
+    const history = await this.fitHistory(conversationHistory, context.summary, signal);
+    const reply = await this.runAgent(this.chatMessages(userMessage, history.messages, context), onToken, signal);
+    return this.chatResponse(reply, history);
+  }
 
-  constructor() {
-    this.apiKey = OPENROUTER_API_KEY || '';
-    this.baseURL = OPENROUTER_BASE_URL;
+  private chatResponse(reply: AgentReply, history: FittedHistory): AIResponse {
+    return {
+      ...parseAssistantResponse(reply.content),
+      usage: addUsage(history.usage, reply.usage),
+      summary: history.summary,
+      ...(reply.toolTrace.length > 0 ? { toolTrace: reply.toolTrace } : {}),
+    };
   }
 
-  private async makeRequest(
+  // Complete the conversation, executing the model's tool calls and feeding the results back
+  // until it answers. Text from every round is kept (e.g. "Let me check the pool..."), and
+  // streamed as it arrives when onToken is given.
+  private async runAgent(
     messages: OpenRouterMessage[],
-    model: string = 'qwen/qwen-2.5-coder-32b-instruct',
-    retries = 2
-  ) {
-    if (!this.apiKey) {
-      throw new Error('OpenRouter API key not configured');
-    }
+    onToken?: (token: string) => void,
+    signal?: AbortSignal
+  ): Promise<AgentReply> {
+    const conversation = [...messages];
+    const reply: AgentReply = { content: '', toolTrace: [] };
+
+    for (let round = 0; ; round++) {
+      const tools = this.tools && round < MAX_TOOL_ROUNDS ? this.tools.definitions : undefined;
+      const separator = reply.content ? '\n\n' : '';
+      let streamed = false;
+
+      const completion = onToken
+        ? await this.provider.stream(conversation, (token) => {
+            if (!streamed && separator) onToken(separator);
+            streamed = true;
+            onToken(token);
+          }, { signal, tools })
+        : await this.provider.complete(conversation, { signal, tools });
+
+      reply.usage = addUsage(reply.usage, completion.usage);
+      if (completion.content.trim()) {
+        reply.content += separator + completion.content;
+      }
 
-    let lastError: any;
-
-    for (let i = 0; i <= retries; i++) {
-      const response = await fetch(`${this.baseURL}/chat/completions`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json',
-          'HTTP-Referer': process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000',
-          'X-Title': 'Aptos Assistant DeFi',
-        },
-        body: JSON.stringify({
-          model,
-          messages,
-          temperature: 0.3, // Slightly increased for more natural responses
-          max_tokens: 3000, // Increased for more detailed responses
-          stream: false,
-        }),
-      });
-
-      if (response.status === 429) {
-        const retryAfter = response.headers.get('Retry-After');
-        const delay = retryAfter
-          ? parseInt(retryAfter, 10) * 1000
-          : Math.pow(2, i) * 1000;
-
-        console.warn(`429 rate limit hit on model ${model}. Retrying in ${delay / 1000}s...`);
-
-        if (model.endsWith(':free')) {
-          console.warn(`Switching from ${model} to ${model.replace(':free', '')}`);
-          model = model.replace(':free', '');
-        }
-
-        if (i === retries) {
-          throw new Error('OpenRouter API error: too many retries after 429');
-        }
-
-        await new Promise((res) => setTimeout(res, delay));
-        lastError = new Error('429 Too Many Requests');
-        continue;
+      if (!this.tools || !tools || !completion.toolCalls?.length) {
+        return reply;
       }
 
-      if (!response.ok) {
-        throw new Error(`OpenRouter API error: ${response.status} ${response.statusText}`);
+      conversation.push({ role: 'assistant', content: completion.content, tool_calls: completion.toolCalls });
+      for (const call of completion.toolCalls) {
+        const { trace, content } = await this.tools.run(call);
+        reply.toolTrace.push(trace);
+        conversation.push({ role: 'tool', tool_call_id: call.id, content });
       }
+    }
+  }
 
-      return response.json() as Promise<OpenRouterResponse>;
+  // Keep history within AI_CONFIG.chatHistory.maxTokens. Over budget, everything but the recent
+  // and pinned messages is folded into the rolling summary; if that is not enough (or the
+  // summary call fails), the oldest unpinned messages are dropped.
+  private async fitHistory(
+    conversationHistory: ChatHistoryMessage[],
+    previousSummary?: ConversationSummary,
+    signal?: AbortSignal
+  ): Promise<FittedHistory> {
+    const { maxTokens, recentMessages } = AI_CONFIG.chatHistory;
+    let { summary, pinned, rest } = splitAtSummary(conversationHistory, previousSummary);
+    const assemble = () => [...(summary ? [summaryMessage(summary)] : []), ...pinned, ...rest];
+
+    if (estimateTokens(assemble()) <= maxTokens) {
+      return { messages: toModelMessages(assemble()) };
     }
 
-    throw lastError || new Error('OpenRouter API error: request failed after retries');
+    const foldable = rest.slice(0, Math.max(0, rest.length - recentMessages));
+    const through = foldable[foldable.length - 1]?.id;
+    let fitted: FittedHistory = { messages: [] };
+
+    if (through && foldable.some(message => !message.pinned)) {
+      try {
+        const completion = await this.provider.complete(
+          this.summaryMessages(summary, foldable.filter(message => !message.pinned)),
+          { maxTokens: SUMMARY_MAX_TOKENS, signal }
+        );
+        summary = { content: completion.content.trim(), throughMessageId: through };
+        pinned = [...pinned, ...foldable.filter(message => message.pinned)];
+        rest = rest.slice(foldable.length);
+        fitted = { messages: [], summary, usage: completion.usage };
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        console.warn('Conversation summary failed, trimming history instead:', error);
+      }
+    }
+
+    return { ...fitted, messages: toModelMessages(trimHistory(assemble(), maxTokens)) };
   }
-  
-  async chatWithAssistant(userMessage: string, conversationHistory: OpenRouterMessage[] = []) {
+
+  private summaryMessages(summary: ConversationSummary | undefined, messages: ChatHistoryMessage[]): OpenRouterMessage[] {
+    const transcript = messages.map(message => `${message.role}: ${message.content}`).join('\n\n');
+    return [
+      { role: 'system', content: SUMMARY_SYSTEM_PROMPT },
+      {
+        role: 'user',
+        content: `Summarize this conversation so far.\n\nPrevious summary:\n${summary?.content || '(none)'}\n\nNew messages:\n${transcript}`,
+      },
+    ];
+  }
+
+  private chatMessages(userMessage: string, conversationHistory: OpenRouterMessage[], context: ChatContext): OpenRouterMessage[] {
     const systemPrompt = `You are an expert Aptos DeFi assistant that adapts to user expertise levels. Your mission is to make DeFi accessible while providing depth when needed.
-Let’s keep the language simple and easy to follow, matching the user’s level. Write in a normal flowing style instead of using markdown symbols like , , or bullet points. The tone should feel like a friendly chat, keeping the user engaged and comfortable. Ask follow-up questions to guide them naturally, and always focus on the next immediate step instead of giving overwhelming information. Avoid technical jargon, make explanations light and clear, and add warmth and enthusiasm like a helpful friend. Whenever possible, offer simple actionable choices or buttons so the user feels supported in moving forward.
+Let’s keep the language simple and easy to follow, matching the user’s level. Replies are rendered as markdown, so use it lightly: short paragraphs, a few bullet points, **bold** for the one thing that matters, and \`inline code\` for addresses and function names. The tone should feel like a friendly chat, keeping the user engaged and comfortable. Ask follow-up questions to guide them naturally, and always focus on the next immediate step instead of giving overwhelming information. Avoid technical jargon, make explanations light and clear, and add warmth and enthusiasm like a helpful friend. Whenever possible, offer simple actionable choices or buttons so the user feels supported in moving forward.
  RESPONSE ADAPTATION RULES:
-Detect user level from their message:
---NEVER EVER USE MARKDOWN FORMAT, no stuff like bolding etc just try to make points using hyphen
+Use the USER PROFILE below when it is given; otherwise detect the user's level from their message:
 - Beginner indicators: "what is", "how do I start", "I'm new", simple questions
 - Intermediate indicators: specific technical terms, previous DeFi experience mentioned
 - Advanced indicators: detailed technical questions, smart contract specifics, complex strategies
@@ -94,8 +291,7 @@ For ALL responses, use clear visual structure:
 
  💡 Key Points
 - Keep each point concise but informative
-- DONT USE * or any special symbol
-- Remove all markdown formatting (###, **, bullets)
+- Put any Move code in a fenced block that starts with \`\`\`move, never inline or unfenced
 
  ⚠️ Important Notes (when applicable)
 [Risks, warnings, or crucial considerations]
@@ -133,16 +329,16 @@ Focus on Aptos-specific features:
 
 If asked about other blockchains, acknowledge but redirect: "While Ethereum has similar concepts, on Aptos we benefit from..."
 
-Remember: Every response should be immediately useful and appropriately detailed for the user's level.`;
+Remember: Every response should be immediately useful and appropriately detailed for the user's level.
+${ACTION_INSTRUCTIONS}${this.tools ? TOOL_INSTRUCTIONS : ''}`;
 
-    const messages: OpenRouterMessage[] = [
+    return [
       { role: 'system', content: systemPrompt },
+      { role: 'system', content: walletPrompt(context.wallet) },
+      { role: 'system', content: profilePrompt(context.profile) },
       ...conversationHistory,
       { role: 'user', content: userMessage }
     ];
-
-    const response = await this.makeRequest(messages);
-    return response.choices[0].message.content;
   }
 
   async generateTokenCode(parameters: {
@@ -152,7 +348,7 @@ Remember: Every response should be immediately useful and appropriately detailed
     totalSupply: string;
     iconUri?: string;
     projectUri?: string;
-  }) {
+  }, requirements?: string): Promise<GeneratedCode> {
     const systemPrompt = `You are an expert Move developer. Generate clean, well-documented Move code for Aptos fungible assets.
 
  CODE REQUIREMENTS:
@@ -193,15 +389,15 @@ PARAMETERS PROVIDED:
 - Project URI: ${parameters.projectUri || 'Not provided'}`;
 
     const messages: OpenRouterMessage[] = [
-      { role: 'system', content: systemPrompt },
+      { role: 'system', content: withRequirements(systemPrompt, requirements) },
       { 
         role: 'user', 
         content: `Generate Move code for token creation with these parameters: ${JSON.stringify(parameters)}` 
       }
     ];
 
-    const response = await this.makeRequest(messages);
-    return response.choices[0].message.content;
+    const response = await this.provider.complete(messages);
+    return parseGeneratedCode(response.content);
   }
 
   async generatePoolCode(parameters: {
@@ -211,7 +407,7 @@ PARAMETERS PROVIDED:
     fee: number;
     initialLiquidityA: string;
     initialLiquidityB: string;
-  }) {
+  }, requirements?: string): Promise<GeneratedCode> {
     const systemPrompt = `You are an expert Move developer specializing in Aptos liquidity pools.
 
  RESPONSE FORMAT:
@@ -241,15 +437,15 @@ Liquidity Details:
 Generate code that's production-ready with proper validation and security measures.`;
 
     const messages: OpenRouterMessage[] = [
-      { role: 'system', content: systemPrompt },
+      { role: 'system', content: withRequirements(systemPrompt, requirements) },
       { 
         role: 'user', 
         content: `Generate liquidity pool code: ${JSON.stringify(parameters)}` 
       }
     ];
 
-    const response = await this.makeRequest(messages);
-    return response.choices[0].message.content;
+    const response = await this.provider.complete(messages);
+    return parseGeneratedCode(response.content);
   }
 
   async generateVaultCode(parameters: {
@@ -258,7 +454,7 @@ Generate code that's production-ready with proper validation and security measur
     strategy: string;
     fee: number;
     minDeposit: string;
-  }) {
+  }, requirements?: string): Promise<GeneratedCode> {
     const systemPrompt = `You are an expert Move developer specializing in Aptos yield strategies.
 
  RESPONSE FORMAT:
@@ -290,76 +486,116 @@ Vault Details:
 Focus on secure, gas-efficient code with clear upgrade paths.`;
 
     const messages: OpenRouterMessage[] = [
-      { role: 'system', content: systemPrompt },
+      { role: 'system', content: withRequirements(systemPrompt, requirements) },
       { 
         role: 'user', 
         content: `Generate yield vault code: ${JSON.stringify(parameters)}` 
       }
     ];
 
-    const response = await this.makeRequest(messages);
-    return response.choices[0].message.content;
+    const response = await this.provider.complete(messages);
+    return parseGeneratedCode(response.content);
   }
 
-  async analyzeCode(code: string, type: 'token' | 'pool' | 'vault') {
-    const systemPrompt = `You are a Move security auditor and code reviewer. Provide comprehensive analysis that's accessible to different skill levels.
+  // Ask for a corrected version of code that failed to compile or whose tests failed
+  async repairCode(
+    code: string,
+    type: 'token' | 'pool' | 'vault',
+    diagnostics: SandboxDiagnostic[],
+    tests: MoveTestResult[] = []
+  ): Promise<GeneratedCode> {
+    const systemPrompt = `You are an expert Move developer fixing Aptos ${type} code that does not build or pass its tests.
+
+ REPAIR RULES:
+- Return the complete corrected source, not a diff or an excerpt
+- Keep module names, public function signatures and behaviour unless a diagnostic requires a change
+- Fix every error; address warnings when it is safe to do so
+- If no #[test] functions exist, add a #[test_only] module that exercises the entry functions
 
- ANALYSIS FORMAT:
-
- 🎯 Quick Assessment
-Overall Rating: [Secure/Needs Improvement/Critical Issues]
-Deployment Ready: [Yes/No with key blockers]
-
- 🔍 Detailed Review
-
- ✅ Strengths
-[What the code does well]
-
- ⚠️ Issues Found
-Critical Issues (Must fix before deployment):
-- [List any security vulnerabilities]
+ RESPONSE FORMAT:
 
-Improvements (Recommended optimizations):
-- [Gas optimizations, code clarity, etc.]
+ 🔧 Generated Code
+\`\`\`move
+[Complete corrected Move code]
+\`\`\`
 
-Style Issues (Minor improvements):
-- [Naming, documentation, formatting]
+ 📝 Code Explanation
+[One line per fix: what was wrong and how it was changed]`;
+
+    const problems = diagnostics.map(diagnostic => {
+      const location = diagnostic.span ? ` (line ${diagnostic.span.startLine}, column ${diagnostic.span.startColumn})` : '';
+      return `- ${diagnostic.severity}${diagnostic.code ? ` ${diagnostic.code}` : ''}${location}: ${diagnostic.message}`;
+    });
+    const failures = tests
+      .filter(test => test.status !== 'pass')
+      .map(test => `- ${test.name}: ${test.status}${test.message ? ` - ${test.message}` : ''}${
+        test.abortCode !== undefined ? ` (abort code ${test.abortCode})` : ''
+      }`);
 
- 🛠️ Specific Fixes
-\`\`\`move
-// Before (problematic code)
-[Show problematic code sections]
+    const messages: OpenRouterMessage[] = [
+      { role: 'system', content: systemPrompt },
+      {
+        role: 'user',
+        content: `Repair this Move code.\n\nDiagnostics:\n${problems.join('\n') || '- none'}\n\nFailing tests:\n${
+          failures.join('\n') || '- none'
+        }\n\nSource:\n\`\`\`move\n${code}\n\`\`\``
+      }
+    ];
 
-// After (improved version)
-[Show corrected versions]
-\`\`\`
+    const response = await this.provider.complete(messages);
+    return parseGeneratedCode(response.content);
+  }
 
- 📋 Security Checklist
-- [ ] Access controls implemented
-- [ ] Input validation present
-- [ ] Error handling comprehensive
-- [ ] Gas optimization considered
-- [ ] Upgrade patterns secure
+  // Security review as a validated AuditReport. The code is sent with line numbers so
+  // findings can point at line ranges in the editor.
+  async analyzeCode(code: string, type: 'token' | 'pool' | 'vault'): Promise<AuditReport> {
+    const systemPrompt = `You are a Move security auditor reviewing Aptos smart contracts. Audit the code and report in JSON.
+
+ REPORT SHAPE:
+{
+  "overallRating": "secure" | "needs_improvement" | "critical_issues",
+  "deploymentReady": boolean,
+  "summary": "Two or three sentences for a non-expert",
+  "strengths": ["What the code does well"],
+  "findings": [
+    {
+      "title": "Short name of the issue",
+      "severity": "critical" | "high" | "medium" | "low" | "info",
+      "category": "access control" | "arithmetic" | "resource safety" | "input validation" | "gas" | "style" | ...,
+      "startLine": number, "endLine": number,
+      "description": "What is wrong and how it could be exploited",
+      "recommendation": "The specific fix, with a short Move snippet if useful"
+    }
+  ],
+  "checklist": {
+    "accessControl": boolean, "inputValidation": boolean, "errorHandling": boolean,
+    "arithmeticSafety": boolean, "gasOptimization": boolean, "upgradeSafety": boolean
+  }
+}
 
- 🚀 Next Steps
-[Prioritized action items for improvement]
+ RULES:
+- Line numbers refer to the numbered lines you are given; omit startLine and endLine for findings about the module as a whole
+- Use critical only for loss of funds or unauthorized minting/withdrawal
+- A checklist item is true only if the code clearly satisfies it
+- deploymentReady is false whenever there is a critical or high finding`;
 
-Provide actionable, specific feedback that helps improve code quality and security.`;
+    const numbered = code.split('\n')
+      .map((line, index) => `${`    ${index + 1}`.slice(-4)}| ${line}`)
+      .join('\n');
 
     const messages: OpenRouterMessage[] = [
       { role: 'system', content: systemPrompt },
-      { 
-        role: 'user', 
-        content: `Please analyze this ${type} creation code:\n\n${code}` 
+      {
+        role: 'user',
+        content: `Please analyze this ${type} creation code:\n\n${numbered}`
       }
     ];
 
-    const response = await this.makeRequest(messages);
-    return response.choices[0].message.content;
+    return this.provider.structured(messages, auditReportSchema);
   }
 
-  async explainConcept(concept: string) {
-    const systemPrompt = `You are a DeFi educator who makes complex concepts crystal clear. Adapt your explanation based on the concept complexity.
+  async explainConcept(concept: string, profile?: UserProfile) {
+    const systemPrompt = `You are a DeFi educator who makes complex concepts crystal clear. Adapt your explanation to the concept complexity and the user's profile.
 
  EXPLANATION FORMAT:
 
@@ -391,14 +627,15 @@ Use analogies, real examples, and progressive complexity. Make it engaging and m
 
     const messages: OpenRouterMessage[] = [
       { role: 'system', content: systemPrompt },
+      { role: 'system', content: profilePrompt(profile) },
       { role: 'user', content: `Explain this DeFi concept: ${concept}` }
     ];
 
-    const response = await this.makeRequest(messages);
-    return response.choices[0].message.content;
+    const response = await this.provider.complete(messages);
+    return response.content;
   }
 
-  async getRecommendations(userContext: string) {
+  async getRecommendations(userContext: string, profile?: UserProfile) {
     const systemPrompt = `You are a DeFi strategist providing personalized, actionable recommendations. Balance opportunity with risk awareness.
 
  RECOMMENDATION FORMAT:
@@ -407,8 +644,8 @@ Use analogies, real examples, and progressive complexity. Make it engaging and m
 [One sentence summary of your top suggestion]
 
  📊 Your Profile Analysis
-Experience Level: [Assessed from context]
-Risk Tolerance: [Conservative/Moderate/Aggressive]
+Experience Level: [From the user profile, or assessed from context]
+Risk Tolerance: [From the user profile, or Conservative/Moderate/Aggressive from context]
 Goals: [Inferred objectives]
 
  🚀 Recommended Strategy
@@ -441,11 +678,12 @@ Be honest about risks while highlighting genuine opportunities. Tailor everythin
 
     const messages: OpenRouterMessage[] = [
       { role: 'system', content: systemPrompt },
+      { role: 'system', content: profilePrompt(profile) },
       { role: 'user', content: `Provide DeFi recommendations for: ${userContext}` }
     ];
 
-    const response = await this.makeRequest(messages);
-    return response.choices[0].message.content;
+    const response = await this.provider.complete(messages);
+    return response.content;
   }
 }
 
@@ -0,0 +1,28 @@
+import { Network } from '@aptos-labs/ts-sdk';
+import { SandboxService } from './sandbox';
+import { moveCompiler } from './move-compiler';
+import { LocalTestnetBackend, ScenarioRunner } from './scenario-runner';
+import { AptosGasService, createAptosClient } from './aptos';
+import { openRouterService } from './openrouter';
+
+// Node used for sandbox gas simulation; point it at a localnet for offline runs and tests
+const sandboxGasService = new AptosGasService(createAptosClient({
+  network: process.env.SANDBOX_APTOS_NETWORK as Network | undefined,
+  fullnode: process.env.SANDBOX_APTOS_NODE_URL,
+  faucet: process.env.SANDBOX_APTOS_FAUCET_URL,
+}));
+
+// Scenarios run against `aptos node run-local-testnet`, or an already running localnet when attached
+const sandboxScenarioRunner = new ScenarioRunner({
+  backend: new LocalTestnetBackend({ attach: process.env.SANDBOX_LOCALNET_ATTACH === 'true' }),
+  compiler: moveCompiler,
+});
+
+// Sandbox with the Move toolchain attached. Server-only: import from API routes, never from components.
+export const serverSandboxService = new SandboxService({
+  assistant: openRouterService,
+  compiler: moveCompiler,
+  scenarioRunner: sandboxScenarioRunner,
+  gasService: sandboxGasService,
+  gasSender: process.env.SANDBOX_GAS_SENDER_ADDRESS,
+});
@@ -1,13 +1,265 @@
-import { SandboxSimulation, TokenParameters, PoolParameters, VaultParameters } from '@/types';
-import { openRouterService } from './openrouter';
+import { createObjectAddress } from '@aptos-labs/ts-sdk';
+import {
+  AuditReport,
+  GasEstimate,
+  GeneratedCode,
+  MoveTestResult,
+  SandboxRevision,
+  SandboxScenario,
+  SandboxSimulation,
+  ScenarioStep,
+  SandboxDiagnostic,
+  TokenParameters,
+  PoolParameters,
+  VaultParameters,
+} from '@/types';
+import { assistantClient } from './assistant-client';
+import { lintMove } from './move-linter';
+import { renderTemplate } from './move-templates';
+import { validateProductParameters } from './schemas';
+import { AptosGasService, dexxy, metadataAddress, toBaseUnits } from './aptos';
+import type { MoveCompiler } from './move-compiler';
+import type { ScenarioRunner } from './scenario-runner';
+
+// Name of the generated source inside the compiler workspace; diagnostic spans on this file
+// point into SandboxSimulation.code
+export const SANDBOX_SOURCE_FILE = 'sandbox_generated.move';
+
+// Entry functions the default scenario calls on the simulation's module, with their parameter
+// types after the signer. These are the signatures move-templates.ts renders.
+const SCENARIO_ENTRY_FUNCTIONS: Record<SandboxSimulation['type'], Record<string, string[]>> = {
+  token: {
+    create_token: [],
+    mint: ['address', 'u64'],
+  },
+  pool: {
+    create_pool: ['Object<Metadata>', 'Object<Metadata>'],
+    add_liquidity: ['address', 'u64', 'u64'],
+    swap_x_for_y: ['address', 'u64', 'u64'],
+  },
+  vault: {
+    create_vault: ['Object<Metadata>'],
+    deposit: ['address', 'u64'],
+    withdraw: ['address', 'u64'],
+  },
+};
+
+const MODULE_HEADER = /^\s*module\s+([A-Za-z_][A-Za-z0-9_]*|0x[0-9a-fA-F]+)::([A-Za-z_][A-Za-z0-9_]*)\s*\{/m;
+const ENTRY_FUNCTION = /\bpublic\s+entry\s+fun\s+([A-Za-z_][A-Za-z0-9_]*)\s*(?:<[^>]*>)?\s*\(([^)]*)\)/g;
+
+// Parameter types of each entry function in the source, without the leading &signer
+function entryFunctionParameters(code: string): Record<string, string[]> {
+  const functions: Record<string, string[]> = {};
+  const regex = new RegExp(ENTRY_FUNCTION.source, ENTRY_FUNCTION.flags);
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(code)) !== null) {
+    const types = match[2].split(',')
+      .filter(parameter => parameter.trim())
+      .map(parameter => parameter.slice(parameter.indexOf(':') + 1).replace(/\s+/g, ''));
+    functions[match[1]] = types[0] === '&signer' ? types.slice(1) : types;
+  }
+  return functions;
+}
+
+function createTokenStep(signer: string, symbol: string): ScenarioStep {
+  return {
+    label: `${signer} creates ${symbol}`,
+    signer,
+    function: 'token::create_token',
+    functionArguments: [`b"${symbol}"`, `b"${symbol}"`, 8, '1000000', 'b""', 'b""'],
+  };
+}
+
+function transferStep(signer: string, asset: string, symbol: string, to: string, amount: string): ScenarioStep {
+  return {
+    label: `${signer} sends ${symbol} to ${to}`,
+    signer,
+    function: '0x1::primary_fungible_store::transfer',
+    typeArguments: ['0x1::fungible_asset::Metadata'],
+    functionArguments: [asset, `@${to}`, amount],
+  };
+}
+
+// A scenario that calls the simulation's own entry functions: the token is created, minted and
+// transferred; pools and vaults run on tokens created with dexxy-contracts. Tokens are named
+// objects, so '@alice/FOO' is the metadata address of alice's FOO token.
+// Code without the functions the templates render needs a scenario written for it.
+export function defaultScenario(simulation: Pick<SandboxSimulation, 'type' | 'code' | 'parameters'>): SandboxScenario {
+  const header = simulation.code.match(MODULE_HEADER);
+  if (!header) {
+    throw new Error('No module declaration found in the simulation code');
+  }
+  const moduleId = `${header[1]}::${header[2]}`;
+
+  const entryFunctions = entryFunctionParameters(simulation.code);
+  const expected = SCENARIO_ENTRY_FUNCTIONS[simulation.type];
+  for (const name of Object.keys(expected)) {
+    if (!entryFunctions[name] || entryFunctions[name].join(',') !== expected[name].join(',')) {
+      throw new Error(
+        `${moduleId} has no entry function ${name}(${['&signer'].concat(expected[name]).join(', ')}); ` +
+        'pass a scenario written for this code'
+      );
+    }
+  }
+  const call = (name: string) => `${moduleId}::${name}`;
+
+  switch (simulation.type) {
+    case 'token': {
+      const { symbol } = simulation.parameters as TokenParameters;
+      return {
+        name: `${symbol} mint and transfer`,
+        accounts: ['alice', 'bob'],
+        steps: [
+          { label: `alice creates ${symbol}`, signer: 'alice', function: call('create_token'), functionArguments: [] },
+          { label: `alice mints ${symbol} to bob`, signer: 'alice', function: call('mint'), functionArguments: ['@bob', '500000'] },
+          transferStep('bob', `@alice/${symbol}`, symbol, 'alice', '200000'),
+        ],
+      };
+    }
+    case 'pool':
+      return {
+        name: 'Pool liquidity and swap',
+        accounts: ['alice', 'bob'],
+        steps: [
+          createTokenStep('alice', 'FOO'),
+          createTokenStep('bob', 'BAR'),
+          { label: 'bob mints BAR to alice', signer: 'bob', function: 'token::mint', functionArguments: ['@alice', '500000'] },
+          transferStep('alice', '@alice/FOO', 'FOO', 'bob', '250000'),
+          {
+            label: 'alice creates FOO/BAR pool',
+            signer: 'alice',
+            function: call('create_pool'),
+            functionArguments: ['@alice/FOO', '@bob/BAR'],
+          },
+          {
+            label: 'alice adds liquidity',
+            signer: 'alice',
+            function: call('add_liquidity'),
+            functionArguments: ['@alice', '100000', '100000'],
+          },
+          {
+            label: 'bob swaps FOO for BAR',
+            signer: 'bob',
+            function: call('swap_x_for_y'),
+            functionArguments: ['@alice', '1000', '1'],
+          },
+        ],
+      };
+    case 'vault': {
+      const { minDeposit } = simulation.parameters as VaultParameters;
+      return {
+        name: 'Vault deposit and withdrawal',
+        accounts: ['alice', 'bob'],
+        steps: [
+          createTokenStep('alice', 'FOO'),
+          transferStep('alice', '@alice/FOO', 'FOO', 'bob', minDeposit),
+          { label: 'alice creates FOO vault', signer: 'alice', function: call('create_vault'), functionArguments: ['@alice/FOO'] },
+          { label: 'bob deposits FOO', signer: 'bob', function: call('deposit'), functionArguments: ['@alice', minDeposit] },
+          { label: 'bob withdraws FOO', signer: 'bob', function: call('withdraw'), functionArguments: ['@alice', minDeposit] },
+        ],
+      };
+    }
+    default:
+      throw new Error('Invalid simulation type');
+  }
+}
+
+// Starting parameters for a new simulation of each type
+export const DEFAULT_SIMULATION_PARAMETERS: {
+  token: TokenParameters;
+  pool: PoolParameters;
+  vault: VaultParameters;
+} = {
+  token: {
+    name: 'My Token',
+    symbol: 'MTK',
+    decimals: 8,
+    totalSupply: '1000000',
+    iconUri: '',
+    projectUri: '',
+  },
+  pool: {
+    name: 'My Pool',
+    // APT and the token above, which a throwaway gas sender creates before pricing the pool
+    tokenA: '0x1::aptos_coin::AptosCoin',
+    tokenB: 'MTK',
+    fee: 0.3,
+    initialLiquidityA: '1000',
+    initialLiquidityB: '1000',
+  },
+  vault: {
+    name: 'My Vault',
+    token: '0x1::aptos_coin::AptosCoin',
+    strategy: 'compound',
+    fee: 2.5,
+    minDeposit: '100',
+  },
+};
+
+// Guess which product a pasted Move module implements, for code that arrives without parameters
+export function inferSimulationType(code: string): 'token' | 'pool' | 'vault' {
+  if (/\b(?:vault|stake|unstake|reward)/i.test(code)) return 'vault';
+  if (/\b(?:pool|swap|reserve|liquidity)/i.test(code)) return 'pool';
+  return 'token';
+}
+
+// Code generation and review. Defaults to the API routes; the server passes the model service itself.
+export interface CodeAssistant {
+  generateTokenCode(parameters: TokenParameters, requirements?: string): Promise<GeneratedCode>;
+  generatePoolCode(parameters: PoolParameters, requirements?: string): Promise<GeneratedCode>;
+  generateVaultCode(parameters: VaultParameters, requirements?: string): Promise<GeneratedCode>;
+  repairCode(
+    code: string,
+    type: 'token' | 'pool' | 'vault',
+    diagnostics: SandboxDiagnostic[],
+    tests?: MoveTestResult[]
+  ): Promise<GeneratedCode>;
+  analyzeCode(code: string, type: 'token' | 'pool' | 'vault'): Promise<AuditReport>;
+}
+
+export interface AutoFixOptions {
+  // Repair requests after the first check; each adds a revision
+  maxAttempts?: number;
+  testModules?: string[];
+  // Earlier revisions of the simulation, so version numbers continue
+  revisions?: SandboxRevision[];
+}
+
+export const DEFAULT_AUTOFIX_ATTEMPTS = 3;
+
+export interface SandboxServiceOptions {
+  assistant?: CodeAssistant;
+  // Only available server-side; see sandbox-server.ts
+  compiler?: MoveCompiler;
+  scenarioRunner?: ScenarioRunner;
+  gasService?: AptosGasService;
+  // Existing account to simulate as; otherwise a faucet-funded throwaway account is used
+  gasSender?: string;
+}
 
 export class SandboxService {
   private simulations: Map<string, SandboxSimulation> = new Map();
+  private assistant: CodeAssistant;
+  private compiler?: MoveCompiler;
+  private scenarioRunner?: ScenarioRunner;
+  private gasService?: AptosGasService;
+  private gasSender?: string;
+  // Metadata addresses of the tokens the throwaway gas sender created, by symbol
+  private gasTokens: Record<string, string> = {};
+
+  constructor(options: SandboxServiceOptions = {}) {
+    this.assistant = options.assistant || assistantClient;
+    this.compiler = options.compiler;
+    this.scenarioRunner = options.scenarioRunner;
+    this.gasService = options.gasService;
+    this.gasSender = options.gasSender;
+  }
 
   // Create a new simulation
   async createSimulation(
     type: 'token' | 'pool' | 'vault',
-    parameters: TokenParameters | PoolParameters | VaultParameters
+    parameters: TokenParameters | PoolParameters | VaultParameters,
+    code: string = ''
   ): Promise<SandboxSimulation> {
     const simulationId = `sim_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     
@@ -15,7 +267,7 @@ export class SandboxService {
       id: simulationId,
       type,
       parameters,
-      code: '',
+      code,
       status: 'pending',
       createdAt: new Date(),
     };
@@ -24,7 +276,31 @@ export class SandboxService {
     return simulation;
   }
 
-  // Generate code for simulation
+  // Generate code for a product from its parameters. Without custom requirements the
+  // vetted template is rendered locally, so the same parameters always give the same code.
+  async generate(
+    type: 'token' | 'pool' | 'vault',
+    parameters: TokenParameters | PoolParameters | VaultParameters,
+    requirements?: string
+  ): Promise<GeneratedCode> {
+    if (!requirements?.trim()) {
+      return renderTemplate(type, parameters);
+    }
+
+    switch (type) {
+      case 'token':
+        return this.assistant.generateTokenCode(parameters as TokenParameters, requirements);
+      case 'pool':
+        return this.assistant.generatePoolCode(parameters as PoolParameters, requirements);
+      case 'vault':
+        return this.assistant.generateVaultCode(parameters as VaultParameters, requirements);
+      default:
+        throw new Error('Invalid simulation type');
+    }
+  }
+
+  // Generate code for simulation. Only the Move source goes in simulation.code;
+  // the explanation, deployment steps and security notes get their own fields.
   async generateCode(simulationId: string): Promise<string> {
     const simulation = this.simulations.get(simulationId);
     if (!simulation) {
@@ -34,24 +310,13 @@ export class SandboxService {
     simulation.status = 'compiling';
 
     try {
-      let code: string;
-
-      switch (simulation.type) {
-        case 'token':
-          code = await openRouterService.generateTokenCode(simulation.parameters as TokenParameters);
-          break;
-        case 'pool':
-          code = await openRouterService.generatePoolCode(simulation.parameters as PoolParameters);
-          break;
-        case 'vault':
-          code = await openRouterService.generateVaultCode(simulation.parameters as VaultParameters);
-          break;
-        default:
-          throw new Error('Invalid simulation type');
-      }
+      const generated = await this.generate(simulation.type, simulation.parameters, simulation.requirements);
 
-      simulation.code = code;
-      return code;
+      simulation.code = generated.code;
+      simulation.explanation = generated.explanation;
+      simulation.deploymentSteps = generated.deploymentSteps;
+      simulation.securityNotes = generated.securityNotes;
+      return generated.code;
     } catch (error) {
       simulation.status = 'error';
       simulation.result = {
@@ -76,90 +341,385 @@ export class SandboxService {
     simulation.status = 'compiling';
 
     try {
-      // Simulate compilation and testing
-      const testResult = await this.simulateCompilation(simulation.code, simulation.type);
-      
-      // Get AI analysis of the code
-      const aiAnalysis = await openRouterService.analyzeCode(simulation.code, simulation.type);
+      const testResult = await this.compileCode(simulation.code);
+      const diagnostics = testResult.diagnostics;
+      const gas = await this.estimateGas(simulation);
+      diagnostics.push(...gas.diagnostics);
+
+      // Get an AI audit of the code; compiler results stand on their own if it is unavailable
+      let audit: AuditReport | undefined;
+      try {
+        audit = await this.assistant.analyzeCode(simulation.code, simulation.type);
+      } catch (error) {
+        diagnostics.push({
+          severity: 'info',
+          source: 'sandbox',
+          message: `AI analysis unavailable: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        });
+      }
 
       simulation.result = {
         success: testResult.success,
-        errors: testResult.errors,
-        warnings: testResult.warnings,
-        gasEstimate: testResult.gasEstimate,
-        aiAnalysis,
+        errors: this.messagesFor(diagnostics, 'error'),
+        warnings: this.messagesFor(diagnostics, 'warning'),
+        diagnostics,
+        gasEstimate: gas.total,
+        gasReport: gas.report,
+        audit,
       };
 
       simulation.status = testResult.success ? 'success' : 'error';
     } catch (error) {
       simulation.status = 'error';
+      const message = error instanceof Error ? error.message : 'Testing failed';
       simulation.result = {
         success: false,
-        errors: [error instanceof Error ? error.message : 'Testing failed'],
+        errors: [message],
+        diagnostics: [{ severity: 'error', source: 'sandbox', message }],
       };
     }
 
     return simulation;
   }
 
-  // Simulate compilation (mock implementation)
-  private async simulateCompilation(code: string, type: string) {
-    // In a real implementation, this would use Aptos CLI or Move compiler
-    // For now, we'll simulate based on common patterns
-    
-    const errors: string[] = [];
-    const warnings: string[] = [];
-    
-    // Basic syntax checks
-    if (!code.includes('module')) {
-      errors.push('Missing module declaration');
+  // Run the simulation's #[test] functions plus its user-authored test modules
+  async runUnitTests(simulationId: string, testModules?: string[]): Promise<SandboxSimulation> {
+    const simulation = this.simulations.get(simulationId);
+    if (!simulation) {
+      throw new Error('Simulation not found');
     }
-    
-    if (!code.includes('public entry fun')) {
-      errors.push('Missing public entry function');
+
+    if (!simulation.code) {
+      throw new Error('No code generated for simulation');
     }
-    
-    if (type === 'token' && !code.includes('fungible_asset')) {
-      errors.push('Token code should use fungible_asset framework');
+
+    if (!this.compiler) {
+      throw new Error('Move compiler is not available in this environment');
     }
-    
-    if (type === 'pool' && !code.includes('liquidity')) {
-      errors.push('Pool code should include liquidity management');
+
+    if (testModules) {
+      simulation.testModules = testModules;
     }
-    
-    if (type === 'vault' && !code.includes('yield')) {
-      errors.push('Vault code should include yield strategy');
+
+    simulation.status = 'compiling';
+    const startedAt = Date.now();
+
+    try {
+      const run = await this.compiler.test(simulation.code, SANDBOX_SOURCE_FILE, simulation.testModules || []);
+      const diagnostics = [...run.diagnostics];
+
+      if (run.tests.length === 0 && !diagnostics.some(d => d.severity === 'error')) {
+        diagnostics.push({
+          severity: 'warning',
+          source: 'sandbox',
+          message: 'No #[test] functions found',
+          suggestedFix: { description: 'Add a #[test_only] module with #[test] functions in the Tests tab' },
+        });
+      }
+
+      simulation.result = {
+        success: run.success && run.tests.length > 0,
+        errors: this.messagesFor(diagnostics, 'error'),
+        warnings: this.messagesFor(diagnostics, 'warning'),
+        diagnostics,
+        tests: run.tests,
+        executionTime: Date.now() - startedAt,
+      };
+
+      simulation.status = simulation.result.success ? 'success' : 'error';
+    } catch (error) {
+      simulation.status = 'error';
+      const message = error instanceof Error ? error.message : 'Unit tests failed';
+      simulation.result = {
+        success: false,
+        errors: [message],
+        diagnostics: [{ severity: 'error', source: 'sandbox', message }],
+        executionTime: Date.now() - startedAt,
+      };
     }
-    
-    // Check for common security issues
-    if (code.includes('assert!') && !code.includes('error::')) {
-      warnings.push('Consider using proper error codes with assertions');
+
+    return simulation;
+  }
+
+  // Check the code, and while it fails to build or pass its tests, send the diagnostics back to
+  // the assistant for a corrected version. Every attempt is kept in simulation.revisions and
+  // simulation.code ends up as the last one.
+  async autoFix(simulationId: string, options: AutoFixOptions = {}): Promise<SandboxSimulation> {
+    const simulation = this.simulations.get(simulationId);
+    if (!simulation) {
+      throw new Error('Simulation not found');
     }
-    
-    if (!code.includes('signer::address_of')) {
-      warnings.push('Consider validating signer address');
+
+    if (!simulation.code) {
+      throw new Error('No code generated for simulation');
     }
-    
-    // Estimate gas (mock)
-    const gasEstimate = this.estimateGas(code, type);
-    
+
+    if (!this.compiler) {
+      throw new Error('Move compiler is not available in this environment');
+    }
+
+    const { maxAttempts = DEFAULT_AUTOFIX_ATTEMPTS, testModules, revisions } = options;
+    if (testModules) {
+      simulation.testModules = testModules;
+    }
+    simulation.revisions = [...(revisions || simulation.revisions || [])];
+    simulation.status = 'compiling';
+    const startedAt = Date.now();
+
+    try {
+      let code = simulation.code;
+      let revision: SandboxRevision;
+
+      for (let attempt = 0; ; attempt++) {
+        revision = await this.checkRevision(code, attempt === 0 ? 'original' : 'repair', simulation);
+        simulation.revisions.push(revision);
+
+        if ((revision.compiled && revision.testsPassed) || attempt >= maxAttempts) break;
+
+        const repaired = await this.assistant.repairCode(code, simulation.type, revision.diagnostics, revision.tests);
+        code = repaired.code;
+      }
+
+      simulation.code = revision.code;
+      simulation.result = {
+        success: revision.compiled && revision.testsPassed,
+        errors: this.messagesFor(revision.diagnostics, 'error'),
+        warnings: this.messagesFor(revision.diagnostics, 'warning'),
+        diagnostics: revision.diagnostics,
+        tests: revision.tests,
+        executionTime: Date.now() - startedAt,
+      };
+      simulation.status = simulation.result.success ? 'success' : 'error';
+    } catch (error) {
+      simulation.status = 'error';
+      const message = error instanceof Error ? error.message : 'Auto-fix failed';
+      simulation.result = {
+        success: false,
+        errors: [message],
+        diagnostics: [{ severity: 'error', source: 'sandbox', message }],
+        executionTime: Date.now() - startedAt,
+      };
+    }
+
+    return simulation;
+  }
+
+  // Build and test one version of the code; `aptos move test` compiles first, so one run covers both
+  private async checkRevision(
+    code: string,
+    origin: SandboxRevision['origin'],
+    simulation: SandboxSimulation
+  ): Promise<SandboxRevision> {
+    const run = await this.compiler!.test(code, SANDBOX_SOURCE_FILE, simulation.testModules || []);
+    const diagnostics = [...run.diagnostics, ...lintMove(code, SANDBOX_SOURCE_FILE)];
+    const compiled = !diagnostics.some(d => d.severity === 'error' && d.source === 'compiler');
+
+    if (compiled && run.tests.length === 0) {
+      diagnostics.push({
+        severity: 'warning',
+        source: 'sandbox',
+        message: 'No #[test] functions found',
+        suggestedFix: { description: 'Add a #[test_only] module with #[test] functions' },
+      });
+    }
+
     return {
-      success: errors.length === 0,
-      errors,
-      warnings,
-      gasEstimate,
+      version: (simulation.revisions?.length || 0) + 1,
+      code,
+      origin,
+      compiled,
+      testsPassed: run.success && run.tests.length > 0,
+      diagnostics,
+      tests: run.tests,
+      createdAt: new Date(),
     };
   }
 
-  // Estimate gas usage (mock implementation)
-  private estimateGas(code: string, type: string): string {
-    // In a real implementation, this would use Aptos gas estimation
-    const baseGas = 1000;
-    const complexityMultiplier = code.length / 1000;
-    const typeMultiplier = type === 'token' ? 1 : type === 'pool' ? 1.5 : 2;
-    
-    const estimatedGas = Math.round(baseGas * complexityMultiplier * typeMultiplier);
-    return estimatedGas.toString();
+  // Publish the simulation to a local chain and run a multi-step scenario against it,
+  // by default defaultScenario(simulation)
+  async runScenario(simulationId: string, scenario?: SandboxScenario): Promise<SandboxSimulation> {
+    const simulation = this.simulations.get(simulationId);
+    if (!simulation) {
+      throw new Error('Simulation not found');
+    }
+
+    if (!simulation.code) {
+      throw new Error('No code generated for simulation');
+    }
+
+    if (!this.scenarioRunner) {
+      throw new Error('Scenario runner is not available in this environment');
+    }
+
+    simulation.status = 'compiling';
+    const startedAt = Date.now();
+
+    try {
+      const run = await this.scenarioRunner.run(simulation.code, SANDBOX_SOURCE_FILE, scenario || defaultScenario(simulation));
+      const diagnostics = [...run.diagnostics];
+
+      for (const step of run.report.steps.filter(step => !step.success)) {
+        diagnostics.push({
+          severity: 'error',
+          source: 'sandbox',
+          message: `Scenario step "${step.label}" failed: ${step.error || step.vmStatus}`,
+        });
+      }
+
+      simulation.result = {
+        success: run.success,
+        errors: this.messagesFor(diagnostics, 'error'),
+        warnings: this.messagesFor(diagnostics, 'warning'),
+        diagnostics,
+        scenario: run.report,
+        gasEstimate: run.report.steps.reduce((sum, step) => sum + (step.gasUsed || 0), 0).toString(),
+        executionTime: Date.now() - startedAt,
+      };
+
+      simulation.status = run.success ? 'success' : 'error';
+    } catch (error) {
+      simulation.status = 'error';
+      const message = error instanceof Error ? error.message : 'Scenario failed';
+      simulation.result = {
+        success: false,
+        errors: [message],
+        diagnostics: [{ severity: 'error', source: 'sandbox', message }],
+        executionTime: Date.now() - startedAt,
+      };
+    }
+
+    return simulation;
+  }
+
+  // Compile against the dexxy-contracts package with the Aptos CLI
+  private async compileCode(code: string) {
+    if (!this.compiler) {
+      throw new Error('Move compiler is not available in this environment');
+    }
+
+    const compilation = await this.compiler.compile(code, SANDBOX_SOURCE_FILE);
+    const diagnostics = [...compilation.diagnostics];
+
+    // Static security rules; see move-linter.ts
+    diagnostics.push(...lintMove(code, SANDBOX_SOURCE_FILE));
+
+    return {
+      success: compilation.success,
+      diagnostics,
+    };
+  }
+
+  // Flatten diagnostics into "file:line:col: message" strings for result.errors / result.warnings
+  private messagesFor(diagnostics: SandboxDiagnostic[], severity: SandboxDiagnostic['severity']): string[] {
+    return diagnostics
+      .filter(diagnostic => diagnostic.severity === severity)
+      .map(diagnostic => {
+        const span = diagnostic.span;
+        const location = span ? `${span.file}:${span.startLine}:${span.startColumn}: ` : '';
+        const code = diagnostic.code ? `[${diagnostic.code}] ` : '';
+        const label = span?.label ? ` (${span.label})` : '';
+        return `${location}${code}${diagnostic.message}${label}`;
+      });
+  }
+
+  // Simulate the entry functions this product type calls against the configured node
+  private async estimateGas(simulation: SandboxSimulation) {
+    const report: GasEstimate[] = [];
+    const diagnostics: SandboxDiagnostic[] = [];
+
+    if (!this.gasService) {
+      return { report, diagnostics, total: undefined };
+    }
+
+    let sender: string;
+    try {
+      sender = await this.resolveGasSender();
+    } catch (error) {
+      diagnostics.push({
+        severity: 'info',
+        source: 'sandbox',
+        message: `Gas estimation unavailable: ${error instanceof Error ? error.message : 'no sender account'}`,
+      });
+      return { report, diagnostics, total: undefined };
+    }
+
+    for (const [label, build] of this.gasPayloads(simulation)) {
+      try {
+        report.push(await this.gasService.estimate(sender, build()));
+      } catch (error) {
+        diagnostics.push({
+          severity: 'info',
+          source: 'sandbox',
+          message: `Could not simulate ${label}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        });
+      }
+    }
+
+    const total = report
+      .filter(estimate => estimate.success)
+      .reduce((sum, estimate) => sum + estimate.gasUsed, 0);
+
+    return { report, diagnostics, total: report.length > 0 ? total.toString() : undefined };
+  }
+
+  // Calls to price for each product type. Only creation is priced: swaps and stakes need a pool
+  // or vault that already holds funds on chain, which the throwaway sender does not have.
+  private gasPayloads(simulation: SandboxSimulation) {
+    switch (simulation.type) {
+      case 'token': {
+        const params = simulation.parameters as TokenParameters;
+        return [
+          ['create_token', () => dexxy.entry('token', 'create_token', [
+            params.name,
+            params.symbol,
+            params.decimals,
+            toBaseUnits(params.totalSupply, params.decimals),
+            params.iconUri || '',
+            params.projectUri || '',
+          ])],
+        ] as const;
+      }
+      case 'pool': {
+        const params = simulation.parameters as PoolParameters;
+        return [
+          ['create_pool', () => dexxy.entry('liquidity_pool', 'create_pool', [
+            this.gasTokens[params.tokenA] || metadataAddress(params.tokenA),
+            this.gasTokens[params.tokenB] || metadataAddress(params.tokenB),
+          ])],
+        ] as const;
+      }
+      case 'vault': {
+        const params = simulation.parameters as VaultParameters;
+        // Staked and reward token are the same; the reward rate is not a vault parameter
+        return [
+          ['create_vault', () => dexxy.entry('yield_vault', 'create_vault', [
+            metadataAddress(params.token),
+            metadataAddress(params.token),
+            '0',
+          ])],
+        ] as const;
+      }
+    }
+  }
+
+  // A throwaway sender also creates the default token, so the default pool has both tokens on chain
+  private async resolveGasSender(): Promise<string> {
+    if (!this.gasSender) {
+      const account = await this.gasService!.createFundedAccount();
+      const token = DEFAULT_SIMULATION_PARAMETERS.token;
+      await this.gasService!.execute(account, dexxy.entry('token', 'create_token', [
+        token.name,
+        token.symbol,
+        token.decimals,
+        toBaseUnits(token.totalSupply, token.decimals),
+        token.iconUri || '',
+        token.projectUri || '',
+      ]));
+      // dexxy-contracts creates the metadata as an object named after the token
+      this.gasTokens[token.symbol] = createObjectAddress(account.accountAddress, token.name).toString();
+      this.gasSender = account.accountAddress.toString();
+    }
+    return this.gasSender;
   }
 
   // Get simulation by ID
@@ -183,73 +743,11 @@ export class SandboxService {
   }
 
   // Validate parameters
-  validateParameters(type: 'token' | 'pool' | 'vault', parameters: any): { valid: boolean; errors: string[] } {
-    const errors: string[] = [];
-
-    switch (type) {
-      case 'token':
-        const tokenParams = parameters as TokenParameters;
-        if (!tokenParams.name || tokenParams.name.length < 1) {
-          errors.push('Token name is required');
-        }
-        if (!tokenParams.symbol || tokenParams.symbol.length < 1 || tokenParams.symbol.length > 10) {
-          errors.push('Token symbol must be 1-10 characters');
-        }
-        if (tokenParams.decimals < 0 || tokenParams.decimals > 18) {
-          errors.push('Decimals must be between 0 and 18');
-        }
-        if (!tokenParams.totalSupply || parseFloat(tokenParams.totalSupply) <= 0) {
-          errors.push('Total supply must be greater than 0');
-        }
-        break;
-
-      case 'pool':
-        const poolParams = parameters as PoolParameters;
-        if (!poolParams.name || poolParams.name.length < 1) {
-          errors.push('Pool name is required');
-        }
-        if (!poolParams.tokenA || !poolParams.tokenB) {
-          errors.push('Both tokens are required');
-        }
-        if (poolParams.tokenA === poolParams.tokenB) {
-          errors.push('Token A and Token B must be different');
-        }
-        if (poolParams.fee < 0 || poolParams.fee > 100) {
-          errors.push('Fee must be between 0 and 100');
-        }
-        if (!poolParams.initialLiquidityA || parseFloat(poolParams.initialLiquidityA) <= 0) {
-          errors.push('Initial liquidity A must be greater than 0');
-        }
-        if (!poolParams.initialLiquidityB || parseFloat(poolParams.initialLiquidityB) <= 0) {
-          errors.push('Initial liquidity B must be greater than 0');
-        }
-        break;
-
-      case 'vault':
-        const vaultParams = parameters as VaultParameters;
-        if (!vaultParams.name || vaultParams.name.length < 1) {
-          errors.push('Vault name is required');
-        }
-        if (!vaultParams.token) {
-          errors.push('Token is required');
-        }
-        if (!vaultParams.strategy || vaultParams.strategy.length < 1) {
-          errors.push('Strategy is required');
-        }
-        if (vaultParams.fee < 0 || vaultParams.fee > 100) {
-          errors.push('Fee must be between 0 and 100');
-        }
-        if (!vaultParams.minDeposit || parseFloat(vaultParams.minDeposit) <= 0) {
-          errors.push('Minimum deposit must be greater than 0');
-        }
-        break;
-    }
-
-    return {
-      valid: errors.length === 0,
-      errors,
-    };
+  validateParameters(type: 'token' | 'pool' | 'vault', parameters: unknown): { valid: boolean; errors: string[] } {
+    const result = validateProductParameters(type, parameters);
+    return result.success ? { valid: true, errors: [] } : { valid: false, errors: result.errors };
   }
+
 }
 
 export const sandboxService = new SandboxService();
@@ -0,0 +1,391 @@
+import { ChildProcess, spawn } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  Account,
+  AccountAddress,
+  Aptos,
+  Ed25519Account,
+  InputEntryFunctionData,
+  Network,
+  WriteSetChangeWriteResource,
+  createObjectAddress,
+  isUserTransactionResponse,
+} from '@aptos-labs/ts-sdk';
+import {
+  SandboxDiagnostic,
+  SandboxScenario,
+  ScenarioRunReport,
+  ScenarioStep,
+  ScenarioStepResult,
+} from '@/types';
+import { createAptosClient } from './aptos';
+import { MoveCompiler } from './move-compiler';
+
+// Server-only: starts an Aptos localnet process and publishes packages with the Aptos CLI.
+
+const APTOS_CLI_PATH = process.env.APTOS_CLI_PATH || 'aptos';
+const LOCALNET_NODE_URL = process.env.SANDBOX_LOCALNET_NODE_URL || 'http://127.0.0.1:8080/v1';
+const LOCALNET_FAUCET_URL = process.env.SANDBOX_LOCALNET_FAUCET_URL || 'http://127.0.0.1:8081';
+const LOCALNET_READY_URL = process.env.SANDBOX_LOCALNET_READY_URL || 'http://127.0.0.1:8070/';
+const LOCALNET_STARTUP_TIMEOUT_MS = parseInt(process.env.SANDBOX_LOCALNET_STARTUP_TIMEOUT_MS || '180000', 10);
+
+// Octas each throwaway account is funded with (1 APT)
+const DEFAULT_FUND_AMOUNT = 100_000_000;
+
+export interface ScenarioChain {
+  client: Aptos;
+  nodeUrl: string;
+}
+
+// Chain the runner publishes to and executes against. LocalTestnetBackend runs a real
+// localnet; an in-process stand-in only has to provide a client with a working faucet.
+export interface ScenarioBackend {
+  start(): Promise<ScenarioChain>;
+  stop(): Promise<void>;
+}
+
+export interface LocalTestnetBackendOptions {
+  aptosCliPath?: string;
+  nodeUrl?: string;
+  faucetUrl?: string;
+  readyUrl?: string;
+  startupTimeoutMs?: number;
+  // Use a localnet that is already running instead of spawning one
+  attach?: boolean;
+}
+
+// `aptos node run-local-testnet`, started on first use and kept running between scenarios.
+// Every run publishes under a fresh account, so runs do not see each other's state.
+export class LocalTestnetBackend implements ScenarioBackend {
+  private options: Required<LocalTestnetBackendOptions>;
+  private process?: ChildProcess;
+  private testDir?: string;
+  private starting?: Promise<ScenarioChain>;
+
+  constructor(options: LocalTestnetBackendOptions = {}) {
+    this.options = {
+      aptosCliPath: options.aptosCliPath || APTOS_CLI_PATH,
+      nodeUrl: options.nodeUrl || LOCALNET_NODE_URL,
+      faucetUrl: options.faucetUrl || LOCALNET_FAUCET_URL,
+      readyUrl: options.readyUrl || LOCALNET_READY_URL,
+      startupTimeoutMs: options.startupTimeoutMs || LOCALNET_STARTUP_TIMEOUT_MS,
+      attach: options.attach ?? false,
+    };
+  }
+
+  start(): Promise<ScenarioChain> {
+    if (!this.starting) {
+      this.starting = this.launch().catch(async error => {
+        this.starting = undefined;
+        await this.stop();
+        throw error;
+      });
+    }
+    return this.starting;
+  }
+
+  async stop(): Promise<void> {
+    this.process?.kill();
+    this.process = undefined;
+    this.starting = undefined;
+
+    if (this.testDir) {
+      await fs.rm(this.testDir, { recursive: true, force: true });
+      this.testDir = undefined;
+    }
+  }
+
+  private async launch(): Promise<ScenarioChain> {
+    if (!this.options.attach && !(await this.isReady())) {
+      this.testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'move-localnet-'));
+      const child = spawn(
+        this.options.aptosCliPath,
+        ['node', 'run-local-testnet', '--force-restart', '--assume-yes', '--test-dir', this.testDir],
+        { stdio: 'ignore' }
+      );
+      this.process = child;
+      process.once('exit', () => child.kill());
+
+      await new Promise<void>((resolve, reject) => {
+        child.once('error', error => {
+          reject((error as NodeJS.ErrnoException).code === 'ENOENT'
+            ? new Error(`Aptos CLI not found at "${this.options.aptosCliPath}". Install it or set APTOS_CLI_PATH.`)
+            : error);
+        });
+        child.once('exit', code => reject(new Error(`Local testnet exited with code ${code}`)));
+        this.waitUntilReady().then(resolve, reject);
+      });
+    } else if (!(await this.isReady())) {
+      throw new Error(`No local testnet is ready at ${this.options.readyUrl}`);
+    }
+
+    return {
+      client: createAptosClient({
+        network: Network.LOCAL,
+        fullnode: this.options.nodeUrl,
+        faucet: this.options.faucetUrl,
+      }),
+      nodeUrl: this.options.nodeUrl,
+    };
+  }
+
+  private async waitUntilReady(): Promise<void> {
+    const deadline = Date.now() + this.options.startupTimeoutMs;
+    while (Date.now() < deadline) {
+      if (!this.process) {
+        throw new Error('Local testnet stopped while starting');
+      }
+      if (await this.isReady()) return;
+      await new Promise(resolve => setTimeout(resolve, 1000));
+    }
+    throw new Error(`Local testnet did not become ready within ${this.options.startupTimeoutMs / 1000}s`);
+  }
+
+  private async isReady(): Promise<boolean> {
+    try {
+      const response = await fetch(this.options.readyUrl);
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+}
+
+export interface ScenarioRunnerOptions {
+  backend: ScenarioBackend;
+  compiler: MoveCompiler;
+  fundAmount?: number;
+}
+
+export interface ScenarioRunResult {
+  success: boolean;
+  // Publish diagnostics; spans use the same file names as MoveCompiler.compile
+  diagnostics: SandboxDiagnostic[];
+  report: ScenarioRunReport;
+}
+
+interface ScenarioContext {
+  client: Aptos;
+  accounts: Record<string, Ed25519Account>;
+  // Named objects referenced as '@alias/SEED', tracked for balances
+  assets: Record<string, string>;
+}
+
+const PUBLISHER = 'publisher';
+const APT_BALANCE_KEY = 'APT';
+const ACCOUNT_REFERENCE = /^@([A-Za-z_][A-Za-z0-9_]*)(?:\/(.+))?$/;
+
+// Publishes dexxy-contracts plus a simulation's code under a throwaway account, then runs
+// the scenario's entry-function calls in order and snapshots state after each step
+export class ScenarioRunner {
+  private backend: ScenarioBackend;
+  private compiler: MoveCompiler;
+  private fundAmount: number;
+
+  constructor(options: ScenarioRunnerOptions) {
+    this.backend = options.backend;
+    this.compiler = options.compiler;
+    this.fundAmount = options.fundAmount || DEFAULT_FUND_AMOUNT;
+  }
+
+  async run(source: string, fileName: string, scenario: SandboxScenario): Promise<ScenarioRunResult> {
+    const chain = await this.backend.start();
+    const context: ScenarioContext = { client: chain.client, accounts: {}, assets: {} };
+
+    for (const alias of [PUBLISHER, ...scenario.accounts.filter(alias => alias !== PUBLISHER)]) {
+      const account = Account.generate();
+      await chain.client.fundAccount({ accountAddress: account.accountAddress, amount: this.fundAmount });
+      context.accounts[alias] = account;
+    }
+
+    const publisher = context.accounts[PUBLISHER];
+    const report: ScenarioRunReport = {
+      name: scenario.name,
+      accounts: Object.keys(context.accounts).reduce<Record<string, string>>((addresses, alias) => {
+        addresses[alias] = context.accounts[alias].accountAddress.toString();
+        return addresses;
+      }, {}),
+      steps: [],
+    };
+
+    const published = await this.compiler.publish(source, fileName, {
+      address: publisher.accountAddress.toString(),
+      privateKey: publisher.privateKey.toHexString(),
+      nodeUrl: chain.nodeUrl,
+    });
+    if (!published.success) {
+      return { success: false, diagnostics: published.diagnostics, report };
+    }
+
+    // Track every named object the scenario refers to, so balances show from the first step
+    for (const step of scenario.steps) {
+      for (const argument of step.functionArguments) {
+        const reference = typeof argument === 'string' ? argument.match(ACCOUNT_REFERENCE) : null;
+        if (reference && reference[2] && context.accounts[reference[1]]) {
+          const owner = context.accounts[reference[1]].accountAddress;
+          context.assets[reference[2]] = createObjectAddress(owner, reference[2]).toString();
+        }
+      }
+    }
+
+    for (let i = 0; i < scenario.steps.length; i++) {
+      const result = await this.runStep(context, scenario.steps[i], i);
+      report.steps.push(result);
+      if (!result.success && scenario.stopOnFailure !== false) break;
+    }
+
+    return {
+      success: report.steps.length === scenario.steps.length && report.steps.every(step => step.success),
+      diagnostics: published.diagnostics,
+      report,
+    };
+  }
+
+  private async runStep(context: ScenarioContext, step: ScenarioStep, index: number): Promise<ScenarioStepResult> {
+    const result: ScenarioStepResult = {
+      label: step.label || step.function,
+      function: step.function,
+      signer: step.signer,
+      success: false,
+      vmStatus: '',
+      events: [],
+      resources: [],
+      balances: {},
+    };
+
+    try {
+      const signer = this.account(context, step.signer, index);
+      const data: InputEntryFunctionData = {
+        function: this.resolveFunction(context, step.function),
+        typeArguments: step.typeArguments || [],
+        functionArguments: step.functionArguments.map(argument => this.resolveArgument(context, argument, index)),
+      };
+      result.function = data.function;
+
+      const transaction = await context.client.transaction.build.simple({
+        sender: signer.accountAddress,
+        data,
+      });
+      const pending = await context.client.signAndSubmitTransaction({ signer, transaction });
+      const committed = await context.client.waitForTransaction({
+        transactionHash: pending.hash,
+        options: { checkSuccess: false },
+      });
+
+      result.hash = committed.hash;
+      result.success = committed.success;
+      result.vmStatus = committed.vm_status;
+      result.gasUsed = Number(committed.gas_used);
+
+      if (isUserTransactionResponse(committed)) {
+        result.events = committed.events.map(event => ({ type: event.type, data: event.data }));
+      }
+      result.resources = committed.changes
+        .filter((change): change is WriteSetChangeWriteResource => change.type === 'write_resource')
+        .filter(change => !AccountAddress.from(change.address).isSpecial())
+        .map(change => ({
+          owner: this.aliasFor(context, change.address),
+          type: change.data.type,
+          data: change.data.data,
+        }));
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : 'Step failed';
+      result.vmStatus = result.vmStatus || result.error;
+    }
+
+    result.balances = await this.readBalances(context);
+    return result;
+  }
+
+  // 'token::mint' and 'MyToken::Token::mint' live at the publisher; '0x1::...' is used as-is
+  private resolveFunction(context: ScenarioContext, name: string): `${string}::${string}::${string}` {
+    const publisher = context.accounts[PUBLISHER].accountAddress.toString();
+    const parts = name.split('::');
+
+    if (parts.length === 2) {
+      return `${publisher}::${parts[0]}::${parts[1]}`;
+    }
+    if (parts.length === 3) {
+      return parts[0].startsWith('0x')
+        ? `${parts[0]}::${parts[1]}::${parts[2]}`
+        : `${publisher}::${parts[1]}::${parts[2]}`;
+    }
+    throw new Error(`Invalid function "${name}", expected module::function`);
+  }
+
+  private resolveArgument(context: ScenarioContext, argument: string | number | boolean, index: number) {
+    if (typeof argument !== 'string') return argument;
+
+    const bytes = argument.match(/^b"(.*)"$/);
+    if (bytes) {
+      return new TextEncoder().encode(bytes[1]);
+    }
+
+    const reference = argument.match(ACCOUNT_REFERENCE);
+    if (reference) {
+      const owner = this.account(context, reference[1], index).accountAddress;
+      return reference[2] ? createObjectAddress(owner, reference[2]).toString() : owner.toString();
+    }
+
+    return argument;
+  }
+
+  private account(context: ScenarioContext, alias: string, index: number): Ed25519Account {
+    const account = context.accounts[alias];
+    if (!account) {
+      throw new Error(`Step ${index + 1} refers to unknown account "${alias}"`);
+    }
+    return account;
+  }
+
+  private aliasFor(context: ScenarioContext, address: string): string {
+    const normalized = AccountAddress.from(address);
+    const alias = Object.keys(context.accounts).find(name => context.accounts[name].accountAddress.equals(normalized));
+    if (alias) return alias;
+
+    const asset = Object.keys(context.assets).find(seed => AccountAddress.from(context.assets[seed]).equals(normalized));
+    return asset ? `@${asset}` : address;
+  }
+
+  // APT plus every tracked fungible asset, for every account
+  private async readBalances(context: ScenarioContext): Promise<Record<string, Record<string, string>>> {
+    const balances: Record<string, Record<string, string>> = {};
+
+    for (const alias of Object.keys(context.accounts)) {
+      const owner = context.accounts[alias].accountAddress.toString();
+      balances[alias] = {};
+
+      try {
+        const [apt] = await context.client.view<[string]>({
+          payload: {
+            function: '0x1::coin::balance',
+            typeArguments: ['0x1::aptos_coin::AptosCoin'],
+            functionArguments: [owner],
+          },
+        });
+        balances[alias][APT_BALANCE_KEY] = apt;
+      } catch {
+        // Balance reads are best effort; a missing entry means it could not be read
+      }
+
+      for (const seed of Object.keys(context.assets)) {
+        try {
+          const [amount] = await context.client.view<[string]>({
+            payload: {
+              function: '0x1::primary_fungible_store::balance',
+              typeArguments: ['0x1::fungible_asset::Metadata'],
+              functionArguments: [owner, context.assets[seed]],
+            },
+          });
+          balances[alias][seed] = amount;
+        } catch {
+          // The asset may not exist yet (e.g. before its create_token step)
+        }
+      }
+    }
+
+    return balances;
+  }
+}
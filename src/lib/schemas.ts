@@ -0,0 +1,200 @@
+import { z } from 'zod';
+import { AuditFinding, AuditReport, PoolParameters, TokenParameters, UserProfile, VaultParameters, WalletContext } from '@/types';
+
+// Every message names its field, so a list of them reads well without issue paths.
+// The UI and the API routes show these same messages.
+const text = (label: string) =>
+  z.string({ required_error: `${label} is required`, invalid_type_error: `${label} must be text` })
+    .trim()
+    .min(1, `${label} is required`);
+
+// Decimal amounts are kept as strings so large supplies survive JSON round trips.
+// Models often emit numbers, so those are accepted and converted.
+const amount = (label: string) =>
+  z.union([z.string(), z.number()], { errorMap: () => ({ message: `${label} is required` }) })
+    .transform(value => String(value).trim())
+    .refine(value => /^\d+(\.\d+)?$/.test(value), `${label} must be a plain decimal number, e.g. "1000000"`)
+    .refine(value => parseFloat(value) > 0, `${label} must be greater than 0`);
+
+const percentage = (label: string) =>
+  z.coerce.number({ invalid_type_error: `${label} must be a number` })
+    .min(0, `${label} must be between 0 and 100`)
+    .max(100, `${label} must be between 0 and 100`);
+
+export const tokenParametersSchema = z.object({
+  name: text('Token name'),
+  symbol: text('Token symbol').max(10, 'Token symbol must be 1-10 characters'),
+  decimals: z.coerce.number({ invalid_type_error: 'Decimals must be a number' })
+    .int('Decimals must be a whole number')
+    .min(0, 'Decimals must be between 0 and 18')
+    .max(18, 'Decimals must be between 0 and 18')
+    .default(8),
+  totalSupply: amount('Total supply'),
+  iconUri: z.string().optional(),
+  projectUri: z.string().optional(),
+}) satisfies z.ZodType<TokenParameters, z.ZodTypeDef, unknown>;
+
+export const poolParametersSchema = z.object({
+  name: text('Pool name'),
+  tokenA: text('Token A'),
+  tokenB: text('Token B'),
+  fee: percentage('Fee').default(0.3),
+  initialLiquidityA: amount('Initial liquidity A'),
+  initialLiquidityB: amount('Initial liquidity B'),
+}).refine(pool => pool.tokenA !== pool.tokenB, {
+  message: 'Token A and Token B must be different',
+  path: ['tokenB'],
+}) satisfies z.ZodType<PoolParameters, z.ZodTypeDef, unknown>;
+
+export const vaultParametersSchema = z.object({
+  name: text('Vault name'),
+  token: text('Token'),
+  strategy: text('Strategy'),
+  fee: percentage('Fee').default(2),
+  minDeposit: amount('Minimum deposit'),
+}) satisfies z.ZodType<VaultParameters, z.ZodTypeDef, unknown>;
+
+export const PARAMETER_SCHEMAS = {
+  token: tokenParametersSchema,
+  pool: poolParametersSchema,
+  vault: vaultParametersSchema,
+};
+
+export type ProductType = keyof typeof PARAMETER_SCHEMAS;
+
+export type ParameterValidation<T extends ProductType> =
+  | { success: true; data: z.output<typeof PARAMETER_SCHEMAS[T]> }
+  | { success: false; errors: string[] };
+
+// Parse product parameters, applying defaults. Used by SandboxService.validateParameters
+// and the /api/{token,pool,vault}/generate routes.
+export function validateProductParameters<T extends ProductType>(type: T, parameters: unknown): ParameterValidation<T> {
+  if (typeof parameters !== 'object' || parameters === null) {
+    return { success: false, errors: [`${type[0].toUpperCase()}${type.slice(1)} parameters are required`] };
+  }
+
+  const parsed = PARAMETER_SCHEMAS[type].safeParse(parameters);
+  if (parsed.success) {
+    return { success: true, data: parsed.data as z.output<typeof PARAMETER_SCHEMAS[T]> };
+  }
+
+  const errors: string[] = [];
+  parsed.error.issues.forEach(issue => {
+    if (!errors.includes(issue.message)) errors.push(issue.message);
+  });
+  return { success: false, errors };
+}
+
+const confidence = z.coerce.number().min(0).max(1).default(1);
+
+// The structured part of an assistant reply
+export const assistantActionSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('create_token'), parameters: tokenParametersSchema, confidence }),
+  z.object({ action: z.literal('create_pool'), parameters: poolParametersSchema, confidence }),
+  z.object({ action: z.literal('create_vault'), parameters: vaultParametersSchema, confidence }),
+  z.object({ action: z.literal('query'), parameters: z.record(z.any()).optional(), confidence }),
+]);
+
+export type AssistantAction = z.infer<typeof assistantActionSchema>;
+
+// Models vary case and spacing ("High", "Needs Improvement"), so enum values are normalized first
+const normalized = <U extends string, T extends [U, ...U[]]>(values: T) =>
+  z.preprocess(
+    value => (typeof value === 'string' ? value.trim().toLowerCase().replace(/[\s-]+/g, '_') : value),
+    z.enum(values)
+  );
+
+// Missing and null line numbers both mean the finding is not tied to specific lines
+const lineNumber = z.preprocess(
+  value => (value === null ? undefined : value),
+  z.coerce.number().int().positive().optional()
+);
+
+export const auditFindingSchema = z.object({
+  title: z.string().min(1),
+  severity: normalized(['critical', 'high', 'medium', 'low', 'info']),
+  category: z.string().min(1),
+  startLine: lineNumber,
+  endLine: lineNumber,
+  description: z.string(),
+  recommendation: z.string(),
+}) satisfies z.ZodType<AuditFinding, z.ZodTypeDef, unknown>;
+
+export const auditReportSchema = z.object({
+  overallRating: normalized(['secure', 'needs_improvement', 'critical_issues']),
+  deploymentReady: z.boolean(),
+  summary: z.string(),
+  strengths: z.array(z.string()).default([]),
+  findings: z.array(auditFindingSchema).default([]),
+  checklist: z.object({
+    accessControl: z.boolean(),
+    inputValidation: z.boolean(),
+    errorHandling: z.boolean(),
+    arithmeticSafety: z.boolean(),
+    gasOptimization: z.boolean(),
+    upgradeSafety: z.boolean(),
+  }),
+}) satisfies z.ZodType<AuditReport, z.ZodTypeDef, unknown>;
+
+// Wallet context comes from the browser and goes into the prompt, so fields and lists are bounded
+const field = z.string().max(200);
+
+export const walletContextSchema = z.object({
+  address: field,
+  network: field.optional(),
+  aptBalance: field.optional(),
+  tokens: z.array(z.object({
+    name: field,
+    symbol: field,
+    address: field,
+    totalSupply: field,
+    balance: field.optional(),
+  })).max(20),
+  pools: z.array(z.object({
+    name: field,
+    pair: field,
+    address: field,
+    feePercent: z.number(),
+    reserves: z.object({ a: field, b: field }).optional(),
+  })).max(20),
+  vaults: z.array(z.object({
+    name: field,
+    token: field,
+    address: field,
+    apy: z.number(),
+  })).max(20),
+  stake: z.object({ amount: field, since: field }).optional(),
+  recentTransactions: z.array(z.object({
+    hash: field,
+    type: z.enum(['deploy', 'mint', 'burn', 'transfer', 'create_pool', 'add_liquidity', 'swap', 'create_vault', 'deposit', 'withdraw', 'claim_rewards']),
+    status: z.enum(['pending', 'success', 'failed']),
+    timestamp: field,
+    vmStatus: field.optional(),
+  })).max(20),
+  unavailable: z.array(field).max(20),
+  fetchedAt: field,
+}) satisfies z.ZodType<WalletContext, z.ZodTypeDef, unknown>;
+
+export const userProfileSchema = z.object({
+  expertise: z.enum(['beginner', 'intermediate', 'advanced']),
+  riskTolerance: z.enum(['conservative', 'moderate', 'aggressive']),
+  source: z.enum(['inferred', 'user']),
+}) satisfies z.ZodType<UserProfile, z.ZodTypeDef, unknown>;
+
+// Sent by the browser with chat, explain and recommendation requests. A malformed profile is
+// dropped rather than failing the request; the assistant then judges the user's level itself.
+export function parseUserProfile(profile: unknown): UserProfile | undefined {
+  if (!profile) return undefined;
+
+  const parsed = userProfileSchema.safeParse(profile);
+  if (!parsed.success) {
+    console.warn('Ignoring invalid user profile:', formatIssues(parsed.error));
+    return undefined;
+  }
+  return parsed.data;
+}
+
+// "tokenB: Token A and Token B must be different"
+export function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message));
+}
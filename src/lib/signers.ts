@@ -0,0 +1,72 @@
+import { Account, Aptos, InputEntryFunctionData, PublicKey } from '@aptos-labs/ts-sdk';
+import type { WalletContextState } from '@aptos-labs/wallet-adapter-react';
+import { aptos } from './aptos';
+
+export interface SubmitOptions {
+  gasUnitPrice?: number;
+  maxGasAmount?: number;
+}
+
+// Anything that can sign and submit an entry-function payload for one address:
+// the connected wallet in the UI, or a local Account in scripts and tests
+export interface TransactionSigner {
+  address: string;
+  // Used to simulate with the real auth key; optional because wallets may not expose it
+  publicKey?: PublicKey;
+  signAndSubmit(data: InputEntryFunctionData, options?: SubmitOptions): Promise<{ hash: string }>;
+}
+
+// Signs with a private key held in memory. Never use in the browser.
+export class AccountSigner implements TransactionSigner {
+  readonly address: string;
+  readonly publicKey: PublicKey;
+  private account: Account;
+  private aptos: Aptos;
+
+  constructor(account: Account, client: Aptos = aptos) {
+    this.account = account;
+    this.aptos = client;
+    this.address = account.accountAddress.toString();
+    this.publicKey = account.publicKey;
+  }
+
+  async signAndSubmit(data: InputEntryFunctionData, options: SubmitOptions = {}) {
+    const transaction = await this.aptos.transaction.build.simple({
+      sender: this.account.accountAddress,
+      data,
+      options,
+    });
+
+    const pending = await this.aptos.signAndSubmitTransaction({
+      signer: this.account,
+      transaction,
+    });
+
+    return { hash: pending.hash };
+  }
+}
+
+// Delegates to the connected wallet through the wallet adapter; the user approves in the wallet
+export class WalletSigner implements TransactionSigner {
+  readonly address: string;
+  private signAndSubmitTransaction: WalletContextState['signAndSubmitTransaction'];
+
+  constructor(address: string, signAndSubmitTransaction: WalletContextState['signAndSubmitTransaction']) {
+    this.address = address;
+    this.signAndSubmitTransaction = signAndSubmitTransaction;
+  }
+
+  async signAndSubmit(data: InputEntryFunctionData, options: SubmitOptions = {}) {
+    const response = await this.signAndSubmitTransaction({
+      sender: this.address,
+      data,
+      options,
+    });
+
+    if (!response?.hash) {
+      throw new Error('Wallet did not return a transaction hash');
+    }
+
+    return { hash: response.hash as string };
+  }
+}
@@ -0,0 +1,53 @@
+// Read a text/event-stream body, calling onData with the data of each event.
+// Comment lines (": keep-alive") and other fields are ignored.
+export async function readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+  onData: (data: string) => void
+) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let data: string[] = [];
+
+  const dispatch = () => {
+    if (data.length > 0) {
+      onData(data.join('\n'));
+      data = [];
+    }
+  };
+
+  const consume = (line: string) => {
+    if (line === '') {
+      dispatch();
+    } else if (line.startsWith('data:')) {
+      data.push(line.slice(line.startsWith('data: ') ? 6 : 5));
+    }
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() || '';
+      lines.forEach(consume);
+    }
+
+    buffer += decoder.decode();
+    if (buffer) consume(buffer);
+    dispatch();
+  } catch (error) {
+    // Stop the upstream body too when a handler throws or the read is aborted
+    await reader.cancel().catch(() => undefined);
+    throw error;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// One event in the format readServerSentEvents consumes
+export function serverSentEvent(data: unknown): string {
+  return `data: ${JSON.stringify(data)}\n\n`;
+}
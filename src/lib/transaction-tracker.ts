@@ -0,0 +1,78 @@
+import { TransactionResponse, isPendingTransactionResponse } from '@aptos-labs/ts-sdk';
+import { Transaction } from '@/types';
+import { AptosContractService, contractService } from './aptos';
+
+export interface TransactionOutcome {
+  // Still 'pending' if the transaction did not commit before the tracker gave up
+  status: Transaction['status'];
+  gasUsed?: string;
+  vmStatus?: string;
+}
+
+export interface TransactionTrackerOptions {
+  // How long the node long-poll waits before falling back to polling
+  waitTimeoutSecs?: number;
+  pollIntervalMs?: number;
+  timeoutMs?: number;
+}
+
+// Follows submitted transactions until they commit. waitForTransaction long-polls the node first;
+// if it gives up (timeout, dropped connection) getTransactionStatus is polled until the deadline.
+export class TransactionTracker {
+  private service: AptosContractService;
+  private waitTimeoutSecs: number;
+  private pollIntervalMs: number;
+  private timeoutMs: number;
+  private inFlight: Map<string, Promise<TransactionOutcome>> = new Map();
+
+  constructor(service: AptosContractService = contractService, options: TransactionTrackerOptions = {}) {
+    this.service = service;
+    this.waitTimeoutSecs = options.waitTimeoutSecs || 20;
+    this.pollIntervalMs = options.pollIntervalMs || 3000;
+    this.timeoutMs = options.timeoutMs || 120_000;
+  }
+
+  // Concurrent calls for the same hash share one follow-up
+  track(hash: string): Promise<TransactionOutcome> {
+    let outcome = this.inFlight.get(hash);
+    if (!outcome) {
+      outcome = this.follow(hash).finally(() => this.inFlight.delete(hash));
+      this.inFlight.set(hash, outcome);
+    }
+    return outcome;
+  }
+
+  private async follow(hash: string): Promise<TransactionOutcome> {
+    const deadline = Date.now() + this.timeoutMs;
+
+    try {
+      return this.outcome(await this.service.waitForTransaction(hash, this.waitTimeoutSecs));
+    } catch {
+      // Fall back to polling below
+    }
+
+    while (Date.now() < deadline) {
+      const transaction = await this.service.getTransactionStatus(hash);
+      if (transaction && !isPendingTransactionResponse(transaction)) {
+        return this.outcome(transaction);
+      }
+      await new Promise(resolve => setTimeout(resolve, this.pollIntervalMs));
+    }
+
+    return { status: 'pending' };
+  }
+
+  private outcome(transaction: TransactionResponse): TransactionOutcome {
+    if (isPendingTransactionResponse(transaction)) {
+      return { status: 'pending' };
+    }
+
+    return {
+      status: transaction.success ? 'success' : 'failed',
+      gasUsed: transaction.gas_used,
+      vmStatus: transaction.vm_status,
+    };
+  }
+}
+
+export const transactionTracker = new TransactionTracker();
@@ -0,0 +1,67 @@
+import { ExpertiseLevel, RiskTolerance, UserProfile } from '@/types';
+
+// Starting guess at a user's profile from what they have written, so the assistant doesn't
+// re-assess every message. Replaced for good once the user sets it in settings.
+
+export const EXPERTISE_LEVELS: Array<{ value: ExpertiseLevel; label: string; description: string }> = [
+  { value: 'beginner', label: 'Beginner', description: 'New to DeFi: plain language, analogies and safety first' },
+  { value: 'intermediate', label: 'Intermediate', description: 'Comfortable with swaps, pools and staking' },
+  { value: 'advanced', label: 'Advanced', description: 'Move code, protocol mechanics and precise numbers' },
+];
+
+export const RISK_TOLERANCES: Array<{ value: RiskTolerance; label: string; description: string }> = [
+  { value: 'conservative', label: 'Conservative', description: 'Protect capital; prefer established, lower-yield options' },
+  { value: 'moderate', label: 'Moderate', description: 'Balance yield against risk' },
+  { value: 'aggressive', label: 'Aggressive', description: 'Accept higher risk for higher returns' },
+];
+
+// Only the latest messages count; older ones say little about the user now
+const INFERENCE_WINDOW = 30;
+
+const EXPERTISE_SIGNALS: Array<{ level: ExpertiseLevel; pattern: RegExp; weight: number }> = [
+  { level: 'beginner', pattern: /\b(?:i'?m new|new to|beginner|first time|never used|noob)\b/i, weight: 3 },
+  { level: 'beginner', pattern: /\b(?:what (?:is|are|does)|what'?s an?|how do i (?:start|begin|get started)|explain like|in simple terms)\b/i, weight: 1 },
+  { level: 'intermediate', pattern: /\b(?:apy|apr|liquidity|lp tokens?|staking|yield|swap|dex|gas fees?|slippage)\b/i, weight: 1 },
+  { level: 'advanced', pattern: /\b(?:acquires|borrow_global(?:_mut)?|signer|entry fun|struct|generics?|abi|bytecode|resource account|move prover|invariants?)\b/i, weight: 2 },
+  { level: 'advanced', pattern: /\b(?:impermanent loss|constant product|amm curve|basis points|bps|mev|oracle|tvl|front-?running|sandwich)\b/i, weight: 2 },
+  { level: 'advanced', pattern: /```|\w+::\w+::\w+/, weight: 2 },
+];
+
+const RISK_SIGNALS: Array<{ tolerance: Exclude<RiskTolerance, 'moderate'>; pattern: RegExp }> = [
+  { tolerance: 'conservative', pattern: /\b(?:safe(?:st|ly)?|low[- ]risk|conservative|protect|can'?t afford to lose|stable ?coins?|careful|worried)\b/i },
+  { tolerance: 'aggressive', pattern: /\b(?:high(?:est)? (?:yield|apy|apr|returns?)|aggressive|leverage|degen|maximi[sz]e|risky|moon|100x)\b/i },
+];
+
+function expertiseLevel(scores: Record<ExpertiseLevel, number>): ExpertiseLevel {
+  if (scores.advanced >= 2 && scores.advanced > scores.beginner + scores.intermediate) return 'advanced';
+  if (scores.intermediate + scores.advanced > scores.beginner) return 'intermediate';
+  return 'beginner';
+}
+
+// null until the messages say something either way
+export function inferProfile(messages: string[]): UserProfile | null {
+  const recent = messages.slice(-INFERENCE_WINDOW);
+  const expertise: Record<ExpertiseLevel, number> = { beginner: 0, intermediate: 0, advanced: 0 };
+  const risk = { conservative: 0, aggressive: 0 };
+
+  for (const message of recent) {
+    for (const signal of EXPERTISE_SIGNALS) {
+      if (signal.pattern.test(message)) expertise[signal.level] += signal.weight;
+    }
+    for (const signal of RISK_SIGNALS) {
+      if (signal.pattern.test(message)) risk[signal.tolerance]++;
+    }
+  }
+
+  if (expertise.beginner + expertise.intermediate + expertise.advanced + risk.conservative + risk.aggressive === 0) {
+    return null;
+  }
+
+  return {
+    expertise: expertiseLevel(expertise),
+    riskTolerance: risk.conservative > risk.aggressive ? 'conservative'
+      : risk.aggressive > risk.conservative ? 'aggressive'
+      : 'moderate',
+    source: 'inferred',
+  };
+}
@@ -0,0 +1,147 @@
+import { Pool, Token, Transaction, Vault, WalletContext, WalletState } from '@/types';
+import { AptosContractService, contractService, formatBalance } from './aptos';
+
+// Store slices the context is built from
+export interface WalletSnapshot {
+  wallet: WalletState;
+  tokens: Token[];
+  pools: Pool[];
+  vaults: Vault[];
+  transactions: Transaction[];
+}
+
+interface OnChainReads {
+  aptBalance?: string;
+  tokenBalances: Record<string, string>;
+  reserves: Record<string, { a: string; b: string }>;
+  stake?: WalletContext['stake'];
+  unavailable: string[];
+}
+
+// Matches the bounds walletContextSchema enforces on the server
+const LIST_LIMIT = 20;
+const RECENT_TRANSACTIONS = 10;
+// On-chain reads are reused for this long, so a quick exchange doesn't hit the node every turn
+const CACHE_TTL_MS = 30_000;
+
+// The stake on chain doesn't say which vault holds it, so take the vault the user last staked in.
+// Transactions are newest first.
+function stakedVault(vaults: Vault[], transactions: Transaction[]): Vault | undefined {
+  for (const tx of transactions) {
+    if (tx.type !== 'deposit' || tx.status !== 'success') continue;
+    const vault = vaults.find(candidate => candidate.contractAddress === tx.to);
+    if (vault) return vault;
+  }
+  return undefined;
+}
+
+// Builds the WalletContext sent with chat turns. Store data is always current; balances,
+// reserves and stake are read from chain. Failed reads are listed rather than thrown.
+export class WalletContextService {
+  private cache: { key: string; readAt: number; reads: OnChainReads } | null = null;
+
+  constructor(private contracts: AptosContractService = contractService) {}
+
+  // null when no wallet is connected. refresh bypasses the cache, e.g. for a portfolio overview.
+  async build(snapshot: WalletSnapshot, refresh = false): Promise<WalletContext | null> {
+    const { wallet } = snapshot;
+    if (!wallet.connected || !wallet.address) {
+      return null;
+    }
+
+    const tokens = snapshot.tokens.slice(0, LIST_LIMIT);
+    const pools = snapshot.pools.slice(0, LIST_LIMIT);
+    const vaults = snapshot.vaults.slice(0, LIST_LIMIT);
+    // APT's decimals when the vault is unknown
+    const stakeDecimals = stakedVault(snapshot.vaults, snapshot.transactions)?.token.decimals ?? 8;
+    const reads = await this.read(wallet.address, tokens, pools, stakeDecimals, refresh);
+
+    return {
+      address: wallet.address,
+      network: wallet.network,
+      aptBalance: reads.aptBalance,
+      tokens: tokens.map(token => ({
+        name: token.name,
+        symbol: token.symbol,
+        address: token.contractAddress,
+        totalSupply: token.totalSupply,
+        balance: reads.tokenBalances[token.contractAddress],
+      })),
+      pools: pools.map(pool => ({
+        name: pool.name,
+        pair: `${pool.tokenA.symbol}/${pool.tokenB.symbol}`,
+        address: pool.contractAddress,
+        feePercent: pool.fee,
+        reserves: reads.reserves[pool.contractAddress],
+      })),
+      vaults: vaults.map(vault => ({
+        name: vault.name,
+        token: vault.token.symbol,
+        address: vault.contractAddress,
+        apy: vault.apy,
+      })),
+      stake: reads.stake,
+      recentTransactions: snapshot.transactions.slice(0, RECENT_TRANSACTIONS).map(tx => ({
+        hash: tx.hash,
+        type: tx.type,
+        status: tx.status,
+        timestamp: new Date(tx.timestamp).toISOString(),
+        vmStatus: tx.vmStatus,
+      })),
+      unavailable: reads.unavailable,
+      fetchedAt: new Date(this.cache?.readAt || Date.now()).toISOString(),
+    };
+  }
+
+  private async read(address: string, tokens: Token[], pools: Pool[], stakeDecimals: number, refresh: boolean): Promise<OnChainReads> {
+    const key = JSON.stringify([
+      address,
+      tokens.map(token => token.contractAddress),
+      pools.map(pool => pool.contractAddress),
+      stakeDecimals,
+    ]);
+    if (!refresh && this.cache?.key === key && Date.now() - this.cache.readAt < CACHE_TTL_MS) {
+      return this.cache.reads;
+    }
+
+    const reads: OnChainReads = { tokenBalances: {}, reserves: {}, unavailable: [] };
+    const attempt = async <T>(label: string, read: () => Promise<T>): Promise<T | undefined> => {
+      try {
+        return await read();
+      } catch {
+        reads.unavailable.push(label);
+        return undefined;
+      }
+    };
+
+    await Promise.all([
+      attempt('APT balance', async () => {
+        reads.aptBalance = formatBalance(await this.contracts.getAptBalance(address), 8);
+      }),
+      ...tokens.map(token => attempt(`${token.symbol} balance`, async () => {
+        const balance = await this.contracts.getFungibleAssetBalance(address, token.contractAddress);
+        reads.tokenBalances[token.contractAddress] = formatBalance(balance, token.decimals);
+      })),
+      ...pools.map(pool => attempt(`${pool.name} reserves`, async () => {
+        const { reserveX, reserveY } = await this.contracts.getReserves(pool.contractAddress);
+        reads.reserves[pool.contractAddress] = {
+          a: formatBalance(String(reserveX), pool.tokenA.decimals),
+          b: formatBalance(String(reserveY), pool.tokenB.decimals),
+        };
+      })),
+      // The stake is kept at the user's address, so it is read whether or not the store knows a vault
+      attempt('vault stake', async () => {
+        const { amount, lastStakeTime } = await this.contracts.getUserStake(address);
+        reads.stake = {
+          amount: formatBalance(String(amount), stakeDecimals),
+          since: Number(lastStakeTime) > 0 ? new Date(Number(lastStakeTime) * 1000).toISOString() : 'never staked',
+        };
+      }),
+    ]);
+
+    this.cache = { key, readAt: Date.now(), reads };
+    return reads;
+  }
+}
+
+export const walletContextService = new WalletContextService();
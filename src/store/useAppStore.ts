@@ -1,5 +1,6 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import { createIndexedDBStorage } from '@/lib/indexed-db-storage';
 import { 
   User, 
   Token, 
@@ -7,15 +8,20 @@ import {
   Vault, 
   ChatMessage, 
   ChatSession, 
+  ConversationSummary,
+  UserProfile,
   WalletState, 
   AppState,
-  SandboxSimulation 
+  SandboxSimulation,
+  Transaction
 } from '@/types';
 
 interface AppStore {
   // User state
   user: User | null;
   setUser: (user: User | null) => void;
+  // Without a connected wallet the profile goes on an anonymous user, carried over on connect
+  setUserProfile: (profile: UserProfile) => void;
 
   // Wallet state
   wallet: WalletState;
@@ -25,10 +31,17 @@ interface AppStore {
   appState: AppState;
   setAppState: (state: Partial<AppState>) => void;
 
-  // Chat state
-  currentSession: ChatSession | null;
-  setCurrentSession: (session: ChatSession | null) => void;
-  addMessage: (message: ChatMessage) => void;
+  // Chat state. Sessions of every wallet are kept; see selectUserSessions
+  sessions: ChatSession[];
+  currentSessionId: string | null;
+  // Add to the given session, or the current one (starting it if needed); returns the session id
+  addMessage: (message: ChatMessage, sessionId?: string) => string;
+  updateMessage: (id: string, updates: Partial<ChatMessage>) => void;
+  selectSession: (id: string) => void;
+  renameSession: (id: string, title: string) => void;
+  setSessionSummary: (id: string, summary: ConversationSummary) => void;
+  deleteSession: (id: string) => void;
+  // The next message starts a new session
   clearSession: () => void;
 
   // DeFi data
@@ -42,6 +55,11 @@ interface AppStore {
   addPool: (pool: Pool) => void;
   addVault: (vault: Vault) => void;
 
+  // Transactions submitted from the app, newest first
+  transactions: Transaction[];
+  addTransaction: (transaction: Transaction) => void;
+  updateTransaction: (hash: string, updates: Partial<Transaction>) => void;
+
   // Sandbox state
   simulations: SandboxSimulation[];
   setSimulations: (simulations: SandboxSimulation[]) => void;
@@ -62,6 +80,12 @@ export const useAppStore = create<AppStore>()(
       // User state
       user: null,
       setUser: (user) => set({ user }),
+      setUserProfile: (profile) => set((state) => ({
+        user: {
+          ...(state.user || { id: ANONYMOUS_USER, address: '', reputation: 0, createdAt: new Date() }),
+          profile,
+        },
+      })),
 
       // Wallet state
       wallet: {
@@ -70,7 +94,19 @@ export const useAppStore = create<AppStore>()(
         balance: undefined,
         network: undefined,
       },
-      setWallet: (wallet) => set({ wallet }),
+      // The connected address is the user's id; a new address gets a fresh user, keeping a profile set before connecting
+      setWallet: (wallet) => set((state) => ({
+        wallet,
+        user: wallet.address && state.user?.address !== wallet.address
+          ? {
+              id: wallet.address,
+              address: wallet.address,
+              reputation: 0,
+              createdAt: new Date(),
+              profile: state.user?.id === ANONYMOUS_USER ? state.user.profile : undefined,
+            }
+          : state.user,
+      })),
 
       // App state
       appState: {
@@ -86,29 +122,62 @@ export const useAppStore = create<AppStore>()(
       })),
 
       // Chat state
-      currentSession: null,
-      setCurrentSession: (session) => set({ currentSession: session }),
-      addMessage: (message) => set((state) => {
-        if (!state.currentSession) {
+      sessions: [],
+      currentSessionId: null,
+      addMessage: (message, sessionId) => {
+        const state = get();
+        const target = sessionId || selectCurrentSession(state)?.id;
+
+        if (!target) {
           const newSession: ChatSession = {
             id: `session_${Date.now()}`,
-            userId: state.user?.id || 'anonymous',
+            userId: sessionOwner(state),
+            title: sessionTitle(message.content),
             messages: [message],
             createdAt: new Date(),
             updatedAt: new Date(),
           };
-          return { currentSession: newSession };
+          set({ sessions: [...state.sessions, newSession], currentSessionId: newSession.id });
+          return newSession.id;
         }
 
-        const updatedSession = {
-          ...state.currentSession,
-          messages: [...state.currentSession.messages, message],
-          updatedAt: new Date(),
-        };
-
-        return { currentSession: updatedSession };
-      }),
-      clearSession: () => set({ currentSession: null }),
+        set({
+          sessions: state.sessions.map(session =>
+            session.id === target
+              ? { ...session, messages: [...session.messages, message], updatedAt: new Date() }
+              : session
+          ),
+        });
+        return target;
+      },
+      updateMessage: (id, updates) => set((state) => ({
+        sessions: state.sessions.map(session =>
+          session.messages.some(message => message.id === id)
+            ? {
+                ...session,
+                messages: session.messages.map(message =>
+                  message.id === id
+                    ? { ...message, ...updates, metadata: { ...message.metadata, ...updates.metadata } }
+                    : message
+                ),
+              }
+            : session
+        ),
+      })),
+      selectSession: (id) => set({ currentSessionId: id }),
+      renameSession: (id, title) => set((state) => ({
+        sessions: state.sessions.map(session =>
+          session.id === id && title.trim() ? { ...session, title: title.trim() } : session
+        ),
+      })),
+      setSessionSummary: (id, summary) => set((state) => ({
+        sessions: state.sessions.map(session => session.id === id ? { ...session, summary } : session),
+      })),
+      deleteSession: (id) => set((state) => ({
+        sessions: state.sessions.filter(session => session.id !== id),
+        currentSessionId: state.currentSessionId === id ? null : state.currentSessionId,
+      })),
+      clearSession: () => set({ currentSessionId: null }),
 
       // DeFi data
       tokens: [],
@@ -127,6 +196,17 @@ export const useAppStore = create<AppStore>()(
         vaults: [...state.vaults, vault] 
       })),
 
+      // Transactions
+      transactions: [],
+      addTransaction: (transaction) => set((state) => ({
+        transactions: [transaction, ...state.transactions.filter(tx => tx.hash !== transaction.hash)]
+      })),
+      updateTransaction: (hash, updates) => set((state) => ({
+        transactions: state.transactions.map(tx =>
+          tx.hash === hash ? { ...tx, ...updates } : tx
+        )
+      })),
+
       // Sandbox state
       simulations: [],
       setSimulations: (simulations) => set({ simulations }),
@@ -150,14 +230,45 @@ export const useAppStore = create<AppStore>()(
     }),
     {
       name: 'aptos-assistant-store',
+      storage: createIndexedDBStorage(),
+      // The wallet is not persisted: the adapter reports it on every load, and the stored
+      // copy could land after that (hydration from IndexedDB is async)
       partialize: (state) => ({
         user: state.user,
-        wallet: state.wallet,
+        sessions: state.sessions,
+        currentSessionId: state.currentSessionId,
         tokens: state.tokens,
         pools: state.pools,
         vaults: state.vaults,
+        transactions: state.transactions,
         simulations: state.simulations,
       }),
     }
   )
 );
+
+const ANONYMOUS_USER = 'anonymous';
+
+// Sessions belong to the connected wallet; without one they are kept under 'anonymous'
+function sessionOwner(state: Pick<AppStore, 'wallet'>): string {
+  return state.wallet.address || ANONYMOUS_USER;
+}
+
+function sessionTitle(content: string): string {
+  const line = content.trim().split('\n')[0];
+  return line.length > 40 ? `${line.slice(0, 40).trimEnd()}…` : line || 'New chat';
+}
+
+// The open session, if it belongs to the connected wallet
+export function selectCurrentSession(state: AppStore): ChatSession | null {
+  const owner = sessionOwner(state);
+  return state.sessions.find(session => session.id === state.currentSessionId && session.userId === owner) || null;
+}
+
+// The connected wallet's sessions, most recently active first
+export function selectUserSessions(state: AppStore): ChatSession[] {
+  const owner = sessionOwner(state);
+  return state.sessions
+    .filter(session => session.userId === owner)
+    .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+}
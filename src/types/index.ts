@@ -5,6 +5,18 @@ export interface User {
   nickname?: string;
   reputation: number;
   createdAt: Date;
+  profile?: UserProfile;
+}
+
+export type ExpertiseLevel = 'beginner' | 'intermediate' | 'advanced';
+export type RiskTolerance = 'conservative' | 'moderate' | 'aggressive';
+
+// How the assistant pitches answers and weighs recommendations, kept across sessions
+export interface UserProfile {
+  expertise: ExpertiseLevel;
+  riskTolerance: RiskTolerance;
+  // 'inferred' profiles follow the conversation until the user edits them in settings
+  source: 'inferred' | 'user';
 }
 
 export interface Token {
@@ -51,18 +63,27 @@ export interface ChatMessage {
   role: 'user' | 'assistant' | 'system';
   content: string;
   timestamp: Date;
+  // Always sent to the model verbatim, never trimmed or summarized away
+  pinned?: boolean;
   metadata?: {
     action?: 'create_token' | 'create_pool' | 'create_vault' | 'query';
     parameters?: Record<string, any>;
     code?: string;
     transactionHash?: string;
+    // Tokens spent producing this reply
+    usage?: TokenUsage;
+    toolTrace?: ToolCallTrace[];
   };
 }
 
 export interface ChatSession {
   id: string;
+  // Wallet address of the owner, or 'anonymous'
   userId: string;
+  title: string;
   messages: ChatMessage[];
+  // Rolling summary of older messages, returned by the chat route once history outgrows its budget
+  summary?: ConversationSummary;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -75,6 +96,24 @@ export interface AIResponse {
   code?: string;
   suggestions?: string[];
   confidence: number;
+  // Chat replies: tokens for the whole turn, including any summarization
+  usage?: TokenUsage;
+  // Set when this turn folded more history into the summary; send it with later turns
+  summary?: ConversationSummary;
+  // On-chain reads the assistant made for this reply
+  toolTrace?: ToolCallTrace[];
+}
+
+// A history message as sent to /api/chat. id and pinned drive trimming and summarization.
+export interface ChatHistoryMessage extends OpenRouterMessage {
+  id?: string;
+  pinned?: boolean;
+}
+
+export interface ConversationSummary {
+  content: string;
+  // Messages up to and including this one are covered (pinned ones are still sent verbatim)
+  throughMessageId: string;
 }
 
 export interface TokenParameters {
@@ -104,18 +143,171 @@ export interface VaultParameters {
 }
 
 // Sandbox types
+export interface SourceSpan {
+  file: string;
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+  label?: string;
+}
+
+export interface SandboxDiagnostic {
+  severity: 'error' | 'warning' | 'info';
+  source: 'compiler' | 'linter' | 'sandbox';
+  code?: string;
+  message: string;
+  span?: SourceSpan;
+  suggestedFix?: {
+    description: string;
+    replacement?: string;
+  };
+}
+
+export interface MoveTestResult {
+  // Fully qualified test function, e.g. 0xcafe::token_tests::test_mint
+  name: string;
+  status: 'pass' | 'fail' | 'timeout';
+  abortCode?: number;
+  abortModule?: string;
+  message?: string;
+  span?: SourceSpan;
+}
+
+export interface GasEstimate {
+  function: string;
+  success: boolean;
+  vmStatus: string;
+  gasUsed: number;
+  gasUnitPrice: number;
+  maxGasAmount: number;
+  // gasUsed * gasUnitPrice, in APT
+  aptCost: number;
+}
+
+export interface ScenarioStep {
+  label?: string;
+  // Account alias that signs the call
+  signer: string;
+  // 'token::mint' (dexxy-contracts), 'MyToken::Token::mint' (simulation code) or fully qualified '0x1::...'
+  function: string;
+  typeArguments?: string[];
+  // '@alice' is alice's address, '@alice/FOO' the object alice created with seed "FOO", 'b"FOO"' utf8 bytes
+  functionArguments: Array<string | number | boolean>;
+}
+
+export interface SandboxScenario {
+  name: string;
+  // Aliases of the funded throwaway accounts; 'publisher' is always available
+  accounts: string[];
+  steps: ScenarioStep[];
+  stopOnFailure?: boolean;
+}
+
+export interface ScenarioStepResult {
+  label: string;
+  // Fully qualified function that was called
+  function: string;
+  signer: string;
+  success: boolean;
+  vmStatus: string;
+  hash?: string;
+  gasUsed?: number;
+  error?: string;
+  events: Array<{ type: string; data: any }>;
+  // Resources written by the step, keyed by account alias where known
+  resources: Array<{ owner: string; type: string; data: any }>;
+  // alias -> asset -> balance in base units, read after the step
+  balances: Record<string, Record<string, string>>;
+}
+
+export interface ScenarioRunReport {
+  name: string;
+  accounts: Record<string, string>;
+  steps: ScenarioStepResult[];
+}
+
+// Security review of a module, as returned by analyzeCode
+export type AuditSeverity = 'critical' | 'high' | 'medium' | 'low' | 'info';
+
+export interface AuditFinding {
+  title: string;
+  severity: AuditSeverity;
+  // e.g. access control, arithmetic, resource safety
+  category: string;
+  // 1-based lines in the reviewed code, when the finding points at specific code
+  startLine?: number;
+  endLine?: number;
+  description: string;
+  recommendation: string;
+}
+
+export interface AuditChecklist {
+  accessControl: boolean;
+  inputValidation: boolean;
+  errorHandling: boolean;
+  arithmeticSafety: boolean;
+  gasOptimization: boolean;
+  upgradeSafety: boolean;
+}
+
+export interface AuditReport {
+  overallRating: 'secure' | 'needs_improvement' | 'critical_issues';
+  deploymentReady: boolean;
+  summary: string;
+  strengths: string[];
+  findings: AuditFinding[];
+  checklist: AuditChecklist;
+}
+
+// A code generation reply split into compilable Move and the sections around it
+export interface GeneratedCode {
+  code: string;
+  // Rendered from a vetted template, or written by the model for custom requirements
+  source?: 'template' | 'assistant';
+  explanation?: string;
+  deploymentSteps?: string[];
+  securityNotes?: string;
+}
+
+// One version of a simulation's code and how it fared; auto-fix appends one per attempt
+export interface SandboxRevision {
+  version: number;
+  code: string;
+  origin: 'original' | 'repair';
+  compiled: boolean;
+  testsPassed: boolean;
+  diagnostics: SandboxDiagnostic[];
+  tests: MoveTestResult[];
+  createdAt: Date;
+}
+
 export interface SandboxSimulation {
   id: string;
   type: 'token' | 'pool' | 'vault';
   parameters: TokenParameters | PoolParameters | VaultParameters;
   code: string;
+  // Prose that came with generated code; see GeneratedCode
+  explanation?: string;
+  deploymentSteps?: string[];
+  securityNotes?: string;
+  // Free-text requirements; when set, code is generated by the model instead of a template
+  requirements?: string;
+  // User-authored #[test_only] modules run with `aptos move test`
+  testModules?: string[];
+  revisions?: SandboxRevision[];
   status: 'pending' | 'compiling' | 'success' | 'error';
   result?: {
     success: boolean;
     errors?: string[];
     warnings?: string[];
+    diagnostics?: SandboxDiagnostic[];
+    tests?: MoveTestResult[];
+    executionTime?: number;
     gasEstimate?: string;
-    aiAnalysis?: string;
+    gasReport?: GasEstimate[];
+    scenario?: ScenarioRunReport;
+    audit?: AuditReport;
   };
   createdAt: Date;
 }
@@ -123,13 +315,27 @@ export interface SandboxSimulation {
 // Transaction types
 export interface Transaction {
   hash: string;
-  type: 'deploy' | 'mint' | 'transfer' | 'create_pool' | 'deposit' | 'withdraw';
+  type:
+    | 'deploy'
+    | 'mint'
+    | 'burn'
+    | 'transfer'
+    | 'create_pool'
+    | 'add_liquidity'
+    | 'swap'
+    | 'create_vault'
+    | 'deposit'
+    | 'withdraw'
+    | 'claim_rewards';
   status: 'pending' | 'success' | 'failed';
   from: string;
   to?: string;
   amount?: string;
   token?: string;
   gasUsed?: string;
+  vmStatus?: string;
+  // Chat message the transaction was submitted from
+  messageId?: string;
   timestamp: Date;
 }
 
@@ -141,6 +347,23 @@ export interface WalletState {
   network?: string;
 }
 
+// Snapshot of the connected wallet sent with chat turns, so answers use real holdings.
+// Built from the store plus on-chain reads; amounts are decimal strings in whole units.
+export interface WalletContext {
+  address: string;
+  network?: string;
+  aptBalance?: string;
+  tokens: Array<{ name: string; symbol: string; address: string; totalSupply: string; balance?: string }>;
+  pools: Array<{ name: string; pair: string; address: string; feePercent: number; reserves?: { a: string; b: string } }>;
+  vaults: Array<{ name: string; token: string; address: string; apy: number }>;
+  // Stake in the yield vault module, if any
+  stake?: { amount: string; since: string };
+  recentTransactions: Array<{ hash: string; type: Transaction['type']; status: Transaction['status']; timestamp: string; vmStatus?: string }>;
+  // Reads that failed, so the assistant says it could not check them instead of guessing
+  unavailable: string[];
+  fetchedAt: string;
+}
+
 // UI State types
 export interface AppState {
   currentView: 'chat' | 'dashboard' | 'sandbox' | 'pools' | 'tokens';
@@ -161,8 +384,29 @@ export interface ApiResponse<T> {
 
 // OpenRouter API types
 export interface OpenRouterMessage {
-  role: 'system' | 'user' | 'assistant';
+  role: 'system' | 'user' | 'assistant' | 'tool';
   content: string;
+  // Assistant turns that call tools
+  tool_calls?: OpenRouterToolCall[];
+  // Tool turns: the call this is the result of
+  tool_call_id?: string;
+}
+
+export interface OpenRouterToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    // JSON-encoded, as generated by the model
+    arguments: string;
+  };
+}
+
+// A function the model may call; parameters is a JSON Schema object
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
 }
 
 export interface OpenRouterResponse {
@@ -174,7 +418,8 @@ export interface OpenRouterResponse {
     index: number;
     message: {
       role: string;
-      content: string;
+      content: string | null;
+      tool_calls?: OpenRouterToolCall[];
     };
     finish_reason: string;
   }>;
@@ -184,3 +429,109 @@ export interface OpenRouterResponse {
     total_tokens: number;
   };
 }
+
+// A chunk of a streamed completion (`stream: true`)
+export interface OpenRouterStreamChunk {
+  id: string;
+  model: string;
+  choices: Array<{
+    index: number;
+    delta: {
+      role?: string;
+      content?: string | null;
+      // Streamed in pieces: id and name first, then arguments in fragments, keyed by index
+      tool_calls?: Array<{
+        index: number;
+        id?: string;
+        function?: { name?: string; arguments?: string };
+      }>;
+    };
+    finish_reason: string | null;
+  }>;
+  // Sent on the final chunk when the request asks for it
+  usage?: OpenRouterResponse['usage'];
+  error?: {
+    code: number | string;
+    message: string;
+  };
+}
+
+export type LLMProviderName = 'openrouter' | 'local' | 'mock';
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMCompletion {
+  content: string;
+  model: string;
+  usage?: TokenUsage;
+  // Present when the model asked for tools instead of (or before) answering
+  toolCalls?: OpenRouterToolCall[];
+}
+
+// One tool call made while answering a chat message, shown in the message's trace
+export interface ToolCallTrace {
+  name: string;
+  arguments: Record<string, unknown>;
+  result?: unknown;
+  error?: string;
+  durationMs: number;
+}
+
+// Events sent by /api/chat when streaming
+export type ChatStreamEvent =
+  | { type: 'token'; content: string }
+  | { type: 'done'; response: AIResponse }
+  | { type: 'error'; error: string; details?: string };
+
+// API route bodies, shared by the routes and assistantClient
+export interface ApiErrorResponse {
+  error: string;
+  details?: string;
+  // One message per invalid field on 400s from the generate routes
+  errors?: string[];
+}
+
+export interface ChatApiResponse {
+  success: true;
+  response: string;
+  action?: AIResponse['action'];
+  parameters?: AIResponse['parameters'];
+  confidence: number;
+  usage?: TokenUsage;
+  summary?: ConversationSummary;
+  toolTrace?: ToolCallTrace[];
+  timestamp: string;
+}
+
+export interface GenerateCodeApiResponse<P> extends GeneratedCode {
+  success: true;
+  parameters: P;
+  timestamp: string;
+}
+
+export interface RepairCodeApiResponse extends GeneratedCode {
+  success: true;
+  timestamp: string;
+}
+
+export interface AnalyzeCodeApiResponse {
+  success: true;
+  audit: AuditReport;
+  timestamp: string;
+}
+
+export interface ExplainConceptApiResponse {
+  success: true;
+  explanation: string;
+  timestamp: string;
+}
+
+export interface RecommendationsApiResponse {
+  success: true;
+  recommendations: string;
+  timestamp: string;
+}